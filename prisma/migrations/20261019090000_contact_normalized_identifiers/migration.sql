@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Contact" ADD COLUMN     "normalizedEmail" TEXT,
+ADD COLUMN     "normalizedPhoneNumber" TEXT;
+
+-- Backfill
+-- Emails get the default trim/lowercase rule here. Phone numbers need E.164
+-- canonicalization with the deployment's default region, which is done by
+-- `npm run db:backfill-normalized` (also used to re-apply changed email rules).
+UPDATE "Contact" SET "normalizedEmail" = NULLIF(lower(btrim("email")), '')
+WHERE "email" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Contact_normalizedEmail_idx" ON "Contact"("normalizedEmail");
+
+-- CreateIndex
+CREATE INDEX "Contact_normalizedPhoneNumber_idx" ON "Contact"("normalizedPhoneNumber");
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "ContactEventType" AS ENUM ('created', 'secondary_linked', 'primary_merged', 'demoted', 'relinked', 'promoted', 'deleted', 'erased');
+
+-- CreateTable
+CREATE TABLE "ContactEvent" (
+    "id" SERIAL NOT NULL,
+    "contactId" INTEGER NOT NULL,
+    "type" "ContactEventType" NOT NULL,
+    "previousLinkedId" INTEGER,
+    "linkedId" INTEGER,
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContactEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContactEvent_contactId_createdAt_idx" ON "ContactEvent"("contactId", "createdAt");
@@ -0,0 +1,20 @@
+-- DropIndex
+DROP INDEX "Contact_normalizedEmail_idx";
+
+-- DropIndex
+DROP INDEX "Contact_normalizedPhoneNumber_idx";
+
+-- AlterTable
+ALTER TABLE "Contact" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "tenantId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Contact_tenantId_normalizedEmail_idx" ON "Contact"("tenantId", "normalizedEmail");
+
+-- CreateIndex
+CREATE INDEX "Contact_tenantId_normalizedPhoneNumber_idx" ON "Contact"("tenantId", "normalizedPhoneNumber");
+
+-- CreateIndex
+CREATE INDEX "Contact_tenantId_linkPrecedence_id_idx" ON "Contact"("tenantId", "linkPrecedence", "id");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ContactIdentifier" (
+    "id" SERIAL NOT NULL,
+    "contactId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "normalizedValue" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContactIdentifier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContactIdentifier_type_normalizedValue_idx" ON "ContactIdentifier"("type", "normalizedValue");
+
+-- CreateIndex
+CREATE INDEX "ContactIdentifier_contactId_idx" ON "ContactIdentifier"("contactId");
+
+-- AddForeignKey
+ALTER TABLE "ContactIdentifier" ADD CONSTRAINT "ContactIdentifier_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ContactSource" AS ENUM ('checkout', 'login', 'support_agent');
+
+-- CreateEnum
+CREATE TYPE "MergeSuggestionStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- AlterEnum
+ALTER TYPE "ApiKeyScope" ADD VALUE 'verify' BEFORE 'admin';
+
+-- AlterEnum
+ALTER TYPE "ContactEventType" ADD VALUE 'verified';
+
+-- AlterTable
+ALTER TABLE "Contact" ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "phoneNumberVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "source" "ContactSource";
+
+-- AlterTable
+ALTER TABLE "ContactIdentifier" ADD COLUMN     "verifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "MergeSuggestion" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "primaryContactIds" INTEGER[],
+    "payload" JSONB NOT NULL,
+    "status" "MergeSuggestionStatus" NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "MergeSuggestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MergeSuggestion_tenantId_status_idx" ON "MergeSuggestion"("tenantId", "status");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "DuplicateCandidate" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "primaryContactIds" INTEGER[],
+    "score" DOUBLE PRECISION NOT NULL,
+    "emailSimilarity" DOUBLE PRECISION,
+    "phoneSimilarity" DOUBLE PRECISION,
+    "sharedDomain" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DuplicateCandidate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DuplicateCandidate_tenantId_score_idx" ON "DuplicateCandidate"("tenantId", "score");
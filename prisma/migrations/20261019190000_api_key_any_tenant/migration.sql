@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "anyTenant" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,125 @@
+import { ApiKeyScope } from "@prisma/client";
+import { Request, RequestHandler, Response } from "express";
+import { DEFAULT_TENANT_ID } from "../config";
+import { ApiKeyService } from "../services/apiKeyService";
+import { ApiKeySummary } from "../types/apiKeys";
+import { RequestContext } from "../types/context";
+import { ValidationErrorResponse } from "../types/validation";
+import { getRequestLogger } from "../logging/requestLogging";
+
+const apiKeyService = new ApiKeyService();
+
+/**
+ * The form tenant ids must take, in the `X-Tenant-Id` header and when
+ * binding API keys to a tenant.
+ */
+export const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Reads the API key from the `X-API-Key` header or from an
+ * `Authorization: Bearer <key>` header.
+ */
+const readApiKey = (req: Request): string | null => {
+  const headerKey = req.get("X-API-Key");
+  if (headerKey) {
+    return headerKey.trim();
+  }
+
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("Authorization") ?? "");
+  return match ? match[1] : null;
+};
+
+/**
+ * Determines the tenant of a request. Keys issued for any tenant may pick
+ * one with the `X-Tenant-Id` header and otherwise act for the default
+ * tenant; all other keys always act for their own tenant, or the default one
+ * if they have none.
+ * @returns The tenant id, or an error response to send instead.
+ */
+const resolveTenant = (
+  req: Request,
+  apiKey: ApiKeySummary
+):
+  | { tenantId: string }
+  | { status: number; body: { message: string } | ValidationErrorResponse } => {
+  const requested = req.get("X-Tenant-Id")?.trim() || null;
+  if (requested !== null && !TENANT_ID_PATTERN.test(requested)) {
+    const message =
+      "X-Tenant-Id must be 1 to 64 letters, digits, hyphens or underscores.";
+    return {
+      status: 400,
+      body: {
+        message,
+        errors: [{ field: "X-Tenant-Id", code: "invalid_format", message }],
+      },
+    };
+  }
+  const bound = apiKey.anyTenant
+    ? null
+    : (apiKey.tenantId ?? DEFAULT_TENANT_ID);
+  if (bound !== null && requested !== null && requested !== bound) {
+    return {
+      status: 403,
+      body: { message: `The API key is not valid for tenant "${requested}".` },
+    };
+  }
+  return { tenantId: bound ?? requested ?? DEFAULT_TENANT_ID };
+};
+
+/**
+ * Returns the context of a request that passed `requireApiKey`.
+ */
+export const getRequestContext = (res: Response): RequestContext =>
+  res.locals.context;
+
+/**
+ * Builds a middleware that only lets requests through that carry an active
+ * API key with the given scope. The key is available to later handlers as
+ * `res.locals.apiKey`, and the tenant it acts for as part of the request
+ * context, see `getRequestContext`.
+ */
+export const requireApiKey =
+  (scope: ApiKeyScope): RequestHandler =>
+  async (req, res, next) => {
+    const key = readApiKey(req);
+    if (!key) {
+      res
+        .status(401)
+        .set("WWW-Authenticate", "Bearer")
+        .json({ message: "An API key is required." });
+      return;
+    }
+
+    try {
+      const apiKey = await apiKeyService.authenticate(key);
+      if (!apiKey) {
+        res
+          .status(401)
+          .set("WWW-Authenticate", "Bearer")
+          .json({ message: "The API key is invalid or has been revoked." });
+        return;
+      }
+      if (!apiKey.scopes.includes(scope)) {
+        res
+          .status(403)
+          .json({ message: `The API key lacks the "${scope}" scope.` });
+        return;
+      }
+
+      const tenant = resolveTenant(req, apiKey);
+      if ("body" in tenant) {
+        res.status(tenant.status).json(tenant.body);
+        return;
+      }
+
+      res.locals.apiKey = apiKey;
+      res.locals.context = {
+        tenantId: tenant.tenantId,
+        requestId: res.locals.requestId,
+      } as RequestContext;
+      next();
+    } catch (error) {
+      getRequestLogger(res).error("API key lookup failed", { error });
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  };
@@ -0,0 +1,144 @@
+/**
+ * Deployment configuration, read once from environment variables at startup.
+ */
+
+const readBoolean = (name: string, fallback: boolean): boolean => {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  return ["1", "true", "yes", "on"].includes(value.toLowerCase());
+};
+
+const readInteger = (name: string, fallback: number): number => {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+const readList = (name: string, fallback: string[]): string[] => {
+  const value = process.env[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+const readChoice = <T extends string>(
+  name: string,
+  choices: readonly T[],
+  fallback: T
+): T => {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  if (!choices.includes(value as T)) {
+    throw new Error(
+      `Invalid ${name} "${value}"; expected one of ${choices.join(", ")}.`
+    );
+  }
+  return value as T;
+};
+
+/**
+ * The tenant of requests whose API key and headers do not name one. Matches
+ * the default of the `Contact.tenantId` column, so single-tenant deployments
+ * keep working unchanged.
+ */
+export const DEFAULT_TENANT_ID = "default";
+
+export const config = {
+  normalization: {
+    /** Treat dots in the local part of Gmail addresses as insignificant. */
+    gmailIgnoreDots: readBoolean("NORMALIZE_GMAIL_DOTS", false),
+    /** Drop "+alias" suffixes from the local part of Gmail addresses. */
+    gmailStripPlusAlias: readBoolean("NORMALIZE_GMAIL_PLUS_ALIAS", false),
+    /** ISO 3166-1 region used to interpret phone numbers without a country code. */
+    defaultPhoneRegion: process.env.DEFAULT_PHONE_REGION || "US",
+  },
+  /**
+   * Identifier types accepted in the `identifiers` field of identify requests,
+   * next to email and phone number. Contacts sharing a value of the same type
+   * are linked, just like contacts sharing an email.
+   */
+  identifierTypes: readList("IDENTIFIER_TYPES", [
+    "loyaltyCard",
+    "deviceId",
+    "paymentFingerprint",
+  ]),
+  /**
+   * How the primary of an identity is chosen when several contacts could be:
+   * "oldest" (the contact created first), "mostRecentlyActive" (the
+   * contact created or re-linked last) or "verified" (a contact with a
+   * verified email or phone number, then the oldest).
+   */
+  primarySelection: process.env.PRIMARY_SELECTION || "oldest",
+  /**
+   * When `/identify` may merge two existing identities: "always", only when
+   * "verified" identifiers link them, or never without "review". Held back
+   * merges are recorded as merge suggestions.
+   */
+  mergeMode: readChoice(
+    "MERGE_MODE",
+    ["always", "verified", "review"] as const,
+    "always"
+  ),
+  identifyBatch: {
+    /** Maximum number of items accepted by POST /identify/batch. */
+    maxSize: readInteger("IDENTIFY_BATCH_MAX_SIZE", 100),
+    /** Time limit for reconciling a whole batch in one transaction. */
+    transactionTimeoutMs: readInteger("IDENTIFY_BATCH_TIMEOUT_MS", 30000),
+  },
+  rateLimit: {
+    /** Apply the limits below to POST /identify and POST /identify/batch. */
+    enabled: readBoolean("RATE_LIMIT_ENABLED", true),
+    /** Token bucket per API key: burst size and sustained rate. */
+    perClient: {
+      capacity: readInteger("RATE_LIMIT_CLIENT_BURST", 500),
+      refillPerMinute: readInteger("RATE_LIMIT_CLIENT_PER_MINUTE", 3000),
+    },
+    /** Token bucket per client IP address. */
+    perIp: {
+      capacity: readInteger("RATE_LIMIT_IP_BURST", 300),
+      refillPerMinute: readInteger("RATE_LIMIT_IP_PER_MINUTE", 1800),
+    },
+  },
+  idempotency: {
+    /** How long a response is replayed to retries with the same Idempotency-Key. */
+    ttlMs: readInteger("IDEMPOTENCY_TTL_MS", 24 * 3_600_000),
+    /** How long a retry waits for the first request to finish before a 409. */
+    waitTimeoutMs: readInteger("IDEMPOTENCY_WAIT_TIMEOUT_MS", 10_000),
+    /** How often expired keys are deleted; 0 disables it. */
+    purgeIntervalMs: readInteger("IDEMPOTENCY_PURGE_INTERVAL_MS", 60_000),
+  },
+  clusterLimit: {
+    /** Maximum secondaries created in one identity per window; 0 disables the cap. */
+    maxSecondaries: readInteger("CLUSTER_SECONDARY_LIMIT", 100),
+    windowMs: readInteger("CLUSTER_SECONDARY_WINDOW_MS", 3_600_000),
+  },
+  webhooks: {
+    /** How often the in-process dispatcher sends due deliveries; 0 disables it. */
+    dispatchIntervalMs: readInteger("WEBHOOK_DISPATCH_INTERVAL_MS", 5000),
+    /** Attempts after which a delivery is given up and dead-lettered. */
+    maxAttempts: readInteger("WEBHOOK_MAX_ATTEMPTS", 10),
+    /** Delay before the first retry, doubled after every failed attempt. */
+    backoffBaseMs: readInteger("WEBHOOK_BACKOFF_BASE_MS", 30_000),
+    backoffMaxMs: readInteger("WEBHOOK_BACKOFF_MAX_MS", 6 * 3_600_000),
+    /** Time a subscriber has to answer a delivery. */
+    timeoutMs: readInteger("WEBHOOK_TIMEOUT_MS", 10_000),
+  },
+  /**
+   * The least severe log lines written. Tests log nothing unless asked to,
+   * to keep their output readable.
+   */
+  logLevel: readChoice(
+    "LOG_LEVEL",
+    ["debug", "info", "warn", "error", "silent"] as const,
+    process.env.NODE_ENV === "test" ? "silent" : "info"
+  ),
+  /** Number of reverse proxies in front of the app, used to find client IPs. */
+  trustProxyHops: readInteger("TRUST_PROXY_HOPS", 0),
+};
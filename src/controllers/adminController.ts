@@ -0,0 +1,156 @@
+import { Request, Response, RequestHandler } from "express";
+import { MergeSuggestionStatus } from "@prisma/client";
+import { ContactService } from "../services/contactService";
+import { ConsistencyService } from "../services/consistencyService";
+import { DuplicateService } from "../services/duplicateService";
+import { getRequestContext } from "../auth/requireApiKey";
+import { getRequestLogger } from "../logging/requestLogging";
+import { SplitRequest, SplitResponse } from "../types/contacts";
+import { InvalidRequestError, LimitExceededError } from "../errors";
+
+const contactService = new ContactService();
+const consistencyService = new ConsistencyService();
+const duplicateService = new DuplicateService();
+
+export const splitIdentityController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const contactId = Number(req.params.id);
+  const { contactIds, dryRun }: SplitRequest = req.body;
+
+  try {
+    const result: SplitResponse | null = await contactService.splitIdentity(
+      getRequestContext(res),
+      contactId,
+      contactIds,
+      dryRun ?? false
+    );
+    if (!result) {
+      res.status(404).json({ message: "Contact not found." });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof InvalidRequestError) {
+      res.status(400).json(error.toResponse());
+      return;
+    }
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const listMergeSuggestionsController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const status = (
+    typeof req.query.status === "string" ? req.query.status : "pending"
+  ) as MergeSuggestionStatus;
+  const afterId = Number(req.query.after ?? 0);
+
+  try {
+    const mergeSuggestions = await contactService.listMergeSuggestions(
+      getRequestContext(res),
+      status,
+      afterId
+    );
+    res.status(200).json({ mergeSuggestions });
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const approveMergeSuggestionController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const id = Number(req.params.id);
+
+  try {
+    const result = await contactService.approveMergeSuggestion(
+      getRequestContext(res),
+      id
+    );
+    if (!result) {
+      res.status(404).json({ message: "Merge suggestion not found." });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof InvalidRequestError) {
+      res.status(400).json(error.toResponse());
+      return;
+    }
+    if (error instanceof LimitExceededError) {
+      res
+        .status(429)
+        .set("Retry-After", String(error.retryAfterSeconds))
+        .json({ message: error.message });
+      return;
+    }
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const rejectMergeSuggestionController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const id = Number(req.params.id);
+
+  try {
+    const result = await contactService.rejectMergeSuggestion(
+      getRequestContext(res),
+      id
+    );
+    if (!result) {
+      res.status(404).json({ message: "Merge suggestion not found." });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof InvalidRequestError) {
+      res.status(400).json(error.toResponse());
+      return;
+    }
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const consistencyReportController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const report = await consistencyService.check(getRequestContext(res));
+    res.status(200).json(report);
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const listDuplicateCandidatesController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const minScore = Number(req.query.minScore ?? 0);
+  const limit = Number(req.query.limit ?? 100);
+
+  try {
+    const candidates = await duplicateService.listCandidates(
+      getRequestContext(res),
+      minScore,
+      limit
+    );
+    res.status(200).json({ candidates });
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
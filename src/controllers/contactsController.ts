@@ -0,0 +1,176 @@
+import { Request, Response, RequestHandler } from "express";
+import { ContactService } from "../services/contactService";
+import { getRequestContext } from "../auth/requireApiKey";
+import { getRequestLogger } from "../logging/requestLogging";
+import { phoneNumberString } from "../normalization/contactNormalizer";
+import { ExpandedIdentifyResponse, IdentifyResponse } from "../types/identify";
+import { RequestContext } from "../types/context";
+import {
+  ContactHistoryResponse,
+  DeletionMode,
+  DeletionResponse,
+  VerificationRequest,
+  VerificationResponse,
+} from "../types/contacts";
+import { InvalidRequestError } from "../errors";
+
+const contactService = new ContactService();
+
+// Requests are validated against the schemas in src/validation/schemas.ts
+// before they reach these handlers.
+
+const readQueryString = (value: unknown): string | null =>
+  typeof value === "string" && value !== "" ? value : null;
+
+/**
+ * Adds the contacts behind the identity when the request asks for them with
+ * `?expand=contacts`.
+ */
+const expandIfRequested = async (
+  req: Request,
+  context: RequestContext,
+  result: IdentifyResponse
+): Promise<IdentifyResponse | ExpandedIdentifyResponse> => {
+  if (req.query.expand !== "contacts") {
+    return result;
+  }
+  const [expanded] = await contactService.expandIdentities(context, [result]);
+  return expanded;
+};
+
+/**
+ * Builds a handler that deletes a contact or its whole identity, depending on
+ * the given service call.
+ */
+const createDeletionController =
+  (
+    deleteFn: (
+      context: RequestContext,
+      contactId: number,
+      mode: DeletionMode
+    ) => Promise<DeletionResponse | null>
+  ): RequestHandler =>
+  async (req: Request, res: Response) => {
+    const contactId = Number(req.params.id);
+    const mode = (readQueryString(req.query.mode) ?? "soft") as DeletionMode;
+
+    try {
+      const result = await deleteFn(getRequestContext(res), contactId, mode);
+      if (!result) {
+        res.status(404).json({ message: "Contact not found." });
+        return;
+      }
+      res.status(200).json(result);
+    } catch (error) {
+      getRequestLogger(res).error("Request failed", { error });
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  };
+
+export const getContactByIdController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const contactId = Number(req.params.id);
+  const context = getRequestContext(res);
+
+  try {
+    const result: IdentifyResponse | null =
+      await contactService.findIdentityByContactId(context, contactId);
+    if (!result) {
+      res.status(404).json({ message: "Contact not found." });
+      return;
+    }
+    res.status(200).json(await expandIfRequested(req, context, result));
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const getContactHistoryController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const contactId = Number(req.params.id);
+
+  try {
+    const result: ContactHistoryResponse | null =
+      await contactService.getIdentityHistory(
+        getRequestContext(res),
+        contactId
+      );
+    if (!result) {
+      res.status(404).json({ message: "Contact not found." });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const lookupContactController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const email = readQueryString(req.query.email);
+  const phoneNumber = readQueryString(req.query.phoneNumber);
+  const context = getRequestContext(res);
+
+  try {
+    const result: IdentifyResponse | null = await contactService.findIdentity(
+      context,
+      email,
+      phoneNumber
+    );
+    if (!result) {
+      res.status(404).json({ message: "Contact not found." });
+      return;
+    }
+    res.status(200).json(await expandIfRequested(req, context, result));
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const verifyContactController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const { email, phoneNumber, identifiers }: VerificationRequest = req.body;
+
+  try {
+    const result: VerificationResponse | null =
+      await contactService.verifyIdentifiers(
+        getRequestContext(res),
+        email ?? null,
+        phoneNumberString(phoneNumber),
+        identifiers ?? {}
+      );
+    if (!result) {
+      res.status(404).json({ message: "Contact not found." });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof InvalidRequestError) {
+      res.status(400).json(error.toResponse());
+      return;
+    }
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const deleteContactController = createDeletionController(
+  (context, contactId, mode) =>
+    contactService.deleteContact(context, contactId, mode)
+);
+
+export const deleteIdentityController = createDeletionController(
+  (context, contactId, mode) =>
+    contactService.deleteIdentity(context, contactId, mode)
+);
@@ -1,30 +1,148 @@
 import { Request, Response, RequestHandler } from "express";
 import { ContactService } from "../services/contactService";
-import { IdentifyRequest, IdentifyResponse } from "../types/identify";
+import { getRequestContext } from "../auth/requireApiKey";
+import { getRequestLogger } from "../logging/requestLogging";
+import { phoneNumberString } from "../normalization/contactNormalizer";
+import {
+  BatchIdentifyItemResult,
+  BatchIdentifyResponse,
+  IdentifyRequest,
+  IdentifyResponse,
+} from "../types/identify";
+import { ValidationErrorResponse } from "../types/validation";
+import { InvalidRequestError, LimitExceededError } from "../errors";
+import { config } from "../config";
+import { validateValue } from "../validation/validateRequest";
+import { RequestContext } from "../types/context";
 
 const contactService = new ContactService();
 
+/**
+ * Expands the identities of the successful items of a batch, keeping the
+ * errors as they are.
+ */
+const expandBatchResults = async (
+  context: RequestContext,
+  results: BatchIdentifyItemResult[]
+): Promise<BatchIdentifyItemResult[]> => {
+  const identified = results.filter((result) => result.status === "ok");
+  const expanded = await contactService.expandIdentities(context, identified);
+  const expandedByIndex = new Map(
+    identified.map((result, i) => [result.index, expanded[i]])
+  );
+  return results.map((result) => {
+    const expansion = expandedByIndex.get(result.index);
+    return expansion ? { ...result, ...expansion } : result;
+  });
+};
+
 export const identifyController: RequestHandler = async (
   req: Request,
   res: Response
 ) => {
-  const { email, phoneNumber }: IdentifyRequest = req.body;
-
-  if (!email && !phoneNumber) {
-    res
-      .status(400)
-      .json({ message: "Email or phone number must be provided." });
-    return;
-  }
+  const { email, phoneNumber, identifiers, source }: IdentifyRequest = req.body;
+  const context = getRequestContext(res);
 
   try {
     const result: IdentifyResponse = await contactService.identify(
+      context,
       email ?? null,
-      phoneNumber ? String(phoneNumber) : null
+      phoneNumberString(phoneNumber),
+      identifiers ?? {},
+      source ?? null
     );
+    if (req.query.expand === "contacts") {
+      const [expanded] = await contactService.expandIdentities(context, [
+        result,
+      ]);
+      res.status(200).json(expanded);
+      return;
+    }
     res.status(200).json(result);
   } catch (error) {
-    console.error(error);
+    if (error instanceof InvalidRequestError) {
+      res.status(400).json(error.toResponse());
+      return;
+    }
+    if (error instanceof LimitExceededError) {
+      res
+        .status(429)
+        .set("Retry-After", String(error.retryAfterSeconds))
+        .json({ message: error.message });
+      return;
+    }
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+/**
+ * Rejects batches larger than the configured maximum with 413. Runs before
+ * the rate limit, so that oversized batches take no tokens.
+ */
+export const identifyBatchSizeLimit: RequestHandler = (req, res, next) => {
+  const { maxSize } = config.identifyBatch;
+  if (req.body.length > maxSize) {
+    const message = `A batch may contain at most ${maxSize} items.`;
+    const response: ValidationErrorResponse = {
+      message,
+      errors: [{ field: "body", code: "too_many_items", message }],
+    };
+    res.status(413).json(response);
+    return;
+  }
+  next();
+};
+
+export const identifyBatchController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const items: unknown[] = req.body;
+  const itemErrors = items.map((item) =>
+    validateValue("IdentifyRequest", item, "item")
+  );
+  // Invalid items are sent without identifiers, so their results stay in
+  // place as errors, and are then given their validation errors
+  const batchItems = items.map((item, index) => {
+    const { email, phoneNumber, identifiers, source }: IdentifyRequest =
+      itemErrors[index].length === 0 ? (item as IdentifyRequest) : {};
+    return {
+      email: email ?? null,
+      phoneNumber: phoneNumberString(phoneNumber),
+      identifiers: identifiers ?? null,
+      source: source ?? null,
+    };
+  });
+
+  const context = getRequestContext(res);
+
+  try {
+    const batchResults = await contactService.identifyBatch(
+      context,
+      batchItems
+    );
+    const results = batchResults.map(
+      (result): BatchIdentifyItemResult => {
+        const errors = itemErrors[result.index];
+        return errors.length === 0
+          ? result
+          : {
+              index: result.index,
+              status: "error",
+              error: { message: errors[0].message, errors },
+            };
+      }
+    );
+    const response: BatchIdentifyResponse = {
+      results:
+        req.query.expand === "contacts"
+          ? await expandBatchResults(context, results)
+          : results,
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
     res.status(500).json({ message: "Internal Server Error" });
   }
 };
@@ -0,0 +1,18 @@
+import { Request, Response, RequestHandler } from "express";
+import { registry } from "../metrics/metrics";
+import { getRequestLogger } from "../logging/requestLogging";
+
+export const metricsController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    res
+      .status(200)
+      .set("Content-Type", registry.contentType)
+      .send(await registry.metrics());
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
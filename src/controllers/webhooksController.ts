@@ -0,0 +1,107 @@
+import { Request, Response, RequestHandler } from "express";
+import { WebhookService } from "../services/webhookService";
+import { getRequestContext } from "../auth/requireApiKey";
+import { getRequestLogger } from "../logging/requestLogging";
+import {
+  CreatedWebhookSubscription,
+  DeadLettersResponse,
+  WebhookSubscriptionRequest,
+} from "../types/webhooks";
+
+const webhookService = new WebhookService();
+
+// Requests are validated against the schemas in src/validation/schemas.ts
+// before they reach these handlers.
+
+export const createWebhookSubscriptionController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const { url, events }: WebhookSubscriptionRequest = req.body;
+
+  try {
+    const result: CreatedWebhookSubscription = await webhookService.subscribe(
+      getRequestContext(res),
+      url,
+      events
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const listWebhookSubscriptionsController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const subscriptions = await webhookService.listSubscriptions(
+      getRequestContext(res)
+    );
+    res.status(200).json({ subscriptions });
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const deleteWebhookSubscriptionController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const id = Number(req.params.id);
+
+  try {
+    const subscription = await webhookService.unsubscribe(
+      getRequestContext(res),
+      id
+    );
+    if (!subscription) {
+      res.status(404).json({ message: "Webhook subscription not found." });
+      return;
+    }
+    res.status(200).json(subscription);
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const listDeadLettersController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const result: DeadLettersResponse = {
+      deliveries: await webhookService.listDeadLetters(getRequestContext(res)),
+    };
+    res.status(200).json(result);
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+export const retryDeliveryController: RequestHandler = async (
+  req: Request,
+  res: Response
+) => {
+  const id = Number(req.params.id);
+
+  try {
+    const delivery = await webhookService.retryDelivery(
+      getRequestContext(res),
+      id
+    );
+    if (!delivery) {
+      res.status(404).json({ message: "Dead-lettered delivery not found." });
+      return;
+    }
+    res.status(200).json(delivery);
+  } catch (error) {
+    getRequestLogger(res).error("Request failed", { error });
+    res.status(500).json({ message: "Internal Server Error" });
+  }
+};
@@ -0,0 +1,168 @@
+/**
+ * The normalized emails and phone numbers of one identity, compared as a
+ * whole against other identities.
+ */
+export interface IdentityFingerprint {
+  primaryContactId: number;
+  emails: string[];
+  phoneNumbers: string[];
+}
+
+/**
+ * How alike two identities are. Each similarity is that of their closest
+ * pair of values, from 0 to 1, or null when either identity has none.
+ */
+export interface DuplicateScore {
+  score: number;
+  emailSimilarity: number | null;
+  phoneSimilarity: number | null;
+  sharedDomain: boolean;
+}
+
+// Values further apart than this are different customers, not typos. Short
+// local parts allow fewer edits, as "jon" and "ann" are two edits apart too.
+const MAX_EMAIL_EDITS = 3;
+const LOCAL_PART_CHARS_PER_EDIT = 3;
+const MAX_PHONE_EDITS = 2;
+
+// How much each signal alone says about two identities being one customer.
+// Phone numbers a digit apart are as often two neighbours in a numbering
+// plan as one customer's typo, so only equal numbers weigh as much as an
+// email.
+const EMAIL_WEIGHT = 0.9;
+const PHONE_WEIGHT = 0.9;
+const PHONE_TYPO_WEIGHT = 0.3;
+const SHARED_DOMAIN_WEIGHT = 0.2;
+
+/**
+ * Counts the single-character insertions, deletions, substitutions and
+ * swaps of adjacent characters that turn `a` into `b`.
+ */
+export const editDistance = (a: string, b: string): number => {
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+    }
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * 1 for equal values, decreasing with every edit, and 0 beyond `maxEdits`.
+ */
+const similarity = (a: string, b: string, maxEdits: number): number => {
+  const distance = editDistance(a, b);
+  if (distance > maxEdits) {
+    return 0;
+  }
+  return 1 - distance / Math.max(a.length, b.length);
+};
+
+const digits = (phoneNumber: string): string => phoneNumber.replace(/\D/g, "");
+
+const domainOf = (email: string): string =>
+  email.slice(email.lastIndexOf("@") + 1);
+
+const localPartOf = (email: string): string =>
+  email.slice(0, email.lastIndexOf("@"));
+
+const compareEmails = (a: string, b: string): number => {
+  const shorterLocalPart = Math.min(
+    localPartOf(a).length,
+    localPartOf(b).length
+  );
+  return similarity(
+    a,
+    b,
+    Math.min(
+      MAX_EMAIL_EDITS,
+      Math.floor(shorterLocalPart / LOCAL_PART_CHARS_PER_EDIT)
+    )
+  );
+};
+
+const closest = (
+  as: string[],
+  bs: string[],
+  compare: (a: string, b: string) => number
+): number | null => {
+  if (as.length === 0 || bs.length === 0) {
+    return null;
+  }
+  return Math.max(...as.flatMap((a) => bs.map((b) => compare(a, b))));
+};
+
+/**
+ * Scores how likely two identities belong to the same customer. Emails and
+ * phone numbers a few typos apart and a shared email domain are independent
+ * pieces of evidence, combined so that each makes the score higher. A phone
+ * number with a typo is weak evidence on its own.
+ */
+export const scoreIdentityPair = (
+  a: IdentityFingerprint,
+  b: IdentityFingerprint
+): DuplicateScore => {
+  const emailSimilarity = closest(a.emails, b.emails, compareEmails);
+  const phoneSimilarity = closest(a.phoneNumbers, b.phoneNumbers, (x, y) =>
+    similarity(digits(x), digits(y), MAX_PHONE_EDITS)
+  );
+  const domains = new Set(a.emails.map(domainOf));
+  const sharedDomain = b.emails.some((email) => domains.has(domainOf(email)));
+
+  const phoneWeight = phoneSimilarity === 1 ? PHONE_WEIGHT : PHONE_TYPO_WEIGHT;
+
+  const doubt =
+    (1 - EMAIL_WEIGHT * (emailSimilarity ?? 0)) *
+    (1 - phoneWeight * (phoneSimilarity ?? 0)) *
+    (1 - (sharedDomain ? SHARED_DOMAIN_WEIGHT : 0));
+
+  return {
+    score: 1 - doubt,
+    emailSimilarity,
+    phoneSimilarity,
+    sharedDomain,
+  };
+};
+
+/**
+ * Keys that identities which could be a few typos apart are likely to have
+ * in common, so that only identities sharing a key need to be compared: the
+ * local part of an email, its domain with the start or the end of the local
+ * part, either half of a phone number's digits, and its digits in sorted
+ * order, which survive swapped digits.
+ */
+export const blockingKeys = ({
+  emails,
+  phoneNumbers,
+}: IdentityFingerprint): string[] => {
+  const keys = new Set<string>();
+  for (const email of emails) {
+    const localPart = localPartOf(email);
+    const domain = domainOf(email);
+    keys.add(`local:${localPart}`);
+    keys.add(`head:${domain}:${localPart.slice(0, 3)}`);
+    keys.add(`tail:${domain}:${localPart.slice(-3)}`);
+  }
+  for (const phoneNumber of phoneNumbers) {
+    const phoneDigits = digits(phoneNumber);
+    const half = Math.ceil(phoneDigits.length / 2);
+    keys.add(`phoneHead:${phoneDigits.slice(0, half)}`);
+    keys.add(`phoneTail:${phoneDigits.slice(half)}`);
+    keys.add(`phoneDigits:${[...phoneDigits].sort().join("")}`);
+  }
+  return [...keys];
+};
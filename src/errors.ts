@@ -0,0 +1,38 @@
+import { ValidationErrorResponse } from "./types/validation";
+
+/**
+ * Raised by services when a request is well-formed but cannot be carried out
+ * as asked, e.g. because it references contacts outside the identity.
+ * Controllers translate it into a 400 response, in the same shape as the
+ * errors of schema validation.
+ */
+export class InvalidRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly field = "body",
+    public readonly code = "invalid_request"
+  ) {
+    super(message);
+    this.name = "InvalidRequestError";
+  }
+
+  public toResponse(): ValidationErrorResponse {
+    const { message, field, code } = this;
+    return { message, errors: [{ field, code, message }] };
+  }
+}
+
+/**
+ * Raised by services when a request would exceed a limit that protects the
+ * data, e.g. on how fast a single identity may grow. Controllers translate it
+ * into a 429 response with a `Retry-After` header.
+ */
+export class LimitExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "LimitExceededError";
+  }
+}
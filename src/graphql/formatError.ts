@@ -0,0 +1,44 @@
+import { GraphQLError } from "graphql";
+import { InvalidRequestError, LimitExceededError } from "../errors";
+import { logger } from "../logging/logger";
+
+/**
+ * Translates the errors services raise into GraphQL errors with a `code`
+ * extension, the way controllers translate them into status codes. Errors
+ * the resolvers raised themselves, such as validation errors, pass through;
+ * anything unexpected is logged and masked.
+ */
+export const formatError = (
+  error: Readonly<Error | GraphQLError>
+): Readonly<Error | GraphQLError> => {
+  if (!(error instanceof GraphQLError)) {
+    return error;
+  }
+  const { originalError } = error;
+  if (!originalError || originalError instanceof GraphQLError) {
+    return error;
+  }
+  if (originalError instanceof InvalidRequestError) {
+    return new GraphQLError(originalError.message, {
+      nodes: error.nodes,
+      path: error.path,
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  if (originalError instanceof LimitExceededError) {
+    return new GraphQLError(originalError.message, {
+      nodes: error.nodes,
+      path: error.path,
+      extensions: {
+        code: "RATE_LIMITED",
+        retryAfterSeconds: originalError.retryAfterSeconds,
+      },
+    });
+  }
+  logger.error("GraphQL resolver failed", { error: originalError });
+  return new GraphQLError("Internal Server Error", {
+    nodes: error.nodes,
+    path: error.path,
+    extensions: { code: "INTERNAL_SERVER_ERROR" },
+  });
+};
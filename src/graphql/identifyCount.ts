@@ -0,0 +1,73 @@
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  parse,
+} from "graphql";
+
+/**
+ * Counts the `identify` fields that the operation of a GraphQL request
+ * selects, aliases and fragments included, so that a single request cannot
+ * identify many customers for the price of one. Requests that do not parse,
+ * or hold no such operation, count as none; they are rejected before
+ * anything runs.
+ */
+export const countIdentifyFields = (body: unknown): number => {
+  const { query, operationName } = (body ?? {}) as {
+    query?: unknown;
+    operationName?: unknown;
+  };
+  if (typeof query !== "string") {
+    return 0;
+  }
+  let document: DocumentNode;
+  try {
+    document = parse(query);
+  } catch {
+    return 0;
+  }
+
+  const operations = document.definitions.filter(
+    (d): d is OperationDefinitionNode => d.kind === Kind.OPERATION_DEFINITION
+  );
+  const operation =
+    typeof operationName === "string"
+      ? operations.find((o) => o.name?.value === operationName)
+      : operations.length === 1
+        ? operations[0]
+        : undefined;
+  if (operation?.operation !== "mutation") {
+    return 0;
+  }
+
+  const fragments = new Map(
+    document.definitions
+      .filter(
+        (d): d is FragmentDefinitionNode => d.kind === Kind.FRAGMENT_DEFINITION
+      )
+      .map((f) => [f.name.value, f])
+  );
+  // Fragments already entered are skipped, so that cycles cannot recurse
+  const count = (
+    selectionSet: SelectionSetNode,
+    entered: ReadonlySet<string>
+  ): number =>
+    selectionSet.selections.reduce((total, selection) => {
+      switch (selection.kind) {
+        case Kind.FIELD:
+          return total + (selection.name.value === "identify" ? 1 : 0);
+        case Kind.INLINE_FRAGMENT:
+          return total + count(selection.selectionSet, entered);
+        case Kind.FRAGMENT_SPREAD: {
+          const name = selection.name.value;
+          const fragment = fragments.get(name);
+          return fragment && !entered.has(name)
+            ? total + count(fragment.selectionSet, new Set([...entered, name]))
+            : total;
+        }
+      }
+    }, 0);
+  return count(operation.selectionSet, new Set());
+};
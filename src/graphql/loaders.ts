@@ -0,0 +1,32 @@
+import DataLoader from "dataloader";
+import { Contact, ContactEvent, ContactIdentifier } from "@prisma/client";
+import { ContactService } from "../services/contactService";
+import { RequestContext } from "../types/context";
+
+/**
+ * Batches the loads resolvers make while answering one query, so that e.g.
+ * the secondaries of every identity in a query are read with one statement
+ * rather than one per contact. Loaders cache per request; create new ones
+ * for every request so that no request sees another's results.
+ */
+export interface Loaders {
+  contacts: DataLoader<number, Contact | null>;
+  identifiers: DataLoader<number, ContactIdentifier[]>;
+  /** Keyed by the primary contact of the identity. */
+  histories: DataLoader<number, ContactEvent[]>;
+}
+
+export const createLoaders = (
+  contactService: ContactService,
+  context: RequestContext
+): Loaders => ({
+  contacts: new DataLoader((ids) =>
+    contactService.getContactsByIds(context, ids)
+  ),
+  identifiers: new DataLoader((contactIds) =>
+    contactService.getIdentifiersByContactIds(context, contactIds)
+  ),
+  histories: new DataLoader((primaryContactIds) =>
+    contactService.getHistoriesByPrimaryContactIds(context, primaryContactIds)
+  ),
+});
@@ -0,0 +1,350 @@
+import {
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLNullableType,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+} from "graphql";
+import {
+  Contact,
+  ContactEvent,
+  ContactIdentifier,
+  ContactSource,
+} from "@prisma/client";
+import { phoneNumberString } from "../normalization/contactNormalizer";
+import { ContactService } from "../services/contactService";
+import { ApiKeySummary } from "../types/apiKeys";
+import { RequestContext } from "../types/context";
+import { IdentifyRequest, IdentifyResponse } from "../types/identify";
+import { SchemaName } from "../validation/schemas";
+import { validateValue } from "../validation/validateRequest";
+import { Loaders } from "./loaders";
+
+/**
+ * What resolvers get for every request: who is asking, the services to ask,
+ * and the request's own loaders.
+ */
+export type GraphQLContext = {
+  requestContext: RequestContext;
+  apiKey: ApiKeySummary;
+  contactService: ContactService;
+  loaders: Loaders;
+};
+
+type Identity = IdentifyResponse["contact"];
+
+interface IdentifyInputValue {
+  email?: string | null;
+  phoneNumber?: string | null;
+  identifiers?: { type: string; value: string }[] | null;
+  source?: ContactSource | null;
+}
+
+const nonNull = <T extends GraphQLNullableType>(type: T) =>
+  new GraphQLNonNull(type);
+
+// A non-null list of non-null items, the shape of every list in the schema
+const listOf = <T extends GraphQLNullableType>(type: T) =>
+  nonNull(new GraphQLList(nonNull(type)));
+
+const DateTimeType = new GraphQLScalarType<Date, string>({
+  name: "DateTime",
+  description: "A date and time in ISO 8601 format.",
+  serialize: (value) => (value as Date).toISOString(),
+});
+
+const JSONType = new GraphQLScalarType({
+  name: "JSON",
+  description: "Any JSON value.",
+  serialize: (value) => value,
+});
+
+const LinkPrecedenceType = new GraphQLEnumType({
+  name: "LinkPrecedence",
+  values: { primary: {}, secondary: {} },
+});
+
+const ContactSourceType = new GraphQLEnumType({
+  name: "ContactSource",
+  values: { checkout: {}, login: {}, support_agent: {} },
+});
+
+const ContactEventTypeType = new GraphQLEnumType({
+  name: "ContactEventType",
+  values: {
+    created: {},
+    secondary_linked: {},
+    primary_merged: {},
+    demoted: {},
+    relinked: {},
+    promoted: {},
+    deleted: {},
+    erased: {},
+    verified: {},
+  },
+});
+
+const IdentifierType = new GraphQLObjectType<
+  Pick<ContactIdentifier, "type" | "value">
+>({
+  name: "Identifier",
+  description: "A value of one of the configured identifier types.",
+  fields: {
+    type: { type: nonNull(GraphQLString) },
+    value: { type: nonNull(GraphQLString) },
+  },
+});
+
+const ContactType = new GraphQLObjectType<Contact, GraphQLContext>({
+  name: "Contact",
+  description:
+    "One stored contact: the identifiers it came with and how it is linked.",
+  fields: {
+    id: { type: nonNull(GraphQLInt) },
+    email: { type: GraphQLString },
+    phoneNumber: { type: GraphQLString },
+    identifiers: {
+      type: listOf(IdentifierType),
+      resolve: (contact, _args, { loaders }) =>
+        loaders.identifiers.load(contact.id),
+    },
+    linkPrecedence: { type: nonNull(LinkPrecedenceType) },
+    linkedId: { type: GraphQLInt },
+    source: { type: ContactSourceType },
+    emailVerifiedAt: { type: DateTimeType },
+    phoneNumberVerifiedAt: { type: DateTimeType },
+    createdAt: { type: nonNull(DateTimeType) },
+    updatedAt: { type: nonNull(DateTimeType) },
+  },
+});
+
+const ContactEventObjectType = new GraphQLObjectType<ContactEvent>({
+  name: "ContactEvent",
+  description: "A change to how a contact is linked, as in the history API.",
+  fields: {
+    id: { type: nonNull(GraphQLInt) },
+    contactId: { type: nonNull(GraphQLInt) },
+    type: { type: nonNull(ContactEventTypeType) },
+    previousLinkedId: { type: GraphQLInt },
+    linkedId: { type: GraphQLInt },
+    payload: {
+      type: JSONType,
+      description: "The request that made the change.",
+    },
+    createdAt: { type: nonNull(DateTimeType) },
+  },
+});
+
+const IdentityType = new GraphQLObjectType<Identity, GraphQLContext>({
+  name: "Identity",
+  description:
+    "A customer: a primary contact and its secondaries, consolidated as POST /identify returns them.",
+  fields: {
+    primaryContactId: { type: nonNull(GraphQLInt) },
+    emails: {
+      type: listOf(GraphQLString),
+      description: "Every email once, the primary contact's first.",
+    },
+    phoneNumbers: {
+      type: listOf(GraphQLString),
+      description: "Every phone number once, the primary contact's first.",
+    },
+    secondaryContactIds: { type: listOf(GraphQLInt) },
+    identifiers: {
+      type: listOf(IdentifierType),
+      description:
+        "Every value of the other identifier types once, the primary contact's first.",
+      resolve: (identity) =>
+        Object.entries(identity.identifiers ?? {}).flatMap(([type, values]) =>
+          values.map((value) => ({ type, value }))
+        ),
+    },
+    primary: {
+      type: nonNull(ContactType),
+      resolve: (identity, _args, { loaders }) =>
+        loaders.contacts.load(identity.primaryContactId),
+    },
+    secondaries: {
+      type: listOf(ContactType),
+      resolve: async (identity, _args, { loaders }) => {
+        const contacts = await Promise.all(
+          identity.secondaryContactIds.map((id) => loaders.contacts.load(id))
+        );
+        return contacts.filter((contact) => contact !== null);
+      },
+    },
+    history: {
+      type: listOf(ContactEventObjectType),
+      description:
+        "Every change to how the identity's contacts are linked, oldest first.",
+      resolve: (identity, _args, { loaders }) =>
+        loaders.histories.load(identity.primaryContactId),
+    },
+  },
+});
+
+const IdentifierInputType = new GraphQLInputObjectType({
+  name: "IdentifierInput",
+  fields: {
+    type: { type: nonNull(GraphQLString) },
+    value: { type: nonNull(GraphQLString) },
+  },
+});
+
+const IdentifyInputType = new GraphQLInputObjectType({
+  name: "IdentifyInput",
+  description: "The body of POST /identify, with identifiers as a list.",
+  fields: {
+    email: { type: GraphQLString },
+    phoneNumber: { type: GraphQLString },
+    identifiers: { type: new GraphQLList(nonNull(IdentifierInputType)) },
+    source: { type: ContactSourceType },
+  },
+});
+
+/**
+ * Validates arguments against the schema of the matching REST request.
+ * @throws GraphQLError with the validation errors if they are invalid.
+ */
+const validateArgs = (
+  schemaName: SchemaName,
+  value: unknown,
+  rootField: string
+): void => {
+  const errors = validateValue(schemaName, value, rootField);
+  if (errors.length > 0) {
+    throw new GraphQLError(errors[0].message, {
+      extensions: { code: "BAD_USER_INPUT", errors },
+    });
+  }
+};
+
+/**
+ * Turns the input into an /identify request and validates it against the
+ * same schema as the REST API.
+ * @throws GraphQLError with the validation errors if the input is invalid.
+ */
+const toIdentifyRequest = (input: IdentifyInputValue): IdentifyRequest => {
+  const request: IdentifyRequest = {
+    email: input.email,
+    phoneNumber: input.phoneNumber,
+    identifiers: input.identifiers
+      ? Object.fromEntries(
+          input.identifiers.map(({ type, value }) => [type, value])
+        )
+      : input.identifiers,
+    source: input.source,
+  };
+  validateArgs("IdentifyRequest", request, "input");
+  return request;
+};
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Query",
+  fields: {
+    identity: {
+      type: IdentityType,
+      description:
+        "The identity of any contact, primary or secondary; null if there is no such contact.",
+      args: { contactId: { type: nonNull(GraphQLInt) } },
+      resolve: async (
+        _root,
+        { contactId }: { contactId: number },
+        { contactService, requestContext }
+      ) =>
+        (
+          await contactService.findIdentityByContactId(
+            requestContext,
+            contactId
+          )
+        )?.contact ?? null,
+    },
+    identityByIdentifiers: {
+      type: IdentityType,
+      description:
+        "The identity matching an email and/or phone number; null if nothing matches.",
+      args: {
+        email: { type: GraphQLString },
+        phoneNumber: { type: GraphQLString },
+      },
+      resolve: async (
+        _root,
+        {
+          email,
+          phoneNumber,
+        }: { email?: string | null; phoneNumber?: string | null },
+        { contactService, requestContext }
+      ) => {
+        // Null arguments count as left out, like missing query parameters
+        validateArgs(
+          "ContactLookupQuery",
+          {
+            ...(email != null && { email }),
+            ...(phoneNumber != null && { phoneNumber }),
+          },
+          "args"
+        );
+        return (
+          (
+            await contactService.findIdentity(
+              requestContext,
+              email ?? null,
+              phoneNumber ?? null
+            )
+          )?.contact ?? null
+        );
+      },
+    },
+    contact: {
+      type: ContactType,
+      description: "A single live contact; null if there is no such contact.",
+      args: { id: { type: nonNull(GraphQLInt) } },
+      resolve: (_root, { id }: { id: number }, { loaders }) =>
+        loaders.contacts.load(id),
+    },
+  },
+});
+
+const MutationType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Mutation",
+  fields: {
+    identify: {
+      type: nonNull(IdentityType),
+      description:
+        "Identifies a customer as POST /identify does, creating and merging contacts as needed. Requires the identify scope.",
+      args: { input: { type: nonNull(IdentifyInputType) } },
+      resolve: async (
+        _root,
+        { input }: { input: IdentifyInputValue },
+        { apiKey, contactService, requestContext }
+      ) => {
+        if (!apiKey.scopes.includes("identify")) {
+          throw new GraphQLError('The API key lacks the "identify" scope.', {
+            extensions: { code: "FORBIDDEN" },
+          });
+        }
+        const { email, phoneNumber, identifiers, source } =
+          toIdentifyRequest(input);
+        const result = await contactService.identify(
+          requestContext,
+          email ?? null,
+          phoneNumberString(phoneNumber),
+          identifiers ?? {},
+          source ?? null
+        );
+        return result.contact;
+      },
+    },
+  },
+});
+
+export const schema = new GraphQLSchema({
+  query: QueryType,
+  mutation: MutationType,
+});
@@ -0,0 +1,164 @@
+import { createHash } from "crypto";
+import { Request, RequestHandler } from "express";
+import { config } from "../config";
+import { getRequestContext } from "../auth/requireApiKey";
+import { getRequestLogger } from "../logging/requestLogging";
+import { ValidationErrorResponse } from "../types/validation";
+import { IdempotencyStore, PrismaIdempotencyStore } from "./idempotencyStore";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// Printable ASCII, as in the keys clients usually send: UUIDs and the like
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+const POLL_INTERVAL_MS = 100;
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore;
+  /** How long a retry waits for the first request to finish. */
+  waitTimeoutMs: number;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Serializes a value with the keys of every object sorted, so that bodies
+ * differing only in key order get the same fingerprint.
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+/**
+ * Hashes what makes two requests the same: their method, path, query, which
+ * can change the shape of the response, and body.
+ */
+export const fingerprintRequest = (req: Request): string =>
+  createHash("sha256")
+    .update(
+      canonicalJson([
+        req.method,
+        `${req.baseUrl}${req.path}`,
+        req.query ?? {},
+        req.body ?? null,
+      ])
+    )
+    .digest("hex");
+
+// Errors a retry could get past, such as 5xx and 429, are not replayed
+const isFinalStatus = (status: number): boolean =>
+  status < 500 && status !== 429;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Builds a middleware that makes requests carrying an `Idempotency-Key`
+ * header safe to retry. The first request with a key runs and its response
+ * is saved; later requests with the same key and body get that response
+ * again, with an `Idempotent-Replayed: true` header, instead of running.
+ * Requests with the same key but a different body get a 422. Retries
+ * arriving while the first request runs wait for its response, and get a
+ * 409 if it takes longer than `waitTimeoutMs`. Requests without the header
+ * are not affected. Must run after `requireApiKey`.
+ */
+export const idempotency =
+  ({
+    store,
+    waitTimeoutMs,
+    pollIntervalMs = POLL_INTERVAL_MS,
+  }: IdempotencyOptions): RequestHandler =>
+  async (req, res, next) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (key === undefined) {
+      next();
+      return;
+    }
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      const message = `${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 printable ASCII characters.`;
+      const response: ValidationErrorResponse = {
+        message,
+        errors: [
+          { field: IDEMPOTENCY_KEY_HEADER, code: "invalid_format", message },
+        ],
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const { tenantId } = getRequestContext(res);
+    const fingerprint = fingerprintRequest(req);
+
+    try {
+      const deadline = Date.now() + waitTimeoutMs;
+      let claim = await store.claim(tenantId, key, fingerprint);
+      while (claim.status === "in_progress" && Date.now() < deadline) {
+        await sleep(pollIntervalMs);
+        claim = await store.claim(tenantId, key, fingerprint);
+      }
+
+      if (claim.status === "conflict") {
+        res.status(422).json({
+          message: `${IDEMPOTENCY_KEY_HEADER} "${key}" was already used for a different request.`,
+        });
+        return;
+      }
+      if (claim.status === "in_progress") {
+        res
+          .status(409)
+          .set("Retry-After", String(Math.ceil(waitTimeoutMs / 1000)))
+          .json({
+            message: `A request with ${IDEMPOTENCY_KEY_HEADER} "${key}" is still in progress.`,
+          });
+        return;
+      }
+      if (claim.status === "completed") {
+        res
+          .status(claim.responseStatus)
+          .set("Idempotent-Replayed", "true")
+          .json(claim.responseBody);
+        return;
+      }
+    } catch (error) {
+      getRequestLogger(res).error("Claiming an idempotency key failed", {
+        error,
+      });
+      res.status(500).json({ message: "Internal Server Error" });
+      return;
+    }
+
+    // Save the response before sending it, so that a retry sent as soon as
+    // it arrives is already answered from the store
+    const send = res.json.bind(res);
+    res.json = (body) => {
+      const saved = isFinalStatus(res.statusCode)
+        ? store.complete(tenantId, key, res.statusCode, body)
+        : store.release(tenantId, key);
+      saved
+        .catch((error) =>
+          getRequestLogger(res).error("Saving an idempotent response failed", {
+            error,
+          })
+        )
+        .finally(() => send(body));
+      return res;
+    };
+    next();
+  };
+
+/**
+ * Idempotency for the requests that create contacts, kept in Postgres so
+ * that retries reaching another instance are caught too.
+ */
+export const identifyIdempotency: RequestHandler = idempotency({
+  store: new PrismaIdempotencyStore(),
+  waitTimeoutMs: config.idempotency.waitTimeoutMs,
+});
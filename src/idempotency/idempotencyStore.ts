@@ -0,0 +1,148 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+import { config } from "../config";
+import { startPeriodicTask } from "../utils/periodicTask";
+
+const prisma = new PrismaClient();
+
+// Longer than any request may take, so that only requests whose process died
+// are given up on
+const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * What became of an attempt to claim an idempotency key: the request may run
+ * ("claimed"), an earlier identical request already answered ("completed"),
+ * is still running ("in_progress"), or was a different request ("conflict").
+ */
+export type IdempotencyClaim =
+  | { status: "claimed" }
+  | { status: "completed"; responseStatus: number; responseBody: unknown }
+  | { status: "in_progress" }
+  | { status: "conflict" };
+
+/**
+ * Keeps idempotency keys and the responses to their requests. Keys are
+ * scoped by tenant.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claims `key` for a request with the given fingerprint, unless a request
+   * already holds it.
+   */
+  claim(
+    tenantId: string,
+    key: string,
+    fingerprint: string
+  ): Promise<IdempotencyClaim>;
+  /** Saves the response of the request holding `key`, for replay. */
+  complete(
+    tenantId: string,
+    key: string,
+    responseStatus: number,
+    responseBody: unknown
+  ): Promise<void>;
+  /** Frees `key` without a response, so that a retry runs again. */
+  release(tenantId: string, key: string): Promise<void>;
+}
+
+/**
+ * Keeps idempotency keys in Postgres, so that every instance of the service
+ * sees the same keys. The unique index on tenant and key decides which of
+ * several concurrent requests claims it.
+ */
+export class PrismaIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly ttlMs = config.idempotency.ttlMs,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  public async claim(
+    tenantId: string,
+    key: string,
+    fingerprint: string
+  ): Promise<IdempotencyClaim> {
+    // An expired claim or response on this key gives way to the new request;
+    // other expired keys are left to `purgeExpired`
+    await prisma.idempotencyKey.deleteMany({
+      where: { tenantId, key, expiresAt: { lt: new Date(this.now()) } },
+    });
+
+    const { count } = await prisma.idempotencyKey.createMany({
+      data: [
+        {
+          tenantId,
+          key,
+          fingerprint,
+          expiresAt: new Date(this.now() + IN_PROGRESS_TIMEOUT_MS),
+        },
+      ],
+      skipDuplicates: true,
+    });
+    if (count === 1) {
+      return { status: "claimed" };
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { tenantId_key: { tenantId, key } },
+    });
+    // Released between the two queries; the caller asks again
+    if (!existing) {
+      return { status: "in_progress" };
+    }
+    if (existing.fingerprint !== fingerprint) {
+      return { status: "conflict" };
+    }
+    if (existing.responseStatus === null) {
+      return { status: "in_progress" };
+    }
+    return {
+      status: "completed",
+      responseStatus: existing.responseStatus,
+      responseBody: existing.responseBody,
+    };
+  }
+
+  public async complete(
+    tenantId: string,
+    key: string,
+    responseStatus: number,
+    responseBody: unknown
+  ): Promise<void> {
+    await prisma.idempotencyKey.updateMany({
+      where: { tenantId, key, responseStatus: null },
+      data: {
+        responseStatus,
+        responseBody: responseBody as Prisma.InputJsonValue,
+        expiresAt: new Date(this.now() + this.ttlMs),
+      },
+    });
+  }
+
+  public async release(tenantId: string, key: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({
+      where: { tenantId, key, responseStatus: null },
+    });
+  }
+
+  /**
+   * Deletes the keys of every tenant that have expired.
+   * @returns A promise that resolves to the number of keys deleted.
+   */
+  public async purgeExpired(): Promise<number> {
+    const { count } = await prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date(this.now()) } },
+    });
+    return count;
+  }
+
+  /**
+   * Purges expired keys every `intervalMs` until the returned function is
+   * called.
+   */
+  public startPurging(intervalMs: number): () => void {
+    return startPeriodicTask(
+      intervalMs,
+      () => this.purgeExpired(),
+      "Purging expired idempotency keys failed"
+    );
+  }
+}
@@ -3,11 +3,31 @@ import bodyParser from "body-parser";
 import swaggerUi from "swagger-ui-express";
 import swaggerJsdoc from "swagger-jsdoc";
 import identifyRoute from "./routes/identify";
+import contactsRoute from "./routes/contacts";
+import adminRoute from "./routes/admin";
+import webhooksRoute from "./routes/webhooks";
+import graphqlRoute from "./routes/graphql";
+import metricsRoute from "./routes/metrics";
+import { schemas } from "./validation/schemas";
+import { bodyParserErrorHandler } from "./validation/validateRequest";
+import { config } from "./config";
+import { WebhookDispatcher } from "./services/webhookDispatcher";
+import { PrismaIdempotencyStore } from "./idempotency/idempotencyStore";
 import cors from "cors";
+import { collectDefaultMetrics } from "prom-client";
+import { logger } from "./logging/logger";
+import { requestLogging } from "./logging/requestLogging";
+import { httpMetrics, registry } from "./metrics/metrics";
 
 const app: Express = express();
-const port = process.env.PORT || 3000;
+// Lets req.ip, which rate limits are keyed by, see through load balancers
+app.set("trust proxy", config.trustProxyHops);
+// Test suites each import the app, so let them listen on a free port
+const port =
+  process.env.PORT || (process.env.NODE_ENV === "test" ? 0 : 3000);
 
+app.use(requestLogging());
+app.use(httpMetrics);
 app.use(cors());
 app.use(bodyParser.json());
 
@@ -29,6 +49,13 @@ const options = {
         url: swaggerServerUrl,
       },
     ],
+    components: {
+      schemas,
+      securitySchemes: {
+        ApiKeyAuth: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+    security: [{ ApiKeyAuth: [] }],
   },
   apis: ["./src/routes/*.ts"],
 };
@@ -41,9 +68,33 @@ app.get("/", (req: Request, res: Response) => {
 });
 
 app.use("/", identifyRoute);
+app.use("/", contactsRoute);
+app.use("/", adminRoute);
+app.use("/", webhooksRoute);
+app.use("/", graphqlRoute);
+app.use("/", metricsRoute);
+app.use(bodyParserErrorHandler);
+
+collectDefaultMetrics({ register: registry });
 
 const server = app.listen(port, () => {
-  console.log(`Server is running on http://localhost:${port}`);
+  logger.info("Server started", { port });
 });
 
+// Test suites dispatch webhooks themselves, when they need to
+if (
+  config.webhooks.dispatchIntervalMs > 0 &&
+  process.env.NODE_ENV !== "test"
+) {
+  new WebhookDispatcher().start(config.webhooks.dispatchIntervalMs);
+}
+if (
+  config.idempotency.purgeIntervalMs > 0 &&
+  process.env.NODE_ENV !== "test"
+) {
+  new PrismaIdempotencyStore().startPurging(
+    config.idempotency.purgeIntervalMs
+  );
+}
+
 export { app, server };
@@ -0,0 +1,104 @@
+import { config } from "../config";
+import { RequestContext } from "../types/context";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Extra fields of a log line, e.g. `{ contactId: 42 }`. */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes one JSON object per line, with the level, time and message next to
+ * the fields of the call and those bound by `child`.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** A logger that adds the given fields to every line. */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  /** The least severe level written; "silent" writes nothing. */
+  level?: LogLevel | "silent";
+  /** Receives every line, without the trailing newline. */
+  write?: (line: string) => void;
+}
+
+const SEVERITY: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Errors have no enumerable fields, so JSON would log them as `{}`.
+ */
+const serialize = (_key: string, value: unknown): unknown => {
+  if (value instanceof Error) {
+    const { code } = value as { code?: unknown };
+    return {
+      name: value.name,
+      message: value.message,
+      ...(code !== undefined ? { code } : {}),
+      stack: value.stack,
+    };
+  }
+  return value;
+};
+
+/**
+ * Creates a logger writing JSON lines, to standard output by default.
+ * @param options The level and destination; the level defaults to the
+ * environment configuration.
+ * @returns A logger without bound fields.
+ */
+export const createLogger = ({
+  level = config.logLevel,
+  write = (line) => process.stdout.write(`${line}\n`),
+}: LoggerOptions = {}): Logger => {
+  const build = (bound: LogFields): Logger => {
+    const log =
+      (logLevel: LogLevel) =>
+      (message: string, fields: LogFields = {}): void => {
+        if (SEVERITY[logLevel] < SEVERITY[level]) {
+          return;
+        }
+        write(
+          JSON.stringify(
+            {
+              level: logLevel,
+              time: new Date().toISOString(),
+              message,
+              ...bound,
+              ...fields,
+            },
+            serialize
+          )
+        );
+      };
+
+    return {
+      debug: log("debug"),
+      info: log("info"),
+      warn: log("warn"),
+      error: log("error"),
+      child: (fields) => build({ ...bound, ...fields }),
+    };
+  };
+  return build({});
+};
+
+export const logger = createLogger();
+
+/**
+ * A logger for work done on behalf of a request, tagging every line with
+ * its request id and tenant.
+ */
+export const contextLogger = ({
+  requestId,
+  tenantId,
+}: RequestContext): Logger => logger.child({ requestId, tenantId });
@@ -0,0 +1,55 @@
+import { randomUUID } from "crypto";
+import { performance } from "perf_hooks";
+import { RequestHandler, Response } from "express";
+import { RequestContext } from "../types/context";
+import { Logger, logger } from "./logger";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Ids from callers are logged as they are, so keep them short and plain
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Returns the logger of a request, which tags every line with the request's
+ * id and, once `requireApiKey` resolved it, its tenant.
+ */
+export const getRequestLogger = (res: Response): Logger => {
+  const context: RequestContext | undefined = res.locals.context;
+  return logger.child({
+    requestId: res.locals.requestId,
+    tenantId: context?.tenantId,
+  });
+};
+
+/**
+ * Builds a middleware that gives every request an id and logs it once it
+ * completed. The id is taken from the `X-Request-Id` header when the caller
+ * sent a usable one, so that a request can be traced across services, and
+ * generated otherwise. It is echoed in the response's `X-Request-Id`
+ * header and available to later handlers as `res.locals.requestId`.
+ * Only the path is logged, as query strings may carry emails and phone
+ * numbers.
+ */
+export const requestLogging =
+  (log: Logger = logger): RequestHandler =>
+  (req, res, next) => {
+    const header = req.get(REQUEST_ID_HEADER);
+    const requestId =
+      header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+    res.locals.requestId = requestId;
+    res.set(REQUEST_ID_HEADER, requestId);
+
+    const start = performance.now();
+    res.on("finish", () => {
+      const context: RequestContext | undefined = res.locals.context;
+      log.info("Request completed", {
+        requestId,
+        tenantId: context?.tenantId,
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        statusCode: res.statusCode,
+        durationMs: Math.round((performance.now() - start) * 10) / 10,
+      });
+    });
+    next();
+  };
@@ -0,0 +1,98 @@
+import { RequestHandler } from "express";
+import { Prisma } from "@prisma/client";
+import { Counter, Histogram, Registry } from "prom-client";
+
+/**
+ * The metrics served by `GET /metrics`. A registry of our own rather than
+ * prom-client's global one, so that tests can read it without the process
+ * metrics the server adds.
+ */
+export const registry = new Registry();
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "Time from receiving a request to sending its response.",
+  labelNames: ["method", "route", "status_code"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+/**
+ * Counters of the changes to identity graphs, across tenants.
+ */
+export const contactChanges = {
+  newPrimaries: new Counter({
+    name: "contacts_new_primaries_total",
+    help: "Contacts created as the primary of a new identity.",
+    registers: [registry],
+  }),
+  secondariesCreated: new Counter({
+    name: "contacts_secondaries_created_total",
+    help: "Contacts created as a secondary of an existing identity.",
+    registers: [registry],
+  }),
+  merges: new Counter({
+    name: "contacts_merges_total",
+    help: "Merges of two or more identities into one.",
+    registers: [registry],
+  }),
+  repromotions: new Counter({
+    name: "contacts_repromotions_total",
+    help: "Secondaries promoted to primary, by whether their primary was deleted (delete), they were split off (split) or their primary was missing (repair).",
+    labelNames: ["reason"] as const,
+    registers: [registry],
+  }),
+};
+
+/**
+ * Why secondaries were promoted, by the operation that promoted them. Besides
+ * `repairLinks`, `/identify` promotes orphaned secondaries it matches, which
+ * repairs their links too.
+ */
+const repromotionReason = (
+  payload: Prisma.ContactEventCreateManyInput["payload"]
+): "delete" | "split" | "repair" => {
+  const { operation } = (payload ?? {}) as Prisma.JsonObject;
+  if (operation === "deleteContact") {
+    return "delete";
+  }
+  return operation === "splitIdentity" ? "split" : "repair";
+};
+
+/**
+ * Counts the changes of one committed transaction by the audit events it
+ * recorded. Merges demote primaries but promote none, so every promotion is
+ * a re-promotion, even in a transaction that merged identities as well.
+ */
+export const countContactChanges = (
+  events: Pick<Prisma.ContactEventCreateManyInput, "type" | "payload">[]
+): void => {
+  const count = (type: Prisma.ContactEventCreateManyInput["type"]) =>
+    events.filter((e) => e.type === type).length;
+
+  contactChanges.newPrimaries.inc(count("created"));
+  contactChanges.secondariesCreated.inc(count("secondary_linked"));
+  contactChanges.merges.inc(count("primary_merged"));
+  for (const event of events.filter((e) => e.type === "promoted")) {
+    contactChanges.repromotions.inc({
+      reason: repromotionReason(event.payload),
+    });
+  }
+};
+
+/**
+ * Times every request into `http_request_duration_seconds`, labelled by the
+ * route that matched rather than the path, so that contact ids do not make
+ * a series each.
+ */
+export const httpMetrics: RequestHandler = (req, res, next) => {
+  const end = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    end({
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : "unmatched",
+      status_code: String(res.statusCode),
+    });
+  });
+  next();
+};
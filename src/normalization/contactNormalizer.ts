@@ -0,0 +1,157 @@
+import { CountryCode, parsePhoneNumberFromString } from "libphonenumber-js";
+import { config } from "../config";
+
+/**
+ * A single normalization step. Steps are chained, each receiving the output
+ * of the previous one.
+ */
+export type NormalizationStep = (value: string) => string;
+
+/**
+ * Converts raw identifiers into the canonical form used for matching and storage.
+ * Implementations return `null` when nothing meaningful is left of the input.
+ */
+export interface ContactNormalizer {
+  normalizeEmail(email: string | null): string | null;
+  normalizePhoneNumber(phoneNumber: string | null): string | null;
+  /** Normalizes a value of any of the other configured identifier types. */
+  normalizeIdentifier(value: string | null): string | null;
+}
+
+export interface NormalizationOptions {
+  gmailIgnoreDots: boolean;
+  gmailStripPlusAlias: boolean;
+  defaultPhoneRegion: string;
+}
+
+const GMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+/**
+ * Trims surrounding whitespace and lowercases the whole address.
+ */
+export const trimAndLowercase: NormalizationStep = (email) =>
+  email.trim().toLowerCase();
+
+/**
+ * Trims surrounding whitespace. Values of the other identifier types, such as
+ * loyalty card numbers or device ids, are otherwise matched exactly.
+ */
+export const trim: NormalizationStep = (value) => value.trim();
+
+/**
+ * Applies Gmail's addressing rules: dots in the local part are ignored and
+ * everything after a "+" is an alias of the same mailbox. A local part the
+ * rules would leave empty, such as "+orders", is kept as it is, so that such
+ * addresses do not all match each other.
+ */
+export const gmailAliasRules =
+  (options: { ignoreDots: boolean; stripPlusAlias: boolean }): NormalizationStep =>
+  (email) => {
+    const atIndex = email.lastIndexOf("@");
+    if (atIndex <= 0) {
+      return email;
+    }
+
+    const domain = email.slice(atIndex + 1);
+    if (!GMAIL_DOMAINS.has(domain)) {
+      return email;
+    }
+
+    const original = email.slice(0, atIndex);
+    let localPart = original;
+    if (options.stripPlusAlias) {
+      localPart = localPart.split("+")[0];
+    }
+    if (options.ignoreDots) {
+      localPart = localPart.replace(/\./g, "");
+    }
+
+    return `${localPart || original}@gmail.com`;
+  };
+
+/**
+ * Canonicalizes a phone number to E.164, interpreting numbers without a
+ * country code in the given region. Input the phone library cannot parse
+ * falls back to its alphanumeric characters, keeping a leading "+".
+ */
+export const toE164 =
+  (defaultRegion: string): NormalizationStep =>
+  (phoneNumber) => {
+    const parsed = parsePhoneNumberFromString(
+      phoneNumber,
+      defaultRegion.toUpperCase() as CountryCode
+    );
+    if (parsed) {
+      return parsed.number;
+    }
+
+    const trimmed = phoneNumber.trim();
+    const prefix = trimmed.startsWith("+") ? "+" : "";
+    return prefix + trimmed.replace(/[^0-9a-z]/gi, "").toUpperCase();
+  };
+
+const runSteps = (
+  value: string | null,
+  steps: NormalizationStep[]
+): string | null => {
+  if (value === null) {
+    return null;
+  }
+  const normalized = steps.reduce((current, step) => step(current), value);
+  return normalized.replace(/^\+$/, "") || null;
+};
+
+/**
+ * Phone numbers may be sent as JSON numbers; they are normalized as the
+ * string of their digits.
+ */
+export const phoneNumberString = (
+  phoneNumber: string | number | null | undefined
+): string | null => (phoneNumber == null ? null : String(phoneNumber));
+
+/**
+ * A normalizer built from independent email, phone number and other
+ * identifier step pipelines.
+ */
+export class PipelineContactNormalizer implements ContactNormalizer {
+  constructor(
+    private readonly emailSteps: NormalizationStep[],
+    private readonly phoneNumberSteps: NormalizationStep[],
+    private readonly identifierSteps: NormalizationStep[] = [trim]
+  ) {}
+
+  public normalizeEmail(email: string | null): string | null {
+    return runSteps(email, this.emailSteps);
+  }
+
+  public normalizePhoneNumber(phoneNumber: string | null): string | null {
+    return runSteps(phoneNumber, this.phoneNumberSteps);
+  }
+
+  public normalizeIdentifier(value: string | null): string | null {
+    return runSteps(value, this.identifierSteps);
+  }
+}
+
+/**
+ * Creates the normalizer configured for this deployment.
+ * @param options Normalization rules; defaults to the environment configuration.
+ * @returns A contact normalizer.
+ */
+export const createContactNormalizer = (
+  options: NormalizationOptions = config.normalization
+): ContactNormalizer => {
+  const emailSteps = [trimAndLowercase];
+  if (options.gmailIgnoreDots || options.gmailStripPlusAlias) {
+    emailSteps.push(
+      gmailAliasRules({
+        ignoreDots: options.gmailIgnoreDots,
+        stripPlusAlias: options.gmailStripPlusAlias,
+      })
+    );
+  }
+
+  return new PipelineContactNormalizer(emailSteps, [
+    toE164(options.defaultPhoneRegion),
+  ]);
+};
@@ -0,0 +1,138 @@
+import { Request, RequestHandler, Response } from "express";
+import { config } from "../config";
+import { ApiKeySummary } from "../types/apiKeys";
+import { getRequestLogger } from "../logging/requestLogging";
+import { countIdentifyFields } from "../graphql/identifyCount";
+import {
+  MemoryRateLimitStore,
+  RateLimitResult,
+  RateLimitStore,
+  TokenBucketPolicy,
+  TokenRequest,
+} from "./rateLimitStore";
+
+/**
+ * One limit applied to a request: a bucket per key, e.g. per client or per IP.
+ */
+export interface RateLimitRule {
+  name: string;
+  policy: TokenBucketPolicy;
+  /** The bucket the request counts against, or null to skip this rule. */
+  key: (req: Request, res: Response) => string | null;
+}
+
+export interface RateLimitOptions {
+  store: RateLimitStore;
+  rules: RateLimitRule[];
+  /** The number of tokens a request takes; defaults to 1. */
+  cost?: (req: Request) => number;
+}
+
+/**
+ * Picks the result to report in the response headers: a rejection if there
+ * is one, otherwise the rule closest to rejecting.
+ */
+const mostRestrictive = (results: RateLimitResult[]): RateLimitResult =>
+  results.reduce((current, result) => {
+    if (current.allowed !== result.allowed) {
+      return current.allowed ? result : current;
+    }
+    return result.remaining / result.limit < current.remaining / current.limit
+      ? result
+      : current;
+  });
+
+/**
+ * Builds a middleware that applies token-bucket rate limits. Every response
+ * carries the `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset`
+ * headers of the most restrictive rule; rejected requests get a 429 with
+ * `Retry-After`, and take no tokens under any rule. If the store fails,
+ * requests are let through rather than taking the API down with it.
+ */
+export const rateLimit =
+  ({ store, rules, cost = () => 1 }: RateLimitOptions): RequestHandler =>
+  async (req, res, next) => {
+    const requestCost = cost(req);
+
+    try {
+      const requests: TokenRequest[] = [];
+      for (const rule of rules) {
+        const key = rule.key(req, res);
+        if (key === null) continue;
+        requests.push({
+          key: `${rule.name}:${key}`,
+          policy: rule.policy,
+          // Requests costing more than a full bucket would never pass
+          cost: Math.min(requestCost, rule.policy.capacity),
+        });
+      }
+      if (requests.length === 0) {
+        next();
+        return;
+      }
+
+      const results = await store.consume(requests);
+
+      const result = mostRestrictive(results);
+      res.set({
+        "RateLimit-Limit": String(result.limit),
+        "RateLimit-Remaining": String(result.remaining),
+        "RateLimit-Reset": String(result.resetSeconds),
+      });
+      if (!result.allowed) {
+        res
+          .status(429)
+          .set("Retry-After", String(result.retryAfterSeconds))
+          .json({ message: "Too many requests, please try again later." });
+        return;
+      }
+    } catch (error) {
+      getRequestLogger(res).error("Rate limit store failed", { error });
+    }
+    next();
+  };
+
+const identifyLimits: Omit<RateLimitOptions, "cost"> = {
+  store: new MemoryRateLimitStore(),
+  rules: [
+    {
+      name: "client",
+      policy: config.rateLimit.perClient,
+      key: (req, res) => {
+        const apiKey: ApiKeySummary | undefined = res.locals.apiKey;
+        return apiKey ? String(apiKey.id) : null;
+      },
+    },
+    {
+      name: "ip",
+      policy: config.rateLimit.perIp,
+      key: (req) => req.ip ?? null,
+    },
+  ],
+};
+
+/**
+ * The limits on requests that create contacts: per API key and per client
+ * IP, each with its own bucket. Batches cost one token per item. Must run
+ * after `requireApiKey`, `validateRequest` and, for batches,
+ * `identifyBatchSizeLimit`, so that invalid requests take no tokens.
+ */
+export const identifyRateLimit: RequestHandler = config.rateLimit.enabled
+  ? rateLimit({
+      ...identifyLimits,
+      cost: (req) =>
+        Array.isArray(req.body) ? Math.max(req.body.length, 1) : 1,
+    })
+  : (req, res, next) => next();
+
+/**
+ * The same limits, sharing their buckets, on GraphQL requests: each
+ * `identify` field of a mutation costs a token like a batch item, and any
+ * other request one. Must run after `requireApiKey`.
+ */
+export const graphqlRateLimit: RequestHandler = config.rateLimit.enabled
+  ? rateLimit({
+      ...identifyLimits,
+      cost: (req) => Math.max(countIdentifyFields(req.body), 1),
+    })
+  : (req, res, next) => next();
@@ -0,0 +1,114 @@
+/**
+ * A token bucket: it holds up to `capacity` tokens, each request takes some,
+ * and it refills continuously at `refillPerMinute` tokens per minute. The
+ * capacity is the burst a client may send at once, the refill rate its
+ * sustained rate.
+ */
+export interface TokenBucketPolicy {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** The capacity of the bucket. */
+  limit: number;
+  /** Whole tokens left in the bucket after this request. */
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+  /** Seconds until the request could be allowed; 0 if it was. */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Tokens a request takes from the bucket stored under `key`.
+ */
+export interface TokenRequest {
+  key: string;
+  policy: TokenBucketPolicy;
+  cost: number;
+}
+
+/**
+ * Keeps the token buckets of rate-limited clients. The in-memory store below
+ * only limits a single process; deployments running several instances can
+ * implement this interface on top of a shared backend such as Redis.
+ */
+export interface RateLimitStore {
+  /**
+   * Takes the requested tokens from each bucket, creating full buckets on
+   * first use. Nothing is taken from any of them if one holds too few
+   * tokens, so that a request one limit rejects does not count against the
+   * others.
+   * @returns The result of each bucket, in the order of `requests`.
+   */
+  consume(requests: TokenRequest[]): Promise<RateLimitResult[]>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DEFAULT_MAX_BUCKETS = 10_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  // Kept in least recently used order, for eviction
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly maxBuckets = DEFAULT_MAX_BUCKETS
+  ) {}
+
+  public async consume(requests: TokenRequest[]): Promise<RateLimitResult[]> {
+    const now = this.now();
+    const checks = requests.map(({ key, policy, cost }) => {
+      const refillPerMs = policy.refillPerMinute / 60_000;
+      const bucket = this.buckets.get(key);
+      const tokens = bucket
+        ? Math.min(
+            policy.capacity,
+            bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+          )
+        : policy.capacity;
+      return { key, policy, cost, refillPerMs, tokens };
+    });
+    const allowed = checks.every((c) => c.tokens >= c.cost);
+
+    return checks.map(({ key, policy, cost, refillPerMs, tokens }) => {
+      const remaining = allowed ? tokens - cost : tokens;
+      const msToRefill = (missing: number) =>
+        missing <= 0 ? 0 : missing / refillPerMs;
+
+      this.buckets.delete(key);
+      if (this.buckets.size >= this.maxBuckets) {
+        this.evictLeastRecentlyUsed();
+      }
+      this.buckets.set(key, {
+        tokens: remaining,
+        updatedAt: now,
+      });
+
+      return {
+        allowed: tokens >= cost,
+        limit: policy.capacity,
+        remaining: Math.floor(remaining),
+        resetSeconds: Math.ceil(msToRefill(policy.capacity - remaining) / 1000),
+        retryAfterSeconds:
+          tokens >= cost ? 0 : Math.ceil(msToRefill(cost - tokens) / 1000),
+      };
+    });
+  }
+
+  /**
+   * Forgets the bucket used least recently, the first in insertion order, so
+   * that memory does not grow with every client ever seen. A forgotten
+   * bucket starts full again.
+   */
+  private evictLeastRecentlyUsed(): void {
+    const [key] = this.buckets.keys();
+    this.buckets.delete(key);
+  }
+}
@@ -0,0 +1,415 @@
+import { Router } from 'express';
+import {
+  approveMergeSuggestionController,
+  consistencyReportController,
+  listDuplicateCandidatesController,
+  listMergeSuggestionsController,
+  rejectMergeSuggestionController,
+  splitIdentityController,
+} from '../controllers/adminController';
+import { validateRequest } from '../validation/validateRequest';
+import { requireApiKey } from '../auth/requireApiKey';
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ConsistencyViolation:
+ *       type: object
+ *       properties:
+ *         count:
+ *           type: integer
+ *         contactIds:
+ *           type: array
+ *           description: The lowest offending ids, up to 1000.
+ *           items:
+ *             type: integer
+ *     ConsistencyGroupViolation:
+ *       type: object
+ *       properties:
+ *         count:
+ *           type: integer
+ *         groups:
+ *           type: array
+ *           description: The offending groups of ids, up to 1000.
+ *           items:
+ *             type: array
+ *             items:
+ *               type: integer
+ *     ConsistencyReport:
+ *       type: object
+ *       properties:
+ *         tenantId:
+ *           type: string
+ *         checkedAt:
+ *           type: string
+ *           format: date-time
+ *         consistent:
+ *           type: boolean
+ *           description: True when no check found anything.
+ *         totals:
+ *           type: object
+ *           properties:
+ *             contacts:
+ *               type: integer
+ *             primaries:
+ *               type: integer
+ *             secondaries:
+ *               type: integer
+ *             deleted:
+ *               type: integer
+ *         chainedSecondaries:
+ *           $ref: '#/components/schemas/ConsistencyViolation'
+ *         danglingLinks:
+ *           $ref: '#/components/schemas/ConsistencyViolation'
+ *         linkedPrimaries:
+ *           $ref: '#/components/schemas/ConsistencyViolation'
+ *         unmergedIdentities:
+ *           $ref: '#/components/schemas/ConsistencyGroupViolation'
+ *         duplicateContacts:
+ *           $ref: '#/components/schemas/ConsistencyGroupViolation'
+ *     MergeSuggestion:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         tenantId:
+ *           type: string
+ *         primaryContactIds:
+ *           type: array
+ *           description: The primaries of the identities to merge, in ascending order.
+ *           items:
+ *             type: integer
+ *         payload:
+ *           type: object
+ *           description: The request that would have merged them.
+ *         status:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         resolvedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     DuplicateCandidate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         tenantId:
+ *           type: string
+ *         primaryContactIds:
+ *           type: array
+ *           description: The primaries of the two identities, in ascending order.
+ *           items:
+ *             type: integer
+ *         score:
+ *           type: number
+ *           description: How likely the identities are one customer, from 0 to 1.
+ *         emailSimilarity:
+ *           type: number
+ *           nullable: true
+ *           description: The similarity of their closest emails, from 0 to 1.
+ *         phoneSimilarity:
+ *           type: number
+ *           nullable: true
+ *           description: The similarity of their closest phone numbers, from 0 to 1.
+ *         sharedDomain:
+ *           type: boolean
+ *           description: Whether they have an email at the same domain.
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *   parameters:
+ *     MergeSuggestionId:
+ *       in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         $ref: '#/components/schemas/MergeSuggestionIdParams/properties/id'
+ */
+
+/**
+ * @openapi
+ * /admin/contacts/{id}/split:
+ *   post:
+ *     summary: Split contacts off an identity
+ *     description: >
+ *       Detaches the given contacts from the identity of contact {id} and makes
+ *       them a new identity, with the detached contact chosen by
+ *       PRIMARY_SELECTION (the oldest by default) as its primary.
+ *       Use dryRun to preview the two resulting identities without saving.
+ *     parameters:
+ *       - $ref: '#/components/parameters/ContactId'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SplitRequest'
+ *           example:
+ *             contactIds: [23]
+ *     responses:
+ *       '200':
+ *         description: The identity that remains and the newly detached identity.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 dryRun:
+ *                   type: boolean
+ *                 remaining:
+ *                   $ref: '#/components/schemas/IdentifyResponse'
+ *                 detached:
+ *                   $ref: '#/components/schemas/IdentifyResponse'
+ *       '400':
+ *         description: >
+ *           Bad request: the request is invalid, or the contacts are not a
+ *           proper part of the identity.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       '404':
+ *         description: No contact exists with the given id.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.post(
+  '/admin/contacts/:id/split',
+  requireApiKey('admin'),
+  validateRequest({ params: 'ContactIdParams', body: 'SplitRequest' }),
+  splitIdentityController
+);
+
+/**
+ * @openapi
+ * /admin/consistency:
+ *   get:
+ *     summary: Check the identity graph
+ *     description: >
+ *       Reports the tenant's contacts that break the rules of the identity
+ *       graph: secondaries linked to a secondary, secondaries whose primary is
+ *       missing or deleted, primaries with a linkedId, identities sharing an
+ *       identifier that should have merged, and duplicate contacts. Nothing is
+ *       changed; `npm run contacts -- repair` fixes the links.
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The counts and offending ids of every check.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConsistencyReport'
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get(
+  '/admin/consistency',
+  requireApiKey('admin'),
+  consistencyReportController
+);
+
+/**
+ * @openapi
+ * /admin/merge-suggestions:
+ *   get:
+ *     summary: List merge suggestions
+ *     description: >
+ *       Lists the merges /identify held back because of MERGE_MODE, oldest
+ *       first, 100 per page.
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           $ref: '#/components/schemas/MergeSuggestionQuery/properties/status'
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           $ref: '#/components/schemas/MergeSuggestionQuery/properties/after'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The merge suggestions.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 mergeSuggestions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MergeSuggestion'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get(
+  '/admin/merge-suggestions',
+  requireApiKey('admin'),
+  validateRequest({ query: 'MergeSuggestionQuery' }),
+  listMergeSuggestionsController
+);
+
+/**
+ * @openapi
+ * /admin/merge-suggestions/{id}/approve:
+ *   post:
+ *     summary: Approve a merge suggestion
+ *     description: >
+ *       Replays the held back request as /identify would with
+ *       MERGE_MODE=always: the identities it matches now are merged, keeping
+ *       the primary chosen by PRIMARY_SELECTION, and its new identifiers are
+ *       added.
+ *     parameters:
+ *       - $ref: '#/components/parameters/MergeSuggestionId'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The approved suggestion and the merged identity.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 mergeSuggestion:
+ *                   $ref: '#/components/schemas/MergeSuggestion'
+ *                 identity:
+ *                   $ref: '#/components/schemas/IdentifyResponse'
+ *       '400':
+ *         description: >
+ *           The request is invalid, the suggestion is no longer pending, or
+ *           its request was scrubbed by an erasure.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       '404':
+ *         description: No merge suggestion exists with the given id.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '429':
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.post(
+  '/admin/merge-suggestions/:id/approve',
+  requireApiKey('admin'),
+  validateRequest({ params: 'MergeSuggestionIdParams' }),
+  approveMergeSuggestionController
+);
+
+/**
+ * @openapi
+ * /admin/merge-suggestions/{id}/reject:
+ *   post:
+ *     summary: Reject a merge suggestion
+ *     description: >
+ *       Leaves the identities apart. Later requests that would merge the same
+ *       identities are let through unmerged without a new suggestion.
+ *     parameters:
+ *       - $ref: '#/components/parameters/MergeSuggestionId'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The rejected suggestion.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MergeSuggestion'
+ *       '400':
+ *         description: The request is invalid, or the suggestion is no longer pending.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       '404':
+ *         description: No merge suggestion exists with the given id.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.post(
+  '/admin/merge-suggestions/:id/reject',
+  requireApiKey('admin'),
+  validateRequest({ params: 'MergeSuggestionIdParams' }),
+  rejectMergeSuggestionController
+);
+
+/**
+ * @openapi
+ * /admin/duplicate-candidates:
+ *   get:
+ *     summary: List likely duplicate identities
+ *     description: >
+ *       Lists the pairs of identities the last `npm run contacts -- duplicates`
+ *       found to be probably the same customer although they share no
+ *       identifier, highest score first. Pairs merged into one identity since
+ *       the scan, or with a deleted primary, are left out. Nothing is merged;
+ *       approve a merge by sending /identify a request with an identifier of
+ *       each.
+ *     parameters:
+ *       - in: query
+ *         name: minScore
+ *         schema:
+ *           $ref: '#/components/schemas/DuplicateCandidateQuery/properties/minScore'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           $ref: '#/components/schemas/DuplicateCandidateQuery/properties/limit'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The duplicate candidates.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 candidates:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DuplicateCandidate'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get(
+  '/admin/duplicate-candidates',
+  requireApiKey('admin'),
+  validateRequest({ query: 'DuplicateCandidateQuery' }),
+  listDuplicateCandidatesController
+);
+
+export default router;
@@ -0,0 +1,309 @@
+import { Router } from 'express';
+import {
+  deleteContactController,
+  deleteIdentityController,
+  getContactByIdController,
+  getContactHistoryController,
+  lookupContactController,
+  verifyContactController,
+} from '../controllers/contactsController';
+import { validateRequest } from '../validation/validateRequest';
+import { requireApiKey } from '../auth/requireApiKey';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /contacts:
+ *   get:
+ *     summary: Look up an identity by email or phone number
+ *     description: Resolves an email and/or phone number to its consolidated identity without creating or merging contacts.
+ *     parameters:
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           $ref: '#/components/schemas/ContactLookupQuery/properties/email'
+ *       - in: query
+ *         name: phoneNumber
+ *         schema:
+ *           $ref: '#/components/schemas/ContactLookupQuery/properties/phoneNumber'
+ *       - $ref: '#/components/parameters/Expand'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The consolidated contact object.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IdentifyResponse'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No contact matches the given email or phone number.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get(
+  '/contacts',
+  requireApiKey('read'),
+  validateRequest({ query: 'ContactLookupQuery' }),
+  lookupContactController
+);
+
+/**
+ * @openapi
+ * /contacts/{id}:
+ *   get:
+ *     summary: Look up an identity by contact id
+ *     description: Resolves any contact id, primary or secondary, to its consolidated identity without modifying any contacts.
+ *     parameters:
+ *       - $ref: '#/components/parameters/ContactId'
+ *       - $ref: '#/components/parameters/Expand'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The consolidated contact object.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IdentifyResponse'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No contact exists with the given id.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get(
+  '/contacts/:id',
+  requireApiKey('read'),
+  validateRequest({ params: 'ContactIdParams', query: 'ExpandQuery' }),
+  getContactByIdController
+);
+
+/**
+ * @openapi
+ * /contacts/{id}/history:
+ *   get:
+ *     summary: Get the audit timeline of an identity
+ *     description: >
+ *       Lists every recorded create, link, merge, demotion, promotion,
+ *       deletion and verification event of the contacts in the identity of contact {id},
+ *       oldest first, with the request that triggered it.
+ *     parameters:
+ *       - $ref: '#/components/parameters/ContactId'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The identity's history.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 primaryContactId:
+ *                   type: integer
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       contactId:
+ *                         type: integer
+ *                       type:
+ *                         type: string
+ *                         enum: [created, secondary_linked, primary_merged, demoted, relinked, promoted, deleted, erased, verified]
+ *                       previousLinkedId:
+ *                         type: integer
+ *                         nullable: true
+ *                       linkedId:
+ *                         type: integer
+ *                         nullable: true
+ *                       payload:
+ *                         type: object
+ *                         description: The request that triggered the event.
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No contact exists with the given id.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get(
+  '/contacts/:id/history',
+  requireApiKey('read'),
+  validateRequest({ params: 'ContactIdParams' }),
+  getContactHistoryController
+);
+
+/**
+ * @openapi
+ * /contacts/verify:
+ *   post:
+ *     summary: Mark identifiers as verified
+ *     description: >
+ *       Records that the given email, phone number and/or identifiers were
+ *       proven to belong to the customer, e.g. by a login or a confirmation
+ *       link, on every contact carrying them. With MERGE_MODE=verified, only
+ *       verified identifiers let /identify merge existing identities.
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VerificationRequest'
+ *     responses:
+ *       '200':
+ *         description: The contacts carrying the identifiers.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 verifiedContactIds:
+ *                   type: array
+ *                   items:
+ *                     type: integer
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No contact carries any of the identifiers.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.post(
+  '/contacts/verify',
+  requireApiKey('verify'),
+  validateRequest({ body: 'VerificationRequest' }),
+  verifyContactController
+);
+
+/**
+ * @openapi
+ * components:
+ *   parameters:
+ *     ContactId:
+ *       in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         $ref: '#/components/schemas/ContactIdParams/properties/id'
+ *     DeletionMode:
+ *       in: query
+ *       name: mode
+ *       description: >
+ *         "soft" marks contacts as deleted. "erase" also scrubs their email and
+ *         phone number for right-to-be-forgotten requests, leaving a tombstone.
+ *       schema:
+ *         $ref: '#/components/schemas/DeletionQuery/properties/mode'
+ *   schemas:
+ *     DeletionResponse:
+ *       type: object
+ *       properties:
+ *         mode:
+ *           type: string
+ *           enum: [soft, erase]
+ *         deletedContactIds:
+ *           type: array
+ *           items:
+ *             type: integer
+ *         promotedContactId:
+ *           type: integer
+ *           nullable: true
+ *           description: The secondary promoted to primary when a primary contact was deleted.
+ */
+
+/**
+ * @openapi
+ * /contacts/{id}:
+ *   delete:
+ *     summary: Delete a contact
+ *     description: Deletes a single contact. If it is a primary, one of its remaining secondaries, chosen by PRIMARY_SELECTION (the oldest by default), becomes the new primary.
+ *     parameters:
+ *       - $ref: '#/components/parameters/ContactId'
+ *       - $ref: '#/components/parameters/DeletionMode'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The deletion outcome.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeletionResponse'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No contact exists with the given id, or it is already deleted.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.delete(
+  '/contacts/:id',
+  requireApiKey('admin'),
+  validateRequest({ params: 'ContactIdParams', query: 'DeletionQuery' }),
+  deleteContactController
+);
+
+/**
+ * @openapi
+ * /contacts/{id}/identity:
+ *   delete:
+ *     summary: Delete a whole identity
+ *     description: Deletes every contact of the identity the given contact belongs to.
+ *     parameters:
+ *       - $ref: '#/components/parameters/ContactId'
+ *       - $ref: '#/components/parameters/DeletionMode'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The deletion outcome.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeletionResponse'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No contact exists with the given id, or it is already deleted.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.delete(
+  '/contacts/:id/identity',
+  requireApiKey('admin'),
+  validateRequest({ params: 'ContactIdParams', query: 'DeletionQuery' }),
+  deleteIdentityController
+);
+
+export default router;
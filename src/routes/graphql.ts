@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { createHandler } from 'graphql-http/lib/use/express';
+import { getRequestContext, requireApiKey } from '../auth/requireApiKey';
+import { graphqlRateLimit } from '../rateLimit/rateLimit';
+import { ContactService } from '../services/contactService';
+import { formatError } from '../graphql/formatError';
+import { createLoaders } from '../graphql/loaders';
+import { GraphQLContext, schema } from '../graphql/schema';
+
+const router = Router();
+const contactService = new ContactService();
+
+const handler = createHandler<GraphQLContext>({
+  schema,
+  formatError,
+  context: (req) => {
+    const { res } = req.context;
+    const requestContext = getRequestContext(res);
+    return {
+      requestContext,
+      apiKey: res.locals.apiKey,
+      contactService,
+      loaders: createLoaders(contactService, requestContext),
+    };
+  },
+});
+
+/**
+ * @openapi
+ * /graphql:
+ *   post:
+ *     summary: Query and identify contacts with GraphQL
+ *     description: >
+ *       Serves the `Contact` and `Identity` types over GraphQL, with the
+ *       `identity`, `identityByIdentifiers` and `contact` queries and the
+ *       `identify` mutation. Needs the read scope; the mutation also needs the
+ *       identify scope. Requests count against the same rate limits as
+ *       POST /identify, each `identify` field, aliases included, taking a
+ *       token like a batch item. Errors are reported in the `errors` array
+ *       with a `code` extension rather than as HTTP status codes.
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [query]
+ *             properties:
+ *               query:
+ *                 type: string
+ *               variables:
+ *                 type: object
+ *               operationName:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: The data and errors of the operation.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   nullable: true
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       '400':
+ *         description: The request is not a valid GraphQL request.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '429':
+ *         $ref: '#/components/responses/TooManyRequests'
+ *   get:
+ *     summary: Query contacts with GraphQL
+ *     description: Runs a query passed in the query string. Mutations must be sent as POST.
+ *     parameters:
+ *       - in: query
+ *         name: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: variables
+ *         schema:
+ *           type: string
+ *         description: The variables, as JSON.
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The data and errors of the query.
+ *       '400':
+ *         description: The request is not a valid GraphQL request.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '429':
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post('/graphql', requireApiKey('read'), graphqlRateLimit, handler);
+router.get('/graphql', requireApiKey('read'), graphqlRateLimit, handler);
+
+export default router;
@@ -1,60 +1,314 @@
 import { Router } from 'express';
-import { identifyController } from '../controllers/identifyController';
+import {
+  identifyBatchController,
+  identifyBatchSizeLimit,
+  identifyController,
+} from '../controllers/identifyController';
+import { validateRequest } from '../validation/validateRequest';
+import { requireApiKey } from '../auth/requireApiKey';
+import { identifyRateLimit } from '../rateLimit/rateLimit';
+import { identifyIdempotency } from '../idempotency/idempotency';
 
 const router = Router();
 
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     IdentifyResponse:
+ *       type: object
+ *       properties:
+ *         contact:
+ *           type: object
+ *           properties:
+ *             primaryContactId:
+ *               type: integer
+ *             emails:
+ *               type: array
+ *               items:
+ *                 type: string
+ *             phoneNumbers:
+ *               type: array
+ *               items:
+ *                 type: string
+ *             secondaryContactIds:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             identifiers:
+ *               type: object
+ *               description: Other identifiers of the identity by type, the primary contact's first. Left out when there are none.
+ *               additionalProperties:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *             contacts:
+ *               type: array
+ *               description: The contacts of the identity, primary first. Only present with expand=contacts.
+ *               items:
+ *                 $ref: '#/components/schemas/ContactDetail'
+ *             emailSightings:
+ *               type: array
+ *               description: When each email was first and last seen, in the order of emails. Only present with expand=contacts.
+ *               items:
+ *                 $ref: '#/components/schemas/IdentifierSightings'
+ *             phoneNumberSightings:
+ *               type: array
+ *               description: When each phone number was first and last seen, in the order of phoneNumbers. Only present with expand=contacts.
+ *               items:
+ *                 $ref: '#/components/schemas/IdentifierSightings'
+ *     ContactDetail:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         email:
+ *           type: string
+ *           nullable: true
+ *         phoneNumber:
+ *           type: string
+ *           nullable: true
+ *         identifiers:
+ *           type: object
+ *           description: Other identifiers of the contact by type. Left out when there are none.
+ *           additionalProperties:
+ *             type: string
+ *         linkPrecedence:
+ *           type: string
+ *           enum: [primary, secondary]
+ *         linkedId:
+ *           type: integer
+ *           nullable: true
+ *         source:
+ *           type: string
+ *           enum: [checkout, login, support_agent]
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     IdentifierSightings:
+ *       type: object
+ *       description: >
+ *         The creation times of the oldest and newest contacts carrying a
+ *         value: when it was first seen, and when a contact carrying it was
+ *         last added. Requests that only repeat known values add no contact
+ *         and do not move lastAddedAt.
+ *       properties:
+ *         value:
+ *           type: string
+ *         firstSeenAt:
+ *           type: string
+ *           format: date-time
+ *         lastAddedAt:
+ *           type: string
+ *           format: date-time
+ *     ValidationError:
+ *       type: object
+ *       properties:
+ *         message:
+ *           type: string
+ *           description: The message of the first error.
+ *         errors:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               field:
+ *                 type: string
+ *                 example: phoneNumber
+ *               code:
+ *                 type: string
+ *                 example: too_long
+ *               message:
+ *                 type: string
+ *   parameters:
+ *     Expand:
+ *       in: query
+ *       name: expand
+ *       schema:
+ *         $ref: '#/components/schemas/ExpandQuery/properties/expand'
+ *     TenantId:
+ *       in: header
+ *       name: X-Tenant-Id
+ *       description: >
+ *         The tenant whose contacts the request acts on; contacts of different
+ *         tenants are never matched or merged. Only API keys that are not bound
+ *         to a tenant may choose one; bound keys always act for their own
+ *         tenant. Defaults to "default".
+ *       schema:
+ *         type: string
+ *         pattern: '^[A-Za-z0-9_-]{1,64}$'
+ *     IdempotencyKey:
+ *       in: header
+ *       name: Idempotency-Key
+ *       description: >
+ *         Makes the request safe to retry. The response to the first request
+ *         with a key is replayed, with an Idempotent-Replayed header, to later
+ *         requests with the same key and body for IDEMPOTENCY_TTL_MS. Keys are
+ *         scoped by tenant.
+ *       schema:
+ *         type: string
+ *         pattern: '^[\x21-\x7e]{1,255}$'
+ *         example: 4f9c2d0e-8b1a-4c3e-9d7f-2a6b5e1c0f83
+ *   responses:
+ *     Unauthorized:
+ *       description: The API key is missing, invalid or revoked.
+ *     Forbidden:
+ *       description: >
+ *         The API key lacks the scope this operation requires, or is bound to
+ *         a tenant other than the one requested.
+ *     TooManyRequests:
+ *       description: >
+ *         The client sent too many requests, or the identity has grown by too
+ *         many contacts recently. Retry after the given number of seconds.
+ *       headers:
+ *         Retry-After:
+ *           schema:
+ *             type: integer
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *     IdempotencyInProgress:
+ *       description: >
+ *         A request with the same Idempotency-Key is still running; retry after
+ *         the given number of seconds.
+ *     IdempotencyConflict:
+ *       description: >
+ *         The Idempotency-Key was already used for a request with a different
+ *         body, path or query.
+ *     ValidationError:
+ *       description: The request is invalid.
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ValidationError'
+ */
+
 /**
  * @openapi
  * /identify:
  *   post:
  *     summary: Identify a contact
  *     description: Identifies a customer and consolidates their contact information.
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - $ref: '#/components/parameters/Expand'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               email:
- *                 type: string
- *                 format: email
- *                 description: The email of the contact.
- *                 example: "lorraine@hillvalley.edu"
- *               phoneNumber:
- *                 type: string
- *                 description: The phone number of the contact.
- *                 example: "123456"
+ *             $ref: '#/components/schemas/IdentifyRequest'
  *     responses:
  *       '200':
  *         description: A consolidated contact object.
  *         content:
  *           application/json:
  *             schema:
+ *               $ref: '#/components/schemas/IdentifyResponse'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '409':
+ *         $ref: '#/components/responses/IdempotencyInProgress'
+ *       '422':
+ *         $ref: '#/components/responses/IdempotencyConflict'
+ *       '429':
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.post(
+  '/identify',
+  requireApiKey('identify'),
+  validateRequest({ body: 'IdentifyRequest', query: 'ExpandQuery' }),
+  identifyRateLimit,
+  identifyIdempotency,
+  identifyController
+);
+
+/**
+ * @openapi
+ * /identify/batch:
+ *   post:
+ *     summary: Identify several contacts at once
+ *     description: >
+ *       Identifies every item in order within a single transaction, so items of
+ *       the same batch can link to each other. Each item gets its own result or
+ *       error. The maximum batch size is set by IDENTIFY_BATCH_MAX_SIZE.
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - $ref: '#/components/parameters/Expand'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/IdentifyBatchRequest'
+ *               - items:
+ *                   $ref: '#/components/schemas/IdentifyRequest'
+ *             example:
+ *               - email: "lorraine@hillvalley.edu"
+ *                 phoneNumber: "123456"
+ *               - email: "mcfly@hillvalley.edu"
+ *                 phoneNumber: "123456"
+ *     responses:
+ *       '200':
+ *         description: One result per item, in request order.
+ *         content:
+ *           application/json:
+ *             schema:
  *               type: object
  *               properties:
- *                 contact:
- *                   type: object
- *                   properties:
- *                     primaryContactId:
- *                       type: integer
- *                     emails:
- *                       type: array
- *                       items:
- *                         type: string
- *                     phoneNumbers:
- *                       type: array
- *                       items:
- *                         type: string
- *                     secondaryContactIds:
- *                       type: array
- *                       items:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       index:
  *                         type: integer
+ *                       status:
+ *                         type: string
+ *                         enum: [ok, error]
+ *                       contact:
+ *                         $ref: '#/components/schemas/IdentifyResponse/properties/contact'
+ *                       error:
+ *                         $ref: '#/components/schemas/ValidationError'
  *       '400':
- *         description: Bad request, email and phoneNumber cannot be both null.
+ *         $ref: '#/components/responses/ValidationError'
+ *       '413':
+ *         description: The batch exceeds the maximum batch size.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '409':
+ *         $ref: '#/components/responses/IdempotencyInProgress'
+ *       '422':
+ *         $ref: '#/components/responses/IdempotencyConflict'
+ *       '429':
+ *         $ref: '#/components/responses/TooManyRequests'
  *       '500':
- *         description: Internal server error.
+ *         description: Internal server error; no item of the batch was saved.
  */
-router.post('/identify', identifyController);
+router.post(
+  '/identify/batch',
+  requireApiKey('identify'),
+  validateRequest({ body: 'IdentifyBatchRequest', query: 'ExpandQuery' }),
+  identifyBatchSizeLimit,
+  identifyRateLimit,
+  identifyIdempotency,
+  identifyBatchController
+);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { metricsController } from '../controllers/metricsController';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /metrics:
+ *   get:
+ *     summary: Prometheus metrics
+ *     description: >
+ *       Serves request latency histograms, counters of new primaries, new
+ *       secondaries, merges and re-promotions, and process metrics in the
+ *       Prometheus text format. Needs no API key; keep it reachable only
+ *       from the monitoring network.
+ *     security: []
+ *     responses:
+ *       '200':
+ *         description: The metrics.
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get('/metrics', metricsController);
+
+export default router;
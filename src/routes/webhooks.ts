@@ -0,0 +1,250 @@
+import { Router } from 'express';
+import {
+  createWebhookSubscriptionController,
+  deleteWebhookSubscriptionController,
+  listDeadLettersController,
+  listWebhookSubscriptionsController,
+  retryDeliveryController,
+} from '../controllers/webhooksController';
+import { validateRequest } from '../validation/validateRequest';
+import { requireApiKey } from '../auth/requireApiKey';
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   parameters:
+ *     WebhookId:
+ *       in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         $ref: '#/components/schemas/WebhookIdParams/properties/id'
+ *   schemas:
+ *     WebhookSubscription:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         tenantId:
+ *           type: string
+ *         url:
+ *           type: string
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [new_primary, secondary_linked, primaries_merged]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         subscriptionId:
+ *           type: integer
+ *         eventType:
+ *           type: string
+ *           enum: [new_primary, secondary_linked, primaries_merged]
+ *         payload:
+ *           type: object
+ *           description: The event body sent to the subscriber.
+ *         status:
+ *           type: string
+ *           enum: [pending, delivered, dead]
+ *         attempts:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         lastError:
+ *           type: string
+ *           nullable: true
+ *         deliveredAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /admin/webhooks:
+ *   post:
+ *     summary: Subscribe to identity changes
+ *     description: >
+ *       Registers an endpoint that is sent a signed POST whenever an identity
+ *       of the tenant gains a new primary, gains a secondary contact, or
+ *       absorbs other primaries in a merge. The secret is returned only here.
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WebhookSubscriptionRequest'
+ *     responses:
+ *       '201':
+ *         description: The subscription and the secret of its signatures.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 subscription:
+ *                   $ref: '#/components/schemas/WebhookSubscription'
+ *                 secret:
+ *                   type: string
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ *   get:
+ *     summary: List webhook subscriptions
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The tenant's subscriptions, oldest first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 subscriptions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookSubscription'
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.post(
+  '/admin/webhooks',
+  requireApiKey('admin'),
+  validateRequest({ body: 'WebhookSubscriptionRequest' }),
+  createWebhookSubscriptionController
+);
+router.get(
+  '/admin/webhooks',
+  requireApiKey('admin'),
+  listWebhookSubscriptionsController
+);
+
+/**
+ * @openapi
+ * /admin/webhooks/dead-letters:
+ *   get:
+ *     summary: List dead-lettered webhook deliveries
+ *     description: >
+ *       Lists the most recent deliveries that were given up after failing
+ *       WEBHOOK_MAX_ATTEMPTS times, with the last error of each.
+ *     parameters:
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The dead deliveries, most recent first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deliveries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.get(
+  '/admin/webhooks/dead-letters',
+  requireApiKey('admin'),
+  listDeadLettersController
+);
+
+/**
+ * @openapi
+ * /admin/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook subscription
+ *     description: Deletes the subscription and drops its queued deliveries.
+ *     parameters:
+ *       - $ref: '#/components/parameters/WebhookId'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The deleted subscription.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookSubscription'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No subscription exists with the given id.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.delete(
+  '/admin/webhooks/:id',
+  requireApiKey('admin'),
+  validateRequest({ params: 'WebhookIdParams' }),
+  deleteWebhookSubscriptionController
+);
+
+/**
+ * @openapi
+ * /admin/webhooks/deliveries/{id}/retry:
+ *   post:
+ *     summary: Retry a dead-lettered delivery
+ *     description: Queues the delivery again with a fresh set of attempts.
+ *     parameters:
+ *       - $ref: '#/components/parameters/WebhookId'
+ *       - $ref: '#/components/parameters/TenantId'
+ *     responses:
+ *       '200':
+ *         description: The queued delivery.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       '400':
+ *         $ref: '#/components/responses/ValidationError'
+ *       '404':
+ *         description: No dead-lettered delivery exists with the given id.
+ *       '401':
+ *         $ref: '#/components/responses/Unauthorized'
+ *       '403':
+ *         $ref: '#/components/responses/Forbidden'
+ *       '500':
+ *         description: Internal server error.
+ */
+router.post(
+  '/admin/webhooks/deliveries/:id/retry',
+  requireApiKey('admin'),
+  validateRequest({ params: 'WebhookIdParams' }),
+  retryDeliveryController
+);
+
+export default router;
@@ -0,0 +1,107 @@
+import { ApiKeyScope } from "@prisma/client";
+import { parseArgs } from "util";
+import { ApiKeyService } from "../services/apiKeyService";
+import { TENANT_ID_PATTERN } from "../auth/requireApiKey";
+import { DEFAULT_TENANT_ID } from "../config";
+import { ApiKeySummary, ApiKeyTenancy } from "../types/apiKeys";
+
+/**
+ * Manages API keys.
+ *
+ * Usage:
+ *   npm run api-keys -- issue <name> --scope identify [--scope read] [--scope verify] [--scope admin] [--tenant <id> | --any-tenant]
+ *   npm run api-keys -- list
+ *   npm run api-keys -- revoke <id>
+ *
+ * The plain key is printed once when it is issued; only its hash is stored.
+ * A key issued with --tenant only ever acts for that tenant, and one issued
+ * with --any-tenant may pick a tenant per request with the X-Tenant-Id
+ * header. Keys issued with neither act for the default tenant.
+ */
+
+const SCOPES: ApiKeyScope[] = ["identify", "read", "verify", "admin"];
+
+const USAGE =
+  "Usage: npm run api-keys -- issue <name> --scope <identify|read|verify|admin> [--scope ...] [--tenant <id> | --any-tenant]\n" +
+  "       npm run api-keys -- list\n" +
+  "       npm run api-keys -- revoke <id>";
+
+const apiKeyService = new ApiKeyService();
+
+const describe = (apiKey: ApiKeySummary): string =>
+  [
+    `#${apiKey.id}`,
+    apiKey.name,
+    `${apiKey.prefix}...`,
+    `scopes=${apiKey.scopes.join(",")}`,
+    `tenant=${apiKey.tenantId ?? (apiKey.anyTenant ? "any" : DEFAULT_TENANT_ID)}`,
+    `created=${apiKey.createdAt.toISOString()}`,
+    `lastUsed=${apiKey.lastUsedAt?.toISOString() ?? "never"}`,
+    apiKey.revokedAt ? `revoked=${apiKey.revokedAt.toISOString()}` : "active",
+  ].join("  ");
+
+const parseScopes = (values: string[] = []): ApiKeyScope[] => {
+  const invalid = values.filter(
+    (value) => !SCOPES.includes(value as ApiKeyScope)
+  );
+  if (values.length === 0 || invalid.length > 0) {
+    throw new Error(
+      `Pass at least one --scope out of ${SCOPES.join(", ")}.\n${USAGE}`
+    );
+  }
+  return values as ApiKeyScope[];
+};
+
+const parseTenancy = (
+  tenant: string | undefined,
+  anyTenant = false
+): ApiKeyTenancy => {
+  if (tenant !== undefined && !TENANT_ID_PATTERN.test(tenant)) {
+    throw new Error(`Invalid tenant id "${tenant}".\n${USAGE}`);
+  }
+  if (tenant !== undefined && anyTenant) {
+    throw new Error(`Pass either --tenant or --any-tenant.\n${USAGE}`);
+  }
+  return { tenantId: tenant ?? null, anyTenant };
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      scope: { type: "string", multiple: true },
+      tenant: { type: "string" },
+      "any-tenant": { type: "boolean" },
+    },
+  });
+  const [command, argument] = positionals;
+
+  if (command === "issue" && argument) {
+    const { apiKey, key } = await apiKeyService.issue(
+      argument,
+      parseScopes(values.scope),
+      parseTenancy(values.tenant, values["any-tenant"])
+    );
+    console.log(describe(apiKey));
+    console.log(`\nKey (shown only once): ${key}`);
+  } else if (command === "list") {
+    const apiKeys = await apiKeyService.list();
+    apiKeys.forEach((apiKey) => console.log(describe(apiKey)));
+    if (apiKeys.length === 0) {
+      console.log("No API keys.");
+    }
+  } else if (command === "revoke" && Number(argument) > 0) {
+    const revoked = await apiKeyService.revoke(Number(argument));
+    if (!revoked) {
+      throw new Error(`No active API key with id ${argument}.`);
+    }
+    console.log(describe(revoked));
+  } else {
+    throw new Error(USAGE);
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,72 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+import { createContactNormalizer } from "../normalization/contactNormalizer";
+
+/**
+ * Fills the normalized identifier columns of existing contacts.
+ *
+ * Usage: npm run db:backfill-normalized [-- --all]
+ *
+ * By default only rows with a raw value but no normalized value are updated.
+ * Pass --all to recompute every row, e.g. after changing the normalization rules.
+ */
+
+const BATCH_SIZE = 500;
+
+const prisma = new PrismaClient();
+const normalizer = createContactNormalizer();
+
+const main = async () => {
+  const recomputeAll = process.argv.includes("--all");
+  const where: Prisma.ContactWhereInput = recomputeAll
+    ? {}
+    : {
+        OR: [
+          { email: { not: null }, normalizedEmail: null },
+          { phoneNumber: { not: null }, normalizedPhoneNumber: null },
+        ],
+      };
+
+  let cursor = 0;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const contacts = await prisma.contact.findMany({
+      where: { ...where, id: { gt: cursor } },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (contacts.length === 0) break;
+
+    for (const contact of contacts) {
+      const normalizedEmail = normalizer.normalizeEmail(contact.email);
+      const normalizedPhoneNumber = normalizer.normalizePhoneNumber(
+        contact.phoneNumber
+      );
+
+      if (
+        normalizedEmail !== contact.normalizedEmail ||
+        normalizedPhoneNumber !== contact.normalizedPhoneNumber
+      ) {
+        await prisma.contact.update({
+          where: { id: contact.id },
+          data: { normalizedEmail, normalizedPhoneNumber },
+        });
+        updated++;
+      }
+    }
+
+    scanned += contacts.length;
+    cursor = contacts[contacts.length - 1].id;
+    console.log(`Scanned ${scanned} contacts, updated ${updated}`);
+  }
+
+  console.log(`Backfill complete: ${updated} of ${scanned} contacts updated.`);
+};
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
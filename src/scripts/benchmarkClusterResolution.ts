@@ -0,0 +1,205 @@
+import { PrismaClient, Contact } from "@prisma/client";
+import { parseArgs } from "util";
+import { performance } from "perf_hooks";
+import { ContactService } from "../services/contactService";
+import { TENANT_ID_PATTERN } from "../auth/requireApiKey";
+
+/**
+ * Measures how long resolving an identity takes on large clusters, comparing
+ * the previous hop-by-hop traversal of `linkedId` with the recursive query
+ * `ContactService` uses now.
+ *
+ * Usage:
+ *   npm run benchmark:clusters -- [--contacts 5000] [--depth 500] [--samples 20] [--tenant benchmark] [--keep]
+ *
+ * Seeds --contacts contacts into a scratch tenant, linked into clusters that
+ * are chains of --depth contacts, each linking to the one before it. Then
+ * resolves the deepest contact of --samples clusters both ways and prints the
+ * latencies. The seeded contacts are deleted afterwards unless --keep is
+ * passed. Never point --tenant at a tenant holding real contacts.
+ */
+
+const USAGE =
+  "Usage: npm run benchmark:clusters -- [--contacts <n>] [--depth <n>] [--samples <n>] [--tenant <id>] [--keep]";
+
+const prisma = new PrismaClient();
+const contactService = new ContactService();
+
+const readPositive = (value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Expected a positive integer, got "${value}".\n${USAGE}`);
+  }
+  return number;
+};
+
+/**
+ * Seeds the contacts and links every cluster into a chain, in two statements
+ * so that seeding thousands of contacts stays fast.
+ */
+const seed = async (
+  tenantId: string,
+  contacts: number,
+  depth: number
+): Promise<void> => {
+  await prisma.contact.createMany({
+    data: Array.from({ length: contacts }, (_, i) => {
+      const email = `benchmark-${i}@example.com`;
+      return {
+        tenantId,
+        email,
+        normalizedEmail: email,
+        linkPrecedence: "primary" as const,
+      };
+    }),
+  });
+  await prisma.$executeRaw`
+    WITH "numbered" AS (
+      SELECT "id", (ROW_NUMBER() OVER (ORDER BY "id") - 1) / ${depth}::int AS "cluster"
+      FROM "Contact"
+      WHERE "tenantId" = ${tenantId}
+    ), "chained" AS (
+      SELECT "id", LAG("id") OVER (PARTITION BY "cluster" ORDER BY "id") AS "parentId"
+      FROM "numbered"
+    )
+    UPDATE "Contact"
+    SET "linkedId" = "chained"."parentId", "linkPrecedence" = 'secondary'
+    FROM "chained"
+    WHERE "Contact"."id" = "chained"."id" AND "chained"."parentId" IS NOT NULL
+  `;
+};
+
+/**
+ * The deepest contact of each cluster: the ones no other contact links to.
+ */
+const findChainEnds = async (
+  tenantId: string,
+  samples: number
+): Promise<Contact[]> =>
+  prisma.$queryRaw<Contact[]>`
+    SELECT "Contact".*
+    FROM "Contact"
+    WHERE "tenantId" = ${tenantId}
+      AND "linkPrecedence" = 'secondary'
+      AND NOT EXISTS (
+        SELECT 1 FROM "Contact" AS "child" WHERE "child"."linkedId" = "Contact"."id"
+      )
+    ORDER BY "id"
+    LIMIT ${samples}
+  `;
+
+/**
+ * The resolution `ContactService` used before: one query per hop up the
+ * chain, then the primary's cluster.
+ */
+const resolveHopByHop = async (contactId: number): Promise<number> => {
+  let contact = await prisma.contact.findUnique({ where: { id: contactId } });
+  while (
+    contact &&
+    contact.linkPrecedence === "secondary" &&
+    contact.linkedId
+  ) {
+    const parent: Contact | null = await prisma.contact.findUnique({
+      where: { id: contact.linkedId },
+    });
+    if (!parent || parent.deletedAt) break;
+    contact = parent;
+  }
+  await prisma.contact.findMany({
+    where: {
+      deletedAt: null,
+      OR: [{ id: contact!.id }, { linkedId: contact!.id }],
+    },
+  });
+  return contact!.id;
+};
+
+const resolveRecursively = async (
+  tenantId: string,
+  contactId: number
+): Promise<number> => {
+  const identity = await contactService.findIdentityByContactId(
+    { tenantId },
+    contactId
+  );
+  return identity!.contact.primaryContactId;
+};
+
+const time = async (
+  run: () => Promise<number>
+): Promise<{ ms: number; primaryContactId: number }> => {
+  const start = performance.now();
+  const primaryContactId = await run();
+  return { ms: performance.now() - start, primaryContactId };
+};
+
+const summarize = (label: string, latencies: number[]): string => {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  const mean = sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length;
+  return `${label.padEnd(12)} mean ${mean.toFixed(1)} ms  p50 ${percentile(0.5).toFixed(1)} ms  p95 ${percentile(0.95).toFixed(1)} ms`;
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      contacts: { type: "string" },
+      depth: { type: "string" },
+      samples: { type: "string" },
+      tenant: { type: "string", default: "benchmark" },
+      keep: { type: "boolean", default: false },
+    },
+  });
+  const contacts = readPositive(values.contacts, 5000);
+  const depth = readPositive(values.depth, 500);
+  const samples = readPositive(values.samples, 20);
+  const tenantId = values.tenant!;
+  if (!TENANT_ID_PATTERN.test(tenantId)) {
+    throw new Error(`Invalid tenant id "${tenantId}".\n${USAGE}`);
+  }
+  if ((await prisma.contact.count({ where: { tenantId } })) > 0) {
+    throw new Error(
+      `Tenant "${tenantId}" already has contacts; pass an unused --tenant.`
+    );
+  }
+
+  console.error(
+    `Seeding ${contacts} contacts in chains of ${depth} into tenant "${tenantId}"...`
+  );
+
+  try {
+    await seed(tenantId, contacts, depth);
+    const starts = await findChainEnds(tenantId, samples);
+    const hopByHop: number[] = [];
+    const recursive: number[] = [];
+
+    for (const { id } of starts) {
+      const before = await time(() => resolveHopByHop(id));
+      const after = await time(() => resolveRecursively(tenantId, id));
+      if (before.primaryContactId !== after.primaryContactId) {
+        throw new Error(
+          `Contact ${id} resolved to ${before.primaryContactId} before and ${after.primaryContactId} after.`
+        );
+      }
+      hopByHop.push(before.ms);
+      recursive.push(after.ms);
+    }
+
+    console.log(`Resolved ${starts.length} contacts at depth ${depth - 1}:`);
+    console.log(summarize("hop-by-hop", hopByHop));
+    console.log(summarize("recursive", recursive));
+  } finally {
+    if (!values.keep) {
+      await prisma.contact.deleteMany({ where: { tenantId } });
+    }
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,312 @@
+import { createReadStream, createWriteStream, existsSync } from "fs";
+import { readFile, rename, rm, writeFile } from "fs/promises";
+import { resolve } from "path";
+import { once } from "events";
+import { parseArgs } from "util";
+import { Writable } from "stream";
+import { ContactService } from "../services/contactService";
+import { ConsistencyService } from "../services/consistencyService";
+import {
+  DEFAULT_MIN_SCORE,
+  DuplicateService,
+} from "../services/duplicateService";
+import { TENANT_ID_PATTERN } from "../auth/requireApiKey";
+import { DEFAULT_TENANT_ID } from "../config";
+import { RequestContext } from "../types/context";
+import { InvalidRequestError } from "../errors";
+import {
+  ContactFileFormat,
+  csvExportHeader,
+  detectFormat,
+  formatIdentity,
+  readContactRows,
+} from "../utils/contactFiles";
+
+/**
+ * Bulk import and export of contacts, checks and repair of their links, and
+ * the search for likely duplicate identities.
+ *
+ * Usage:
+ *   npm run contacts -- import <file> [--format csv|jsonl] [--checkpoint <file>] [--restart] [--tenant <id>]
+ *   npm run contacts -- export [<file>] [--format csv|jsonl] [--tenant <id>]
+ *   npm run contacts -- check [--tenant <id>]
+ *   npm run contacts -- repair [--dry-run] [--tenant <id>]
+ *   npm run contacts -- duplicates [--min-score 0.7] [--tenant <id>]
+ *
+ * Import sends every row through the same reconciliation as POST /identify.
+ * Progress is saved to a checkpoint file (by default `<file>.checkpoint.json`)
+ * so an interrupted import resumes after the last saved row; the checkpoint
+ * is removed once the import completes. Rows between the last checkpoint and
+ * the interruption are identified again, which does not create duplicates.
+ *
+ * Export writes every identity in the POST /identify response shape, to
+ * stdout when no file is given.
+ *
+ * Check prints a JSON report of the contacts breaking the rules of the
+ * identity graph, the same as GET /admin/consistency, and exits with 1 if
+ * there are any.
+ *
+ * Repair links every secondary directly to its primary, flattening chains
+ * and promoting orphaned secondaries, and prints a JSON report of the
+ * changes to stdout. With --dry-run nothing is saved.
+ *
+ * Duplicates scores pairs of identities with similar emails or phone numbers
+ * and replaces the candidates listed by GET /admin/duplicate-candidates with
+ * the pairs scoring at least --min-score. It never merges anything.
+ *
+ * All act on the default tenant unless --tenant names another one.
+ */
+
+const CHECKPOINT_INTERVAL = 500;
+const EXPORT_PAGE_SIZE = 500;
+
+interface Checkpoint {
+  file: string;
+  rowsProcessed: number;
+}
+
+const contactService = new ContactService();
+const consistencyService = new ConsistencyService();
+const duplicateService = new DuplicateService();
+
+const resolveFormat = (
+  format: string | undefined,
+  path: string | undefined,
+  fallback?: ContactFileFormat
+): ContactFileFormat => {
+  if (format === "csv" || format === "jsonl") return format;
+  if (format) throw new Error(`Unknown format "${format}".`);
+
+  const detected = path ? detectFormat(path) : null;
+  if (detected) return detected;
+  if (fallback) return fallback;
+  throw new Error("Cannot detect the file format; pass --format csv|jsonl.");
+};
+
+const resolveContext = (tenant: string | undefined): RequestContext => {
+  if (tenant !== undefined && !TENANT_ID_PATTERN.test(tenant)) {
+    throw new Error(`Invalid tenant id "${tenant}".`);
+  }
+  return { tenantId: tenant ?? DEFAULT_TENANT_ID };
+};
+
+const readCheckpoint = async (
+  path: string,
+  file: string
+): Promise<number> => {
+  if (!existsSync(path)) return 0;
+
+  const checkpoint: Checkpoint = JSON.parse(await readFile(path, "utf8"));
+  if (checkpoint.file !== file) {
+    throw new Error(
+      `Checkpoint ${path} belongs to ${checkpoint.file}; pass --restart to discard it.`
+    );
+  }
+  return checkpoint.rowsProcessed;
+};
+
+const writeCheckpoint = async (path: string, checkpoint: Checkpoint) => {
+  // Write to a temporary file first so a crash never leaves a partial checkpoint
+  await writeFile(`${path}.tmp`, JSON.stringify(checkpoint));
+  await rename(`${path}.tmp`, path);
+};
+
+const importContacts = async (
+  context: RequestContext,
+  path: string,
+  options: { format?: string; checkpoint?: string; restart?: boolean }
+) => {
+  const file = resolve(path);
+  const format = resolveFormat(options.format, file);
+  const checkpointPath = resolve(options.checkpoint ?? `${file}.checkpoint.json`);
+
+  if (options.restart) {
+    await rm(checkpointPath, { force: true });
+  }
+  const resumeAfter = await readCheckpoint(checkpointPath, file);
+  if (resumeAfter > 0) {
+    console.error(`Resuming after row ${resumeAfter}`);
+  }
+
+  let rowsProcessed = resumeAfter;
+  let identified = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  const reportProgress = () =>
+    console.error(
+      `Processed ${rowsProcessed} rows: ${identified} identified, ${skipped} skipped, ${failed} failed`
+    );
+
+  const stream = createReadStream(file, { encoding: "utf8" });
+  for await (const row of readContactRows(stream, format)) {
+    if (row.rowNumber <= resumeAfter) continue;
+
+    if (row.error) {
+      console.error(`Row ${row.rowNumber}: skipped, ${row.error}`);
+      skipped++;
+    } else if (!row.email && !row.phoneNumber) {
+      skipped++;
+    } else {
+      try {
+        await contactService.identify(context, row.email, row.phoneNumber);
+        identified++;
+      } catch (error) {
+        if (error instanceof InvalidRequestError) {
+          skipped++;
+        } else {
+          console.error(`Row ${row.rowNumber}: failed,`, error);
+          failed++;
+        }
+      }
+    }
+
+    rowsProcessed = row.rowNumber;
+    if (rowsProcessed % CHECKPOINT_INTERVAL === 0) {
+      await writeCheckpoint(checkpointPath, { file, rowsProcessed });
+      reportProgress();
+    }
+  }
+
+  reportProgress();
+  await rm(checkpointPath, { force: true });
+  console.error("Import complete.");
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+};
+
+const write = async (output: Writable, chunk: string) => {
+  if (!output.write(chunk)) {
+    await once(output, "drain");
+  }
+};
+
+const exportContacts = async (
+  context: RequestContext,
+  path: string | undefined,
+  options: { format?: string }
+) => {
+  const toStdout = !path || path === "-";
+  const format = resolveFormat(
+    options.format,
+    toStdout ? undefined : path,
+    "jsonl"
+  );
+  const output = toStdout ? process.stdout : createWriteStream(resolve(path));
+
+  if (format === "csv") {
+    await write(output, csvExportHeader());
+  }
+
+  let cursor = 0;
+  let exported = 0;
+  for (;;) {
+    const identities = await contactService.listIdentities(
+      context,
+      cursor,
+      EXPORT_PAGE_SIZE
+    );
+    if (identities.length === 0) break;
+
+    for (const identity of identities) {
+      await write(output, formatIdentity(identity, format));
+    }
+    exported += identities.length;
+    cursor = identities[identities.length - 1].contact.primaryContactId;
+    console.error(`Exported ${exported} identities`);
+  }
+
+  if (!toStdout) {
+    output.end();
+    await once(output, "finish");
+  }
+  console.error(`Export complete: ${exported} identities.`);
+};
+
+const checkConsistency = async (context: RequestContext) => {
+  const report = await consistencyService.check(context);
+
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    report.consistent
+      ? `Checked ${report.totals.contacts} contacts: no problems found.`
+      : `Checked ${report.totals.contacts} contacts: problems found.`
+  );
+  if (!report.consistent) {
+    process.exitCode = 1;
+  }
+};
+
+const repairLinks = async (
+  context: RequestContext,
+  options: { "dry-run"?: boolean }
+) => {
+  const report = await contactService.repairLinks(
+    context,
+    options["dry-run"] ?? false
+  );
+
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `${report.dryRun ? "Dry run" : "Repair"} complete: ${report.promoted.length} promoted, ${report.relinked.length} relinked of ${report.scannedContacts} contacts.`
+  );
+};
+
+const findDuplicates = async (
+  context: RequestContext,
+  options: { "min-score"?: string }
+) => {
+  const minScore = Number(options["min-score"] ?? DEFAULT_MIN_SCORE);
+  if (!(minScore >= 0 && minScore <= 1)) {
+    throw new Error(
+      `Invalid minimum score "${options["min-score"]}"; expected a number from 0 to 1.`
+    );
+  }
+  const report = await duplicateService.findDuplicates(context, minScore);
+
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `Scan complete: ${report.candidates} candidates from ${report.comparedPairs} pairs of ${report.identities} identities.`
+  );
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      checkpoint: { type: "string" },
+      restart: { type: "boolean" },
+      tenant: { type: "string" },
+      "dry-run": { type: "boolean" },
+      "min-score": { type: "string" },
+    },
+  });
+  const [command, path] = positionals;
+
+  if (command === "import" && path) {
+    await importContacts(resolveContext(values.tenant), path, values);
+  } else if (command === "export") {
+    await exportContacts(resolveContext(values.tenant), path, values);
+  } else if (command === "check") {
+    await checkConsistency(resolveContext(values.tenant));
+  } else if (command === "repair") {
+    await repairLinks(resolveContext(values.tenant), values);
+  } else if (command === "duplicates") {
+    await findDuplicates(resolveContext(values.tenant), values);
+  } else {
+    throw new Error(
+      "Usage: npm run contacts -- import <file> [--format csv|jsonl] [--checkpoint <file>] [--restart] [--tenant <id>]\n" +
+        "       npm run contacts -- export [<file>] [--format csv|jsonl] [--tenant <id>]\n" +
+        "       npm run contacts -- check [--tenant <id>]\n" +
+        "       npm run contacts -- repair [--dry-run] [--tenant <id>]\n" +
+        "       npm run contacts -- duplicates [--min-score <0-1>] [--tenant <id>]"
+    );
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
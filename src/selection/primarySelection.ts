@@ -0,0 +1,94 @@
+import { Contact } from "@prisma/client";
+import { config } from "../config";
+
+/**
+ * The part of a contact that strategies choose primaries by.
+ */
+export type PrimaryCandidate = Pick<
+  Contact,
+  "id" | "createdAt" | "updatedAt" | "emailVerifiedAt" | "phoneNumberVerifiedAt"
+>;
+
+/**
+ * Decides which contact leads an identity whenever more than one could:
+ * when identities merge, when a primary is deleted or detached, and when
+ * orphaned secondaries are promoted.
+ */
+export interface PrimarySelectionStrategy {
+  /**
+   * Orders two candidates: negative when `a` should rather be the primary
+   * than `b`. Must never return 0 for different contacts, so that the
+   * choice does not depend on the order candidates were loaded in.
+   */
+  compare(a: PrimaryCandidate, b: PrimaryCandidate): number;
+}
+
+/**
+ * The contact created first wins; the lowest id breaks ties.
+ */
+export const oldestFirst: PrimarySelectionStrategy = {
+  compare: (a, b) =>
+    a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id,
+};
+
+/**
+ * The contact written to last wins, i.e. the one most recently created or
+ * re-linked; ties go to the oldest contact.
+ */
+export const mostRecentlyActiveFirst: PrimarySelectionStrategy = {
+  compare: (a, b) =>
+    b.updatedAt.getTime() - a.updatedAt.getTime() || oldestFirst.compare(a, b),
+};
+
+const isVerified = (candidate: PrimaryCandidate): boolean =>
+  candidate.emailVerifiedAt !== null ||
+  candidate.phoneNumberVerifiedAt !== null;
+
+/**
+ * A contact with a verified email or phone number wins over one without;
+ * otherwise the oldest contact does.
+ */
+export const verifiedFirst: PrimarySelectionStrategy = {
+  compare: (a, b) =>
+    Number(isVerified(b)) - Number(isVerified(a)) || oldestFirst.compare(a, b),
+};
+
+const STRATEGIES: Record<string, PrimarySelectionStrategy> = {
+  oldest: oldestFirst,
+  mostRecentlyActive: mostRecentlyActiveFirst,
+  verified: verifiedFirst,
+};
+
+/**
+ * Picks the contact that should be primary among the candidates.
+ * @throws Will throw an error if there are no candidates.
+ */
+export const selectPrimary = <T extends PrimaryCandidate>(
+  strategy: PrimarySelectionStrategy,
+  candidates: T[]
+): T => {
+  if (candidates.length === 0) {
+    throw new Error("Cannot select a primary among no contacts");
+  }
+  return candidates.reduce((best, candidate) =>
+    strategy.compare(candidate, best) < 0 ? candidate : best
+  );
+};
+
+/**
+ * Creates the primary selection strategy configured for this deployment.
+ * @param name The strategy's name; defaults to the environment configuration.
+ * @returns A primary selection strategy.
+ * @throws Will throw an error if no strategy has that name.
+ */
+export const createPrimarySelectionStrategy = (
+  name: string = config.primarySelection
+): PrimarySelectionStrategy => {
+  const strategy = STRATEGIES[name];
+  if (!strategy) {
+    throw new Error(
+      `Unknown primary selection strategy "${name}"; expected one of ${Object.keys(STRATEGIES).join(", ")}.`
+    );
+  }
+  return strategy;
+};
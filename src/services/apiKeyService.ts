@@ -0,0 +1,119 @@
+import { PrismaClient, ApiKey, ApiKeyScope } from "@prisma/client";
+import { createHash, randomBytes } from "crypto";
+import { InvalidRequestError } from "../errors";
+import {
+  ApiKeySummary,
+  ApiKeyTenancy,
+  IssuedApiKey,
+} from "../types/apiKeys";
+
+const prisma = new PrismaClient();
+
+const KEY_PREFIX = "bsk_";
+// Characters of the key kept in plain text so operators can tell keys apart
+const VISIBLE_KEY_LENGTH = 12;
+// lastUsedAt is only refreshed this often, to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Hashes an API key for storage and lookup. Keys are long random strings, so
+ * a fast unsalted hash is sufficient.
+ */
+export const hashApiKey = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+const toSummary = ({ hashedKey, ...summary }: ApiKey): ApiKeySummary =>
+  summary;
+
+export class ApiKeyService {
+  /**
+   * Issues a new API key.
+   * @param name A label identifying the client the key is for.
+   * @param scopes The operations the key may perform.
+   * @param tenancy The tenant the key is bound to, or whether requests may
+   * choose their tenant; by default the key acts for the default tenant.
+   * @returns A promise that resolves to the stored key and the plain key,
+   * which is only available here.
+   * @throws InvalidRequestError if the key is both bound to a tenant and
+   * allowed any tenant.
+   */
+  public async issue(
+    name: string,
+    scopes: ApiKeyScope[],
+    { tenantId = null, anyTenant = false }: ApiKeyTenancy = {}
+  ): Promise<IssuedApiKey> {
+    if (tenantId !== null && anyTenant) {
+      throw new InvalidRequestError(
+        "A key bound to a tenant cannot act for any tenant.",
+        "anyTenant"
+      );
+    }
+    const key = KEY_PREFIX + randomBytes(24).toString("base64url");
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name,
+        prefix: key.slice(0, VISIBLE_KEY_LENGTH),
+        hashedKey: hashApiKey(key),
+        scopes: [...new Set(scopes)],
+        tenantId,
+        anyTenant,
+      },
+    });
+    return { apiKey: toSummary(apiKey), key };
+  }
+
+  /**
+   * Revokes an API key. Requests using it are rejected from then on.
+   * @param id The id of the key.
+   * @returns A promise that resolves to the revoked key, or null if no
+   * active key has this id.
+   */
+  public async revoke(id: number): Promise<ApiKeySummary | null> {
+    const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    const revoked = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+    return toSummary(revoked);
+  }
+
+  /**
+   * Lists all API keys, revoked ones included, oldest first.
+   */
+  public async list(): Promise<ApiKeySummary[]> {
+    const apiKeys = await prisma.apiKey.findMany({ orderBy: { id: "asc" } });
+    return apiKeys.map(toSummary);
+  }
+
+  /**
+   * Looks up the active API key matching a plain key and records its use.
+   * @param key The plain key sent by a client.
+   * @returns A promise that resolves to the key, or null if it is unknown or
+   * revoked.
+   */
+  public async authenticate(key: string): Promise<ApiKeySummary | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { hashedKey: hashApiKey(key) },
+    });
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now },
+      });
+      apiKey.lastUsedAt = now;
+    }
+    return toSummary(apiKey);
+  }
+}
@@ -0,0 +1,272 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  ConsistencyGroupViolation,
+  ConsistencyReport,
+  ConsistencyViolation,
+} from "../types/consistency";
+import { RequestContext } from "../types/context";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_REPORTED_IDS = 1000;
+
+/**
+ * Merges groups of ids that overlap, so that identities sharing an email
+ * with one identity and a phone number with another end up in one group.
+ */
+const mergeOverlappingGroups = (groups: number[][]): number[][] => {
+  const parents = new Map<number, number>();
+  const find = (id: number): number => {
+    let root = id;
+    while (parents.get(root) !== root) {
+      root = parents.get(root)!;
+    }
+    parents.set(id, root);
+    return root;
+  };
+
+  for (const group of groups) {
+    for (const id of group) {
+      if (!parents.has(id)) parents.set(id, id);
+    }
+    for (const id of group.slice(1)) {
+      parents.set(find(id), find(group[0]));
+    }
+  }
+
+  const merged = new Map<number, number[]>();
+  for (const id of [...parents.keys()].sort((a, b) => a - b)) {
+    const root = find(id);
+    const group = merged.get(root) ?? [];
+    group.push(id);
+    merged.set(root, group);
+  }
+  return [...merged.values()].sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * Checks a tenant's identity graph for contacts that break its rules. Only
+ * reads; `npm run contacts -- repair` fixes the link problems it finds.
+ */
+export class ConsistencyService {
+  constructor(private readonly reportedIds = DEFAULT_REPORTED_IDS) {}
+
+  /**
+   * Runs every check against the tenant's contacts.
+   * @param context The tenant to check.
+   * @returns A promise that resolves to the counts and offending ids of each check.
+   */
+  public async check(context: RequestContext): Promise<ConsistencyReport> {
+    const { tenantId } = context;
+    const [
+      totals,
+      chainedSecondaries,
+      danglingLinks,
+      linkedPrimaries,
+      unmergedIdentities,
+      duplicateContacts,
+    ] = await Promise.all([
+      this.countContacts(tenantId),
+      this.findChainedSecondaries(tenantId),
+      this.findDanglingLinks(tenantId),
+      this.findLinkedPrimaries(tenantId),
+      this.findUnmergedIdentities(tenantId),
+      this.findDuplicateContacts(tenantId),
+    ]);
+
+    return {
+      tenantId,
+      checkedAt: new Date(),
+      consistent: [
+        chainedSecondaries,
+        danglingLinks,
+        linkedPrimaries,
+        unmergedIdentities,
+        duplicateContacts,
+      ].every(({ count }) => count === 0),
+      totals,
+      chainedSecondaries,
+      danglingLinks,
+      linkedPrimaries,
+      unmergedIdentities,
+      duplicateContacts,
+    };
+  }
+
+  private async countContacts(
+    tenantId: string
+  ): Promise<ConsistencyReport["totals"]> {
+    const [totals] = await prisma.$queryRaw<ConsistencyReport["totals"][]>`
+      SELECT
+        COUNT(*) FILTER (WHERE "deletedAt" IS NULL)::int AS "contacts",
+        COUNT(*) FILTER (
+          WHERE "deletedAt" IS NULL AND "linkPrecedence" = 'primary'
+        )::int AS "primaries",
+        COUNT(*) FILTER (
+          WHERE "deletedAt" IS NULL AND "linkPrecedence" = 'secondary'
+        )::int AS "secondaries",
+        COUNT(*) FILTER (WHERE "deletedAt" IS NOT NULL)::int AS "deleted"
+      FROM "Contact"
+      WHERE "tenantId" = ${tenantId}
+    `;
+    return totals;
+  }
+
+  private async findChainedSecondaries(
+    tenantId: string
+  ): Promise<ConsistencyViolation> {
+    const [violation] = await prisma.$queryRaw<ConsistencyViolation[]>`
+      SELECT
+        COUNT(*)::int AS "count",
+        COALESCE(
+          (ARRAY_AGG("child"."id" ORDER BY "child"."id"))[1:${this.reportedIds}::int],
+          '{}'
+        ) AS "contactIds"
+      FROM "Contact" AS "child"
+      JOIN "Contact" AS "parent" ON "parent"."id" = "child"."linkedId"
+      WHERE "child"."tenantId" = ${tenantId}
+        AND "child"."deletedAt" IS NULL
+        AND "child"."linkPrecedence" = 'secondary'
+        AND "parent"."linkPrecedence" = 'secondary'
+    `;
+    return violation;
+  }
+
+  private async findDanglingLinks(
+    tenantId: string
+  ): Promise<ConsistencyViolation> {
+    const [violation] = await prisma.$queryRaw<ConsistencyViolation[]>`
+      SELECT
+        COUNT(*)::int AS "count",
+        COALESCE(
+          (ARRAY_AGG("child"."id" ORDER BY "child"."id"))[1:${this.reportedIds}::int],
+          '{}'
+        ) AS "contactIds"
+      FROM "Contact" AS "child"
+      LEFT JOIN "Contact" AS "parent" ON "parent"."id" = "child"."linkedId"
+      WHERE "child"."tenantId" = ${tenantId}
+        AND "child"."deletedAt" IS NULL
+        AND "child"."linkPrecedence" = 'secondary'
+        AND (
+          "parent"."id" IS NULL
+          OR "parent"."deletedAt" IS NOT NULL
+          OR "parent"."tenantId" <> "child"."tenantId"
+        )
+    `;
+    return violation;
+  }
+
+  private async findLinkedPrimaries(
+    tenantId: string
+  ): Promise<ConsistencyViolation> {
+    const [violation] = await prisma.$queryRaw<ConsistencyViolation[]>`
+      SELECT
+        COUNT(*)::int AS "count",
+        COALESCE(
+          (ARRAY_AGG("id" ORDER BY "id"))[1:${this.reportedIds}::int],
+          '{}'
+        ) AS "contactIds"
+      FROM "Contact"
+      WHERE "tenantId" = ${tenantId}
+        AND "deletedAt" IS NULL
+        AND "linkPrecedence" = 'primary'
+        AND "linkedId" IS NOT NULL
+    `;
+    return violation;
+  }
+
+  /**
+   * Finds identities sharing a normalized email, phone number or typed
+   * identifier. A secondary counts towards the identity it links to.
+   */
+  private async findUnmergedIdentities(
+    tenantId: string
+  ): Promise<ConsistencyGroupViolation> {
+    const shared = await prisma.$queryRaw<{ primaryContactIds: number[] }[]>`
+      WITH "members" AS (
+        SELECT
+          CASE WHEN "linkPrecedence" = 'primary' THEN "id" ELSE "linkedId" END
+            AS "primaryId",
+          'email' AS "type",
+          "normalizedEmail" AS "value"
+        FROM "Contact"
+        WHERE "tenantId" = ${tenantId}
+          AND "deletedAt" IS NULL
+          AND "normalizedEmail" IS NOT NULL
+        UNION ALL
+        SELECT
+          CASE WHEN "linkPrecedence" = 'primary' THEN "id" ELSE "linkedId" END,
+          'phoneNumber',
+          "normalizedPhoneNumber"
+        FROM "Contact"
+        WHERE "tenantId" = ${tenantId}
+          AND "deletedAt" IS NULL
+          AND "normalizedPhoneNumber" IS NOT NULL
+        UNION ALL
+        SELECT
+          CASE WHEN "Contact"."linkPrecedence" = 'primary'
+            THEN "Contact"."id" ELSE "Contact"."linkedId" END,
+          "ContactIdentifier"."type",
+          "ContactIdentifier"."normalizedValue"
+        FROM "ContactIdentifier"
+        JOIN "Contact" ON "Contact"."id" = "ContactIdentifier"."contactId"
+        WHERE "Contact"."tenantId" = ${tenantId}
+          AND "Contact"."deletedAt" IS NULL
+      )
+      SELECT ARRAY_AGG(DISTINCT "primaryId" ORDER BY "primaryId")
+        AS "primaryContactIds"
+      FROM "members"
+      WHERE "primaryId" IS NOT NULL
+      GROUP BY "type", "value"
+      HAVING COUNT(DISTINCT "primaryId") > 1
+    `;
+
+    const groups = mergeOverlappingGroups(
+      shared.map(({ primaryContactIds }) => primaryContactIds)
+    );
+    return { count: groups.length, groups: groups.slice(0, this.reportedIds) };
+  }
+
+  /**
+   * Finds live contacts whose email, phone number and typed identifiers are
+   * all the same, whichever identity they belong to.
+   */
+  private async findDuplicateContacts(
+    tenantId: string
+  ): Promise<ConsistencyGroupViolation> {
+    const duplicates = await prisma.$queryRaw<{ contactIds: number[] }[]>`
+      WITH "typed" AS (
+        SELECT
+          "contactId",
+          STRING_AGG(
+            "type" || ':' || "normalizedValue",
+            ',' ORDER BY "type", "normalizedValue"
+          ) AS "identifiers"
+        FROM "ContactIdentifier"
+        JOIN "Contact" ON "Contact"."id" = "ContactIdentifier"."contactId"
+        WHERE "Contact"."tenantId" = ${tenantId}
+        GROUP BY "contactId"
+      )
+      SELECT ARRAY_AGG("id" ORDER BY "id") AS "contactIds"
+      FROM "Contact"
+      LEFT JOIN "typed" ON "typed"."contactId" = "Contact"."id"
+      WHERE "tenantId" = ${tenantId}
+        AND "deletedAt" IS NULL
+        AND (
+          "normalizedEmail" IS NOT NULL
+          OR "normalizedPhoneNumber" IS NOT NULL
+          OR "typed"."identifiers" IS NOT NULL
+        )
+      GROUP BY "normalizedEmail", "normalizedPhoneNumber", "typed"."identifiers"
+      HAVING COUNT(*) > 1
+      ORDER BY MIN("id")
+    `;
+
+    return {
+      count: duplicates.length,
+      groups: duplicates
+        .slice(0, this.reportedIds)
+        .map(({ contactIds }) => contactIds),
+    };
+  }
+}
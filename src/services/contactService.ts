@@ -1,65 +1,1906 @@
-import { PrismaClient, Contact } from "@prisma/client";
-import { IdentifyResponse } from "../types/identify";
+import {
+  PrismaClient,
+  Prisma,
+  Contact,
+  ContactEvent,
+  ContactIdentifier,
+  ContactSource,
+  MergeSuggestion,
+  MergeSuggestionStatus,
+} from "@prisma/client";
+import {
+  BatchIdentifyItemResult,
+  ContactDetail,
+  ExpandedIdentifyResponse,
+  IdentifierSightings,
+  IdentifierValues,
+  IdentifyRequest,
+  IdentifyResponse,
+} from "../types/identify";
+import {
+  ContactHistoryResponse,
+  DeletionMode,
+  DeletionResponse,
+  LinkRepair,
+  LinkRepairReport,
+  MergeMode,
+  MergeSuggestionApproval,
+  SplitResponse,
+  VerificationResponse,
+} from "../types/contacts";
+import { RequestContext } from "../types/context";
+import { InvalidRequestError, LimitExceededError } from "../errors";
+import {
+  runSerializableTransaction,
+  SerializableTransactionOptions,
+} from "../utils/transaction";
+import { config } from "../config";
+import {
+  ContactNormalizer,
+  createContactNormalizer,
+  phoneNumberString,
+} from "../normalization/contactNormalizer";
+import { WebhookService } from "./webhookService";
+import { contextLogger } from "../logging/logger";
+import { countContactChanges } from "../metrics/metrics";
+import {
+  createPrimarySelectionStrategy,
+  PrimarySelectionStrategy,
+  selectPrimary,
+} from "../selection/primarySelection";
 
 const prisma = new PrismaClient();
 
+/**
+ * The audit events each open transaction has recorded so far, keyed by its
+ * client, so that they can be reported once it committed.
+ */
+const recordedEvents = new WeakMap<
+  Prisma.TransactionClient,
+  Prisma.ContactEventCreateManyInput[]
+>();
+
+/**
+ * An identifier of one of the configured types beyond email and phone number.
+ */
+interface TypedIdentifier {
+  type: string;
+  value: string;
+  normalizedValue: string;
+}
+
+/**
+ * The identifiers of an incoming request, as received and in canonical form,
+ * the tenant they are matched within, and where the client saw them.
+ */
+interface ContactIdentifiers {
+  tenantId: string;
+  source: ContactSource | null;
+  email: string | null;
+  phoneNumber: string | null;
+  normalizedEmail: string | null;
+  normalizedPhoneNumber: string | null;
+  typedIdentifiers: TypedIdentifier[];
+}
+
+/**
+ * The part of a stored typed identifier that responses are built from.
+ */
+type IdentifierRecord = Pick<
+  ContactIdentifier,
+  "contactId" | "type" | "value" | "normalizedValue"
+>;
+
+/**
+ * The request that caused a change, stored with every event it records.
+ */
+type EventPayload = Prisma.InputJsonObject;
+
+/**
+ * The normalized identifiers of contacts being erased; typed identifiers are
+ * keyed as `type:normalizedValue`.
+ */
+interface ErasedIdentifiers {
+  emails: Set<string>;
+  phoneNumbers: Set<string>;
+  identifiers: Set<string>;
+}
+
+/**
+ * The part of a contact that a links repair reads.
+ */
+type LinkedContact = Pick<
+  Contact,
+  | "id"
+  | "linkedId"
+  | "linkPrecedence"
+  | "deletedAt"
+  | "createdAt"
+  | "updatedAt"
+  | "emailVerifiedAt"
+  | "phoneNumberVerifiedAt"
+>;
+
+/**
+ * Where a secondary's chain of links ends: at a live primary, or broken off
+ * at `breakId`.
+ */
+type ChainEnd = { primaryContactId: number } | { breakId: number };
+
+const MISSING_IDENTIFIERS_MESSAGE = "Email or phone number must be provided.";
+
+// A repair reads and rewrites a whole tenant, far beyond the default timeout
+const REPAIR_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+const MERGE_SUGGESTION_PAGE_SIZE = 100;
+
+// What is left of a stored request payload once its identifiers are erased
+const ERASED_PAYLOAD: EventPayload = { erased: true };
+
+/**
+ * Caps how many secondary contacts a single identity may gain per time
+ * window, so that a script cycling through made-up identifiers that share
+ * one email or phone number cannot grow a cluster without bound.
+ */
+export interface ClusterLimitOptions {
+  /** 0 disables the cap. */
+  maxSecondaries: number;
+  windowMs: number;
+}
+
 export class ContactService {
+  constructor(
+    private readonly normalizer: ContactNormalizer = createContactNormalizer(),
+    private readonly clusterLimit: ClusterLimitOptions = config.clusterLimit,
+    private readonly identifierTypes: string[] = config.identifierTypes,
+    private readonly webhookService: WebhookService = new WebhookService(),
+    private readonly primarySelection: PrimarySelectionStrategy = createPrimarySelectionStrategy(),
+    private readonly mergeMode: MergeMode = config.mergeMode
+  ) {}
+
+  /**
+   * Identifies a customer of the request's tenant based on email and/or phone number.
+   * It will find existing contacts, merge them if necessary, create new contacts,
+   * and return a consolidated view of the customer's identity.
+   * The whole reconciliation runs in a single serializable transaction so that
+   * concurrent requests for the same customer cannot create duplicate primaries
+   * or leave a cluster half-merged; conflicting transactions are retried.
+   * Identifiers are normalized before lookup, and stored alongside the raw values.
+   * New primaries, new secondaries and merges are queued for the tenant's
+   * webhook subscriptions within the same transaction.
+   * With MERGE_MODE=verified, existing identities are only merged when the
+   * request matched each of them through an identifier verified there, and
+   * with MERGE_MODE=review never; otherwise a merge suggestion is recorded
+   * and the identity that would have been kept is returned unchanged.
+   * @param context The request's tenant.
+   * @param email The email address of the contact.
+   * @param phoneNumber The phone number of the contact.
+   * @param identifierValues Identifiers of the other configured types.
+   * @param source Where the client saw the identifiers; stored with new contacts.
+   * @returns A promise that resolves to the consolidated contact response.
+   * @throws InvalidRequestError if no identifier is usable after normalization,
+   * or an identifier type is not configured.
+   * @throws LimitExceededError if the identity has gained too many secondary
+   * contacts recently; nothing is saved then.
+   */
+  public async identify(
+    context: RequestContext,
+    email: string | null,
+    phoneNumber: string | null,
+    identifierValues: IdentifierValues = {},
+    source: ContactSource | null = null
+  ): Promise<IdentifyResponse> {
+    const identifiers = this.normalizeIdentifiers(
+      context,
+      email,
+      phoneNumber,
+      identifierValues,
+      source
+    );
+    if (!this.hasIdentifiers(identifiers)) {
+      throw new InvalidRequestError(
+        MISSING_IDENTIFIERS_MESSAGE,
+        "body",
+        "missing_identifier"
+      );
+    }
+
+    const payload: EventPayload = {
+      operation: "identify",
+      email,
+      phoneNumber,
+      ...this.identifiersPayload(identifierValues),
+      ...(source ? { source } : {}),
+    };
+    return this.runTransaction(context, (tx) =>
+      this.reconcile(tx, identifiers, payload)
+    );
+  }
+
+  /**
+   * Identifies several customers in order within one transaction, so that
+   * later items can link to contacts created by earlier items of the same
+   * batch. Items without a usable identifier, with an identifier type that is
+   * not configured, or that would grow an identity beyond its secondary cap,
+   * get an error result; any other failure aborts the whole batch.
+   * @param context The request's tenant.
+   * @param items The identifiers to identify, in order.
+   * @returns A promise that resolves to one result per item, in the same order.
+   */
+  public async identifyBatch(
+    context: RequestContext,
+    items: {
+      email: string | null;
+      phoneNumber: string | null;
+      identifiers?: IdentifierValues | null;
+      source?: ContactSource | null;
+    }[]
+  ): Promise<BatchIdentifyItemResult[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const normalizedItems = items.map(
+      ({ email, phoneNumber, identifiers, source }) => {
+        try {
+          return this.normalizeIdentifiers(
+            context,
+            email,
+            phoneNumber,
+            identifiers ?? {},
+            source ?? null
+          );
+        } catch (error) {
+          if (error instanceof InvalidRequestError) {
+            return error;
+          }
+          throw error;
+        }
+      }
+    );
+
+    return this.runTransaction(
+      context,
+      async (tx) => {
+        // Take every lock up front so concurrent batches cannot deadlock
+        await this.lockIdentifiers(
+          tx,
+          normalizedItems.filter(
+            (i): i is ContactIdentifiers =>
+              !(i instanceof InvalidRequestError) && this.hasIdentifiers(i)
+          )
+        );
+
+        const results: BatchIdentifyItemResult[] = [];
+        for (const [index, identifiers] of normalizedItems.entries()) {
+          if (
+            identifiers instanceof InvalidRequestError ||
+            !this.hasIdentifiers(identifiers)
+          ) {
+            results.push({
+              index,
+              status: "error",
+              error: (identifiers instanceof InvalidRequestError
+                ? identifiers
+                : new InvalidRequestError(
+                    MISSING_IDENTIFIERS_MESSAGE,
+                    "item",
+                    "missing_identifier"
+                  )
+              ).toResponse(),
+            });
+            continue;
+          }
+
+          const {
+            email,
+            phoneNumber,
+            identifiers: identifierValues,
+            source,
+          } = items[index];
+          try {
+            const response = await this.reconcile(tx, identifiers, {
+              operation: "identifyBatch",
+              index,
+              email,
+              phoneNumber,
+              ...this.identifiersPayload(identifierValues ?? {}),
+              ...(source ? { source } : {}),
+            });
+            results.push({ index, status: "ok", ...response });
+          } catch (error) {
+            if (!(error instanceof LimitExceededError)) {
+              throw error;
+            }
+            results.push({
+              index,
+              status: "error",
+              error: { message: error.message },
+            });
+          }
+        }
+        return results;
+      },
+      { timeout: config.identifyBatch.transactionTimeoutMs }
+    );
+  }
+
+  /**
+   * Looks up the consolidated identity that a contact belongs to, without
+   * modifying any contacts.
+   * @param context The request's tenant.
+   * @param contactId The id of any contact in the identity, primary or secondary.
+   * @returns A promise that resolves to the consolidated contact response,
+   * or null if the tenant has no such contact.
+   */
+  public async findIdentityByContactId(
+    context: RequestContext,
+    contactId: number
+  ): Promise<IdentifyResponse | null> {
+    const contact = await this.findTenantContact(prisma, context, contactId);
+    if (!contact || contact.deletedAt) {
+      return null;
+    }
+    return this.lookupIdentity([contact]);
+  }
+
+  /**
+   * Looks up the consolidated identity matching an email and/or phone number,
+   * without creating or merging any contacts.
+   * @param context The request's tenant.
+   * @param email The email address to look up.
+   * @param phoneNumber The phone number to look up.
+   * @returns A promise that resolves to the consolidated contact response,
+   * or null if nothing matches.
+   */
+  public async findIdentity(
+    context: RequestContext,
+    email: string | null,
+    phoneNumber: string | null
+  ): Promise<IdentifyResponse | null> {
+    const identifiers = this.normalizeIdentifiers(context, email, phoneNumber);
+    if (!this.hasIdentifiers(identifiers)) {
+      return null;
+    }
+
+    const matchingContacts = await this.findMatchingContacts(
+      prisma,
+      identifiers
+    );
+    if (matchingContacts.length === 0) {
+      return null;
+    }
+    return this.lookupIdentity(matchingContacts);
+  }
+
+  /**
+   * Adds the contacts behind identities to their responses, for clients that
+   * need to know which email came with which phone number, and when. Loads
+   * the contacts each response names, so that the detail matches the rest of
+   * the response.
+   * @param context The request's tenant.
+   * @param responses Consolidated identities, as returned by the other methods.
+   * @returns A promise that resolves to the expanded responses, in the same order.
+   */
+  public async expandIdentities(
+    context: RequestContext,
+    responses: IdentifyResponse[]
+  ): Promise<ExpandedIdentifyResponse[]> {
+    const contactIds = responses.flatMap(({ contact }) => [
+      contact.primaryContactId,
+      ...contact.secondaryContactIds,
+    ]);
+    const contacts =
+      contactIds.length === 0
+        ? []
+        : await prisma.contact.findMany({
+            where: { id: { in: contactIds }, tenantId: context.tenantId },
+          });
+    const typedIdentifiers = await this.loadTypedIdentifiers(prisma, contacts);
+    const contactsById = new Map(contacts.map((c) => [c.id, c]));
+
+    return responses.map(({ contact }) => {
+      const identityContacts = [
+        contact.primaryContactId,
+        ...contact.secondaryContactIds,
+      ].flatMap((id) => contactsById.get(id) ?? []);
+
+      return {
+        contact: {
+          ...contact,
+          contacts: identityContacts.map((c) =>
+            this.toContactDetail(c, typedIdentifiers)
+          ),
+          emailSightings: this.findSightings(
+            contact.emails,
+            identityContacts,
+            (c) => c.email
+          ),
+          phoneNumberSightings: this.findSightings(
+            contact.phoneNumbers,
+            identityContacts,
+            (c) => c.phoneNumber
+          ),
+        },
+      };
+    });
+  }
+
+  private toContactDetail(
+    contact: Contact,
+    typedIdentifiers: IdentifierRecord[]
+  ): ContactDetail {
+    const identifiers = Object.fromEntries(
+      typedIdentifiers
+        .filter((identifier) => identifier.contactId === contact.id)
+        .map(({ type, value }) => [type, value])
+    );
+    return {
+      id: contact.id,
+      email: contact.email,
+      phoneNumber: contact.phoneNumber,
+      // Only present when used, like the identifiers of the identity
+      ...(Object.keys(identifiers).length > 0 ? { identifiers } : {}),
+      linkPrecedence: contact.linkPrecedence,
+      linkedId: contact.linkedId,
+      source: contact.source,
+      createdAt: contact.createdAt,
+    };
+  }
+
+  /**
+   * Finds when each value was first seen among the contacts, and when the
+   * last contact carrying it was added.
+   */
+  private findSightings(
+    values: string[],
+    contacts: Contact[],
+    valueOf: (contact: Contact) => string | null
+  ): IdentifierSightings[] {
+    return values.flatMap((value) => {
+      const times = contacts
+        .filter((contact) => valueOf(contact) === value)
+        .map((contact) => contact.createdAt.getTime());
+      if (times.length === 0) {
+        return [];
+      }
+      return [
+        {
+          value,
+          firstSeenAt: new Date(Math.min(...times)),
+          lastAddedAt: new Date(Math.max(...times)),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Marks identifiers as verified, i.e. proven to belong to the customer, on
+   * every live contact of the tenant that carries them. Identifiers verified
+   * earlier keep their time of verification. Every contact with a newly
+   * verified identifier gets a `verified` event.
+   * @param context The request's tenant.
+   * @param email The email address to mark verified.
+   * @param phoneNumber The phone number to mark verified.
+   * @param identifierValues Identifiers of the other configured types to mark verified.
+   * @returns A promise that resolves to the ids of the contacts carrying the
+   * identifiers, or null if the tenant has no such contact.
+   * @throws InvalidRequestError if no identifier is usable after normalization,
+   * or an identifier type is not configured.
+   */
+  public async verifyIdentifiers(
+    context: RequestContext,
+    email: string | null,
+    phoneNumber: string | null,
+    identifierValues: IdentifierValues = {}
+  ): Promise<VerificationResponse | null> {
+    const identifiers = this.normalizeIdentifiers(
+      context,
+      email,
+      phoneNumber,
+      identifierValues
+    );
+    if (!this.hasIdentifiers(identifiers)) {
+      throw new InvalidRequestError(
+        MISSING_IDENTIFIERS_MESSAGE,
+        "body",
+        "missing_identifier"
+      );
+    }
+    const { normalizedEmail, normalizedPhoneNumber, typedIdentifiers } =
+      identifiers;
+    const payload: EventPayload = {
+      operation: "verify",
+      email,
+      phoneNumber,
+      ...this.identifiersPayload(identifierValues),
+    };
+
+    return this.runTransaction(context, async (tx) => {
+      await this.lockIdentifiers(tx, [identifiers]);
+      const matchingContacts = await this.findMatchingContacts(tx, identifiers);
+      if (matchingContacts.length === 0) {
+        return null;
+      }
+
+      const verifiedAt = new Date();
+      const newlyVerifiedIds = new Set<number>();
+
+      const unverifiedEmailIds = matchingContacts
+        .filter(
+          (c) =>
+            normalizedEmail !== null &&
+            c.normalizedEmail === normalizedEmail &&
+            c.emailVerifiedAt === null
+        )
+        .map((c) => c.id);
+      if (unverifiedEmailIds.length > 0) {
+        await tx.contact.updateMany({
+          where: { id: { in: unverifiedEmailIds } },
+          data: { emailVerifiedAt: verifiedAt },
+        });
+        unverifiedEmailIds.forEach((id) => newlyVerifiedIds.add(id));
+      }
+
+      const unverifiedPhoneNumberIds = matchingContacts
+        .filter(
+          (c) =>
+            normalizedPhoneNumber !== null &&
+            c.normalizedPhoneNumber === normalizedPhoneNumber &&
+            c.phoneNumberVerifiedAt === null
+        )
+        .map((c) => c.id);
+      if (unverifiedPhoneNumberIds.length > 0) {
+        await tx.contact.updateMany({
+          where: { id: { in: unverifiedPhoneNumberIds } },
+          data: { phoneNumberVerifiedAt: verifiedAt },
+        });
+        unverifiedPhoneNumberIds.forEach((id) => newlyVerifiedIds.add(id));
+      }
+
+      if (typedIdentifiers.length > 0) {
+        const unverifiedIdentifiers = await tx.contactIdentifier.findMany({
+          where: {
+            contactId: { in: matchingContacts.map((c) => c.id) },
+            verifiedAt: null,
+            OR: typedIdentifiers.map(({ type, normalizedValue }) => ({
+              type,
+              normalizedValue,
+            })),
+          },
+          select: { id: true, contactId: true },
+        });
+        if (unverifiedIdentifiers.length > 0) {
+          await tx.contactIdentifier.updateMany({
+            where: { id: { in: unverifiedIdentifiers.map((i) => i.id) } },
+            data: { verifiedAt },
+          });
+          unverifiedIdentifiers.forEach((i) =>
+            newlyVerifiedIds.add(i.contactId)
+          );
+        }
+      }
+
+      await this.recordEvents(
+        tx,
+        matchingContacts
+          .filter((c) => newlyVerifiedIds.has(c.id))
+          .map((c) => ({
+            contactId: c.id,
+            type: "verified" as const,
+            previousLinkedId: c.linkedId,
+            linkedId: c.linkedId,
+            payload,
+          }))
+      );
+
+      return {
+        verifiedContactIds: matchingContacts
+          .map((c) => c.id)
+          .sort((a, b) => a - b),
+      };
+    });
+  }
+
+  /**
+   * Lists consolidated identities page by page, ordered by primary contact id.
+   * Deleted contacts are left out.
+   * @param context The request's tenant.
+   * @param afterPrimaryContactId Only identities with a greater primary contact
+   * id are returned; pass 0 for the first page.
+   * @param take The maximum number of identities to return.
+   * @returns A promise that resolves to the identities of the page.
+   */
+  public async listIdentities(
+    context: RequestContext,
+    afterPrimaryContactId: number,
+    take: number
+  ): Promise<IdentifyResponse[]> {
+    const primaryContacts = await prisma.contact.findMany({
+      where: {
+        tenantId: context.tenantId,
+        linkPrecedence: "primary",
+        deletedAt: null,
+        id: { gt: afterPrimaryContactId },
+      },
+      orderBy: { id: "asc" },
+      take,
+    });
+    if (primaryContacts.length === 0) {
+      return [];
+    }
+
+    const secondaryContacts = await prisma.contact.findMany({
+      where: {
+        linkedId: { in: primaryContacts.map((c) => c.id) },
+        deletedAt: null,
+      },
+      orderBy: { id: "asc" },
+    });
+    const typedIdentifiers = await this.loadTypedIdentifiers(prisma, [
+      ...primaryContacts,
+      ...secondaryContacts,
+    ]);
+
+    return primaryContacts.map((primaryContact) =>
+      this.buildResponseFromContacts(
+        [
+          primaryContact,
+          ...secondaryContacts.filter((c) => c.linkedId === primaryContact.id),
+        ],
+        typedIdentifiers
+      )
+    );
+  }
+
+  /**
+   * Deletes a single contact. When a primary contact is deleted, one of its
+   * remaining secondaries, the oldest by default, is promoted to primary and
+   * the other secondaries are re-linked to it. In "erase" mode the
+   * contact's identifiers are scrubbed too, which also works on contacts
+   * that were soft-deleted before.
+   * @param context The request's tenant.
+   * @param contactId The id of the contact to delete.
+   * @param mode Whether to soft-delete or erase the contact.
+   * @returns A promise that resolves to the deletion outcome, or null if the
+   * tenant has no such contact or it has already been deleted in this mode.
+   */
+  public async deleteContact(
+    context: RequestContext,
+    contactId: number,
+    mode: DeletionMode = "soft"
+  ): Promise<DeletionResponse | null> {
+    return this.runTransaction(context, async (tx) => {
+      const contact = await this.findTenantContact(tx, context, contactId);
+      if (!contact || !this.isDeletable(contact, mode)) {
+        return null;
+      }
+
+      const payload: EventPayload = { operation: "deleteContact", contactId, mode };
+      await this.markDeleted(tx, [contact], mode, payload);
+
+      const promotedContact =
+        contact.linkPrecedence === "primary" && !contact.deletedAt
+          ? await this.promoteSuccessor(tx, contact.id, payload)
+          : null;
+
+      return {
+        mode,
+        deletedContactIds: [contact.id],
+        promotedContactId: promotedContact?.id ?? null,
+      };
+    });
+  }
+
+  /**
+   * Deletes every contact of the identity that the given contact belongs to.
+   * In "erase" mode previously soft-deleted contacts of the identity are
+   * scrubbed as well, as required for right-to-be-forgotten requests.
+   * @param context The request's tenant.
+   * @param contactId The id of any contact in the identity.
+   * @param mode Whether to soft-delete or erase the identity.
+   * @returns A promise that resolves to the deletion outcome, or null if the
+   * tenant has no such contact or there is nothing left to delete in this mode.
+   */
+  public async deleteIdentity(
+    context: RequestContext,
+    contactId: number,
+    mode: DeletionMode = "soft"
+  ): Promise<DeletionResponse | null> {
+    return this.runTransaction(context, async (tx) => {
+      const contact = await this.findTenantContact(tx, context, contactId);
+      if (!contact || !this.isDeletable(contact, mode)) {
+        return null;
+      }
+
+      const rootContact = await this.findRootContact(tx, [contact]);
+      const members =
+        mode === "erase"
+          ? await tx.contact.findMany({
+              where: {
+                OR: [{ id: rootContact.id }, { linkedId: rootContact.id }],
+              },
+            })
+          : await this.getAllRelatedContacts(tx, rootContact.id);
+      const contactsToDelete = members.filter((c) =>
+        this.isDeletable(c, mode)
+      );
+
+      await this.markDeleted(tx, contactsToDelete, mode, {
+        operation: "deleteIdentity",
+        contactId,
+        mode,
+      });
+
+      return {
+        mode,
+        deletedContactIds: contactsToDelete.map((c) => c.id),
+        promotedContactId: null,
+      };
+    });
+  }
+
+  /**
+   * Checks whether a contact still has something to delete in the given mode.
+   */
+  private isDeletable(contact: Contact, mode: DeletionMode): boolean {
+    return mode === "erase" ? !contact.erasedAt : !contact.deletedAt;
+  }
+
+  /**
+   * Marks contacts as deleted, keeping the original deletion time of contacts
+   * that were already soft-deleted. Erasing also scrubs all identifiers,
+   * including the request payloads stored with the contacts' past events and
+   * wherever else they hold the erased identifiers.
+   */
+  private async markDeleted(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[],
+    mode: DeletionMode,
+    payload: EventPayload
+  ): Promise<void> {
+    const ids = contacts.map((c) => c.id);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    await tx.contact.updateMany({
+      where: { id: { in: ids }, deletedAt: null },
+      data: { deletedAt: now },
+    });
+    await this.recordEvents(
+      tx,
+      contacts
+        .filter((c) => !c.deletedAt)
+        .map((c) => ({
+          contactId: c.id,
+          type: "deleted",
+          previousLinkedId: c.linkedId,
+          linkedId: c.linkedId,
+          payload,
+        }))
+    );
+
+    if (mode === "erase") {
+      await this.scrubErasedIdentifiers(tx, contacts);
+      await this.forgetSavedResponses(tx, contacts);
+      await tx.contact.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          email: null,
+          phoneNumber: null,
+          normalizedEmail: null,
+          normalizedPhoneNumber: null,
+          erasedAt: now,
+        },
+      });
+      await tx.contactIdentifier.deleteMany({
+        where: { contactId: { in: ids } },
+      });
+      await tx.contactEvent.updateMany({
+        where: { contactId: { in: ids } },
+        data: { payload: ERASED_PAYLOAD },
+      });
+      await this.recordEvents(
+        tx,
+        contacts.map((c) => ({
+          contactId: c.id,
+          type: "erased",
+          previousLinkedId: c.linkedId,
+          linkedId: c.linkedId,
+          payload,
+        }))
+      );
+    }
+  }
+
+  /**
+   * Scrubs the payloads elsewhere that hold identifiers of contacts about to
+   * be erased: those of the tenant's merge suggestions, which can then no
+   * longer be approved, and those of the events of the rest of the identity.
+   * Payload values are compared once normalized, as requests are matched.
+   */
+  private async scrubErasedIdentifiers(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[]
+  ): Promise<void> {
+    const ids = contacts.map((c) => c.id);
+    const identifierRows = await tx.contactIdentifier.findMany({
+      where: { contactId: { in: ids } },
+    });
+    const erased: ErasedIdentifiers = {
+      emails: new Set(
+        contacts.map((c) => c.normalizedEmail).filter(Boolean) as string[]
+      ),
+      phoneNumbers: new Set(
+        contacts.map((c) => c.normalizedPhoneNumber).filter(Boolean) as string[]
+      ),
+      identifiers: new Set(
+        identifierRows.map((i) => `${i.type}:${i.normalizedValue}`)
+      ),
+    };
+
+    const suggestions = await tx.mergeSuggestion.findMany({
+      where: {
+        tenantId: contacts[0].tenantId,
+        NOT: { payload: { equals: ERASED_PAYLOAD } },
+      },
+      select: { id: true, payload: true },
+    });
+    const scrubbedSuggestionIds = suggestions
+      .filter((s) => this.payloadMentions(s.payload, erased))
+      .map((s) => s.id);
+    if (scrubbedSuggestionIds.length > 0) {
+      await tx.mergeSuggestion.updateMany({
+        where: { id: { in: scrubbedSuggestionIds } },
+        data: { payload: ERASED_PAYLOAD },
+      });
+    }
+
+    // The identity reaches every contact linked to an erased contact or to
+    // the contact it is linked to
+    const identityIds = [
+      ...ids,
+      ...(contacts.map((c) => c.linkedId).filter(Boolean) as number[]),
+    ];
+    const identityContacts = await tx.contact.findMany({
+      where: {
+        id: { notIn: ids },
+        OR: [{ id: { in: identityIds } }, { linkedId: { in: identityIds } }],
+      },
+      select: { id: true },
+    });
+    const events = await tx.contactEvent.findMany({
+      where: { contactId: { in: identityContacts.map((c) => c.id) } },
+      select: { id: true, payload: true },
+    });
+    const scrubbedEventIds = events
+      .filter((e) => this.payloadMentions(e.payload, erased))
+      .map((e) => e.id);
+    if (scrubbedEventIds.length > 0) {
+      await tx.contactEvent.updateMany({
+        where: { id: { in: scrubbedEventIds } },
+        data: { payload: ERASED_PAYLOAD },
+      });
+    }
+  }
+
+  /**
+   * Deletes the responses saved for idempotent retries that show the given
+   * contacts. A response lists the ids of all contacts whose identifiers it
+   * shows, in batches too, so matching on ids finds every one of them.
+   */
+  private async forgetSavedResponses(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[]
+  ): Promise<void> {
+    const ids = contacts.map((c) => c.id);
+    await tx.$executeRaw`
+      DELETE FROM "IdempotencyKey"
+      WHERE "tenantId" = ${contacts[0].tenantId}
+        AND jsonb_path_exists(
+          "responseBody",
+          'lax $.** ? (@.primaryContactId == $ids[*] || @.secondaryContactIds[*] == $ids[*])',
+          jsonb_build_object('ids', ${ids}::int[])
+        )
+    `;
+  }
+
+  /**
+   * Checks whether a stored request payload holds any of the given
+   * normalized identifiers.
+   */
+  private payloadMentions(
+    payload: Prisma.JsonValue,
+    erased: ErasedIdentifiers
+  ): boolean {
+    const request = payload as IdentifyRequest | null;
+    if (!request || typeof request !== "object") {
+      return false;
+    }
+    const email = this.normalizer.normalizeEmail(request.email ?? null);
+    const phoneNumber = this.normalizer.normalizePhoneNumber(
+      phoneNumberString(request.phoneNumber)
+    );
+    return (
+      (email !== null && erased.emails.has(email)) ||
+      (phoneNumber !== null && erased.phoneNumbers.has(phoneNumber)) ||
+      Object.entries(request.identifiers ?? {}).some(([type, value]) => {
+        const normalizedValue = this.normalizer.normalizeIdentifier(value);
+        return erased.identifiers.has(`${type}:${normalizedValue}`);
+      })
+    );
+  }
+
+  /**
+   * Promotes a remaining contact below a deleted primary, chosen by the
+   * primary selection strategy, and links the other remaining ones directly
+   * to it, however deep they were.
+   * @returns The promoted contact, or null if no contact is left.
+   */
+  private async promoteSuccessor(
+    tx: Prisma.TransactionClient,
+    deletedPrimaryId: number,
+    payload: EventPayload
+  ): Promise<Contact | null> {
+    const descendants = await this.findDescendants(tx, [deletedPrimaryId]);
+    const remaining = descendants.filter((c) => !c.deletedAt);
+    if (remaining.length === 0) {
+      return null;
+    }
+    const successor = selectPrimary(this.primarySelection, remaining);
+    const others = remaining.filter((c) => c.id !== successor.id);
+
+    const promotedContact = await tx.contact.update({
+      where: { id: successor.id },
+      data: { linkPrecedence: "primary", linkedId: null },
+    });
+    const relinkEvents = await this.linkDirectly(
+      tx,
+      others,
+      successor.id,
+      payload
+    );
+
+    await this.recordEvents(tx, [
+      {
+        contactId: successor.id,
+        type: "promoted",
+        previousLinkedId: successor.linkedId,
+        linkedId: null,
+        payload,
+      },
+      ...relinkEvents,
+    ]);
+
+    return promotedContact;
+  }
+
+  /**
+   * Splits contacts off an identity into a new identity of their own, undoing
+   * a bad merge. The detached contact picked by the primary selection
+   * strategy, the oldest by default, becomes the new primary and the other
+   * detached contacts are re-linked to it. If the current primary is
+   * detached, the strategy picks the primary of the rest the same way.
+   * @param context The request's tenant.
+   * @param contactId The id of any contact in the identity to split.
+   * @param detachContactIds The ids of the contacts to detach.
+   * @param dryRun When true, only previews the resulting identities.
+   * @returns A promise that resolves to both resulting identities, or null if
+   * the tenant has no such contact.
+   * @throws InvalidRequestError if the contacts to detach are not a proper,
+   * non-empty subset of the identity.
+   */
+  public async splitIdentity(
+    context: RequestContext,
+    contactId: number,
+    detachContactIds: number[],
+    dryRun = false
+  ): Promise<SplitResponse | null> {
+    return this.runTransaction(context, async (tx) => {
+      const contact = await this.findTenantContact(tx, context, contactId);
+      if (!contact || contact.deletedAt) {
+        return null;
+      }
+
+      const rootContact = await this.findRootContact(tx, [contact]);
+      const members = await this.getAllRelatedContacts(tx, rootContact.id);
+      const detachIds = new Set(detachContactIds);
+
+      const unknownIds = [...detachIds].filter(
+        (id) => !members.some((c) => c.id === id)
+      );
+      if (unknownIds.length > 0) {
+        throw new InvalidRequestError(
+          `Contacts ${unknownIds.join(", ")} do not belong to this identity.`,
+          "contactIds",
+          "not_in_identity"
+        );
+      }
+      if (detachIds.size === 0 || detachIds.size === members.length) {
+        throw new InvalidRequestError(
+          "Contacts to detach must be a non-empty part of the identity, not all of it.",
+          "contactIds",
+          "invalid_value"
+        );
+      }
+
+      const remaining = this.relinkToPrimary(
+        members.filter((c) => !detachIds.has(c.id)),
+        rootContact
+      );
+      const detached = this.relinkToPrimary(
+        members.filter((c) => detachIds.has(c.id))
+      );
+
+      if (!dryRun) {
+        const payload: EventPayload = {
+          operation: "splitIdentity",
+          contactId,
+          contactIds: detachContactIds,
+        };
+        await this.applyLinks(tx, members, remaining, payload);
+        await this.applyLinks(tx, members, detached, payload);
+      }
+
+      const typedIdentifiers = await this.loadTypedIdentifiers(tx, members);
+      return {
+        dryRun,
+        remaining: this.buildResponseFromContacts(remaining, typedIdentifiers),
+        detached: this.buildResponseFromContacts(detached, typedIdentifiers),
+      };
+    });
+  }
+
+  /**
+   * Computes, in memory, a group of contacts linked directly to one primary:
+   * the preferred contact if it is in the group, otherwise the one the
+   * primary selection strategy picks.
+   */
+  private relinkToPrimary(contacts: Contact[], preferred?: Contact): Contact[] {
+    const primaryContact =
+      contacts.find((c) => c.id === preferred?.id) ??
+      selectPrimary(this.primarySelection, contacts);
+
+    return contacts.map((c) =>
+      c.id === primaryContact.id
+        ? { ...c, linkPrecedence: "primary", linkedId: null }
+        : { ...c, linkPrecedence: "secondary", linkedId: primaryContact.id }
+    );
+  }
+
+  /**
+   * Persists a group of contacts computed by `relinkToPrimary`, recording an
+   * event for every contact whose link changed.
+   */
+  private async applyLinks(
+    tx: Prisma.TransactionClient,
+    previousContacts: Contact[],
+    contacts: Contact[],
+    payload: EventPayload
+  ): Promise<void> {
+    const primaryContact = contacts.find((c) => c.linkPrecedence === "primary")!;
+    const secondaryIds = contacts
+      .filter((c) => c.id !== primaryContact.id)
+      .map((c) => c.id);
+
+    await tx.contact.update({
+      where: { id: primaryContact.id },
+      data: { linkPrecedence: "primary", linkedId: null },
+    });
+    if (secondaryIds.length > 0) {
+      await tx.contact.updateMany({
+        where: { id: { in: secondaryIds } },
+        data: { linkPrecedence: "secondary", linkedId: primaryContact.id },
+      });
+    }
+
+    await this.recordEvents(
+      tx,
+      contacts.flatMap((c) => {
+        const previous = previousContacts.find((p) => p.id === c.id)!;
+        if (
+          previous.linkPrecedence === c.linkPrecedence &&
+          previous.linkedId === c.linkedId
+        ) {
+          return [];
+        }
+        return [
+          {
+            contactId: c.id,
+            type: c.linkPrecedence === "primary" ? "promoted" : "relinked",
+            previousLinkedId: previous.linkedId,
+            linkedId: c.linkedId,
+            payload,
+          },
+        ];
+      })
+    );
+  }
+
+  /**
+   * Appends events to the contact audit log.
+   */
+  private async recordEvents(
+    tx: Prisma.TransactionClient,
+    events: Prisma.ContactEventCreateManyInput[]
+  ): Promise<void> {
+    if (events.length > 0) {
+      await tx.contactEvent.createMany({ data: events });
+      recordedEvents.get(tx)?.push(...events);
+    }
+  }
+
+  /**
+   * Runs `fn` in a serializable transaction, then logs and counts the
+   * changes it recorded. Only the attempt that committed is reported, not
+   * those rolled back by a conflict and retried.
+   */
+  private async runTransaction<T>(
+    context: RequestContext,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options?: SerializableTransactionOptions
+  ): Promise<T> {
+    let events: Prisma.ContactEventCreateManyInput[] = [];
+    const result = await runSerializableTransaction(
+      prisma,
+      (tx) => {
+        events = [];
+        recordedEvents.set(tx, events);
+        return fn(tx);
+      },
+      options
+    );
+
+    if (events.length > 0) {
+      const types = events.map((event) => event.type);
+      countContactChanges(events);
+      contextLogger(context).info("Contacts changed", {
+        changes: Object.fromEntries(
+          [...new Set(types)].map((type) => [
+            type,
+            types.filter((t) => t === type).length,
+          ])
+        ),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Gets the audit timeline of the identity a contact belongs to: every
+   * recorded event of its current contacts, deleted ones included, oldest first.
+   * @param context The request's tenant.
+   * @param contactId The id of any contact in the identity.
+   * @returns A promise that resolves to the identity's history, or null if the
+   * tenant has no such contact.
+   */
+  public async getIdentityHistory(
+    context: RequestContext,
+    contactId: number
+  ): Promise<ContactHistoryResponse | null> {
+    const contact = await this.findTenantContact(prisma, context, contactId);
+    if (!contact) {
+      return null;
+    }
+
+    const rootContact = await this.findRootContact(prisma, [contact]);
+    const members = await prisma.contact.findMany({
+      where: { OR: [{ id: rootContact.id }, { linkedId: rootContact.id }] },
+    });
+    const contactIds = new Set([contact.id, ...members.map((c) => c.id)]);
+
+    const events = await prisma.contactEvent.findMany({
+      where: { contactId: { in: [...contactIds] } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    });
+
+    return { primaryContactId: rootContact.id, events };
+  }
+
+  /**
+   * Loads contacts by id, for callers that gather ids before loading them,
+   * such as the GraphQL loaders.
+   * @param context The request's tenant.
+   * @param ids The ids of the contacts.
+   * @returns A promise that resolves to one entry per id, in the same order:
+   * the tenant's live contact, or null if there is none.
+   */
+  public async getContactsByIds(
+    context: RequestContext,
+    ids: readonly number[]
+  ): Promise<(Contact | null)[]> {
+    const contacts = await prisma.contact.findMany({
+      where: {
+        id: { in: [...ids] },
+        tenantId: context.tenantId,
+        deletedAt: null,
+      },
+    });
+    const contactsById = new Map(contacts.map((c) => [c.id, c]));
+    return ids.map((id) => contactsById.get(id) ?? null);
+  }
+
+  /**
+   * Loads the typed identifiers of several contacts at once.
+   * @param context The request's tenant.
+   * @param contactIds The ids of the contacts.
+   * @returns A promise that resolves to the identifiers of each contact,
+   * oldest first, in the order of the ids.
+   */
+  public async getIdentifiersByContactIds(
+    context: RequestContext,
+    contactIds: readonly number[]
+  ): Promise<ContactIdentifier[][]> {
+    const identifiers = await prisma.contactIdentifier.findMany({
+      where: {
+        contactId: { in: [...contactIds] },
+        contact: { tenantId: context.tenantId },
+      },
+      orderBy: { id: "asc" },
+    });
+    return contactIds.map((id) =>
+      identifiers.filter((identifier) => identifier.contactId === id)
+    );
+  }
+
+  /**
+   * Loads the histories of several identities at once, as
+   * `getIdentityHistory` does for one: the events of the primary and every
+   * contact linked to it, deleted ones included, oldest first.
+   * @param context The request's tenant.
+   * @param primaryContactIds The primaries of the identities.
+   * @returns A promise that resolves to the events of each identity, in the
+   * order of the ids.
+   */
+  public async getHistoriesByPrimaryContactIds(
+    context: RequestContext,
+    primaryContactIds: readonly number[]
+  ): Promise<ContactEvent[][]> {
+    const ids = [...primaryContactIds];
+    const members = await prisma.contact.findMany({
+      where: {
+        tenantId: context.tenantId,
+        OR: [{ id: { in: ids } }, { linkedId: { in: ids } }],
+      },
+      select: { id: true, linkedId: true },
+    });
+    const events = await prisma.contactEvent.findMany({
+      where: { contactId: { in: members.map((member) => member.id) } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    });
+
+    return ids.map((primaryContactId) => {
+      const memberIds = new Set(
+        members
+          .filter(
+            (member) =>
+              member.id === primaryContactId ||
+              member.linkedId === primaryContactId
+          )
+          .map((member) => member.id)
+      );
+      return events.filter((event) => memberIds.has(event.contactId));
+    });
+  }
+
+  /**
+   * Lists a tenant's merge suggestions of one status, oldest first.
+   * @param context The request's tenant.
+   * @param status The status to list.
+   * @param afterId Only suggestions with a greater id are returned; pass 0
+   * for the first page.
+   * @returns A promise that resolves to up to 100 suggestions.
+   */
+  public async listMergeSuggestions(
+    context: RequestContext,
+    status: MergeSuggestionStatus,
+    afterId = 0
+  ): Promise<MergeSuggestion[]> {
+    return prisma.mergeSuggestion.findMany({
+      where: { tenantId: context.tenantId, status, id: { gt: afterId } },
+      orderBy: { id: "asc" },
+      take: MERGE_SUGGESTION_PAGE_SIZE,
+    });
+  }
+
+  /**
+   * Approves a pending merge suggestion by replaying the request it holds as
+   * `/identify` would with MERGE_MODE=always: the identities the request
+   * matches now are merged and its new identifiers are added, with the usual
+   * events and webhooks.
+   * @param context The request's tenant.
+   * @param id The id of the suggestion.
+   * @returns A promise that resolves to the approved suggestion and the
+   * merged identity, or null if the tenant has no such suggestion.
+   * @throws InvalidRequestError if the suggestion is no longer pending, was
+   * scrubbed by an erasure, or its request is no longer valid, e.g. after
+   * IDENTIFIER_TYPES changed.
+   * @throws LimitExceededError if the merged identity has gained too many
+   * secondary contacts recently; nothing is saved then.
+   */
+  public async approveMergeSuggestion(
+    context: RequestContext,
+    id: number
+  ): Promise<MergeSuggestionApproval | null> {
+    return this.runTransaction(context, async (tx) => {
+      const suggestion = await this.findPendingMergeSuggestion(
+        tx,
+        context,
+        id
+      );
+      if (!suggestion) {
+        return null;
+      }
+      if ((suggestion.payload as Prisma.JsonObject).erased) {
+        throw new InvalidRequestError(
+          `Merge suggestion ${id} held identifiers that have since been erased; reject it instead.`,
+          "id",
+          "erased"
+        );
+      }
+
+      const request = suggestion.payload as IdentifyRequest;
+      const identifiers = this.normalizeIdentifiers(
+        context,
+        request.email ?? null,
+        phoneNumberString(request.phoneNumber),
+        request.identifiers ?? {},
+        request.source ?? null
+      );
+      if (!this.hasIdentifiers(identifiers)) {
+        throw new InvalidRequestError(
+          MISSING_IDENTIFIERS_MESSAGE,
+          "id",
+          "missing_identifier"
+        );
+      }
+      const identity = await this.reconcile(
+        tx,
+        identifiers,
+        {
+          ...(suggestion.payload as Prisma.JsonObject),
+          operation: "approveMergeSuggestion",
+          mergeSuggestionId: id,
+        },
+        "always"
+      );
+
+      const mergeSuggestion = await tx.mergeSuggestion.update({
+        where: { id },
+        data: { status: "approved", resolvedAt: new Date() },
+      });
+      return { mergeSuggestion, identity };
+    });
+  }
+
+  /**
+   * Rejects a pending merge suggestion. Requests that would merge the same
+   * identities again are then let through unmerged without a new suggestion.
+   * @param context The request's tenant.
+   * @param id The id of the suggestion.
+   * @returns A promise that resolves to the rejected suggestion, or null if
+   * the tenant has no such suggestion.
+   * @throws InvalidRequestError if the suggestion is no longer pending.
+   */
+  public async rejectMergeSuggestion(
+    context: RequestContext,
+    id: number
+  ): Promise<MergeSuggestion | null> {
+    return this.runTransaction(context, async (tx) => {
+      const suggestion = await this.findPendingMergeSuggestion(
+        tx,
+        context,
+        id
+      );
+      if (!suggestion) {
+        return null;
+      }
+      return tx.mergeSuggestion.update({
+        where: { id },
+        data: { status: "rejected", resolvedAt: new Date() },
+      });
+    });
+  }
+
+  /**
+   * Finds a merge suggestion by id, treating suggestions of other tenants as
+   * missing.
+   * @throws InvalidRequestError if the suggestion is no longer pending.
+   */
+  private async findPendingMergeSuggestion(
+    tx: Prisma.TransactionClient,
+    context: RequestContext,
+    id: number
+  ): Promise<MergeSuggestion | null> {
+    const suggestion = await tx.mergeSuggestion.findUnique({ where: { id } });
+    if (suggestion?.tenantId !== context.tenantId) {
+      return null;
+    }
+    if (suggestion.status !== "pending") {
+      throw new InvalidRequestError(
+        `Merge suggestion ${id} is already ${suggestion.status}.`,
+        "id",
+        "already_resolved"
+      );
+    }
+    return suggestion;
+  }
+
   /**
-   * Identifies a customer based on email and/or phone number.
-   * It will find existing contacts, merge them if necessary, create new contacts,
-   * and return a consolidated view of the customer's identity.
-   * @param email The email address of the contact.
-   * @param phoneNumber The phone number of the contact.
-   * @returns A promise that resolves to the consolidated contact response.
+   * Restores, across all contacts of the tenant, the invariant that every
+   * live secondary is linked directly to a live primary. Chains of
+   * secondaries are flattened onto the primary they lead to. Secondaries
+   * whose chain breaks off, at a missing or deleted contact or in a cycle,
+   * are grouped by where it breaks: the primary selection strategy picks one
+   * of each group to promote and the others are linked to it, as deleting
+   * their primary would have done. Deleted contacts are left as they are.
+   * Every change is recorded as an event.
+   * The tenant is read and fixed in one serializable transaction, so this is
+   * best run while the tenant is quiet.
+   * @param context The tenant to repair.
+   * @param dryRun When true, only reports what would change.
+   * @returns A promise that resolves to the changes made, or to be made.
    */
-  public async identify(
+  public async repairLinks(
+    context: RequestContext,
+    dryRun = false
+  ): Promise<LinkRepairReport> {
+    return this.runTransaction(
+      context,
+      async (tx) => {
+        const contacts = await tx.contact.findMany({
+          where: { tenantId: context.tenantId },
+          select: {
+            id: true,
+            linkedId: true,
+            linkPrecedence: true,
+            deletedAt: true,
+            createdAt: true,
+            updatedAt: true,
+            emailVerifiedAt: true,
+            phoneNumberVerifiedAt: true,
+          },
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        });
+        const { promoted, relinked } = this.planLinkRepairs(contacts);
+
+        if (!dryRun) {
+          await this.applyLinkRepairs(tx, promoted, relinked);
+        }
+        return { dryRun, scannedContacts: contacts.length, promoted, relinked };
+      },
+      { timeout: REPAIR_TRANSACTION_TIMEOUT_MS }
+    );
+  }
+
+  /**
+   * Works out, in memory, the changes that link every live secondary
+   * directly to its primary.
+   */
+  private planLinkRepairs(contacts: LinkedContact[]): {
+    promoted: LinkRepair[];
+    relinked: LinkRepair[];
+  } {
+    const contactsById = new Map(contacts.map((c) => [c.id, c]));
+    const chainEnds = new Map<number, ChainEnd>();
+    const orphanGroups = new Map<number, LinkedContact[]>();
+    const relinked: LinkRepair[] = [];
+
+    for (const contact of contacts) {
+      if (contact.deletedAt || contact.linkPrecedence === "primary") {
+        continue;
+      }
+
+      const end = this.findChainEnd(contact, contactsById, chainEnds);
+      if ("primaryContactId" in end) {
+        if (contact.linkedId !== end.primaryContactId) {
+          relinked.push({
+            contactId: contact.id,
+            previousLinkedId: contact.linkedId,
+            linkedId: end.primaryContactId,
+          });
+        }
+      } else {
+        const group = orphanGroups.get(end.breakId) ?? [];
+        group.push(contact);
+        orphanGroups.set(end.breakId, group);
+      }
+    }
+
+    const promoted: LinkRepair[] = [];
+    for (const group of orphanGroups.values()) {
+      const successor = selectPrimary(this.primarySelection, group);
+      const others = group.filter((c) => c.id !== successor.id);
+      promoted.push({
+        contactId: successor.id,
+        previousLinkedId: successor.linkedId,
+        linkedId: null,
+      });
+      relinked.push(
+        ...others
+          .filter((c) => c.linkedId !== successor.id)
+          .map((c) => ({
+            contactId: c.id,
+            previousLinkedId: c.linkedId,
+            linkedId: successor.id,
+          }))
+      );
+    }
+
+    return { promoted, relinked };
+  }
+
+  /**
+   * Follows a secondary's links up to the live primary they lead to, passing
+   * through deleted secondaries. A chain breaks off at a null link, at a
+   * missing contact (which includes contacts of other tenants), at a deleted
+   * primary, or in a cycle, whose lowest id is used. Ends are cached for
+   * every contact on the way, so a whole tenant resolves in linear time.
+   */
+  private findChainEnd(
+    contact: LinkedContact,
+    contactsById: Map<number, LinkedContact>,
+    chainEnds: Map<number, ChainEnd>
+  ): ChainEnd {
+    const path: number[] = [];
+    const onPath = new Set<number>();
+    let current = contact;
+    let end: ChainEnd;
+
+    for (;;) {
+      const cached = chainEnds.get(current.id);
+      if (cached) {
+        end = cached;
+        break;
+      }
+      path.push(current.id);
+      onPath.add(current.id);
+
+      if (current.linkedId === null) {
+        end = { breakId: current.id };
+        break;
+      }
+      const parent = contactsById.get(current.linkedId);
+      if (!parent) {
+        end = { breakId: current.linkedId };
+        break;
+      }
+      if (parent.linkPrecedence === "primary") {
+        end = parent.deletedAt
+          ? { breakId: parent.id }
+          : { primaryContactId: parent.id };
+        break;
+      }
+      if (onPath.has(parent.id)) {
+        end = { breakId: Math.min(...path.slice(path.indexOf(parent.id))) };
+        break;
+      }
+      current = parent;
+    }
+
+    for (const id of path) {
+      chainEnds.set(id, end);
+    }
+    return end;
+  }
+
+  /**
+   * Persists the changes worked out by `planLinkRepairs`, recording an event
+   * for each.
+   */
+  private async applyLinkRepairs(
+    tx: Prisma.TransactionClient,
+    promoted: LinkRepair[],
+    relinked: LinkRepair[]
+  ): Promise<void> {
+    const payload: EventPayload = { operation: "repairLinks" };
+
+    if (promoted.length > 0) {
+      await tx.contact.updateMany({
+        where: { id: { in: promoted.map((r) => r.contactId) } },
+        data: { linkPrecedence: "primary", linkedId: null },
+      });
+    }
+    const relinkedByPrimary = new Map<number, number[]>();
+    for (const { contactId, linkedId } of relinked) {
+      const contactIds = relinkedByPrimary.get(linkedId!) ?? [];
+      contactIds.push(contactId);
+      relinkedByPrimary.set(linkedId!, contactIds);
+    }
+    for (const [primaryContactId, contactIds] of relinkedByPrimary) {
+      await tx.contact.updateMany({
+        where: { id: { in: contactIds } },
+        data: { linkPrecedence: "secondary", linkedId: primaryContactId },
+      });
+    }
+
+    await this.recordEvents(tx, [
+      ...promoted.map((r) => ({ ...r, type: "promoted" as const, payload })),
+      ...relinked.map((r) => ({ ...r, type: "relinked" as const, payload })),
+    ]);
+  }
+
+  /**
+   * Finds a contact by id, treating contacts of other tenants as missing.
+   */
+  private async findTenantContact(
+    tx: Prisma.TransactionClient,
+    context: RequestContext,
+    contactId: number
+  ): Promise<Contact | null> {
+    const contact = await tx.contact.findUnique({ where: { id: contactId } });
+    return contact?.tenantId === context.tenantId ? contact : null;
+  }
+
+  /**
+   * Resolves the identity of the given contacts read-only. If they belong to
+   * several not yet merged identities, the one whose primary `identify` would
+   * keep is returned.
+   */
+  private async lookupIdentity(contacts: Contact[]): Promise<IdentifyResponse> {
+    const rootContact = await this.findRootContact(prisma, contacts);
+    const allRelatedContacts = await this.getAllRelatedContacts(
+      prisma,
+      rootContact.id
+    );
+    return this.buildResponseFromContacts(
+      allRelatedContacts,
+      await this.loadTypedIdentifiers(prisma, allRelatedContacts)
+    );
+  }
+
+  /**
+   * Loads the typed identifiers of the given contacts, oldest first.
+   */
+  private async loadTypedIdentifiers(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[]
+  ): Promise<IdentifierRecord[]> {
+    if (this.identifierTypes.length === 0 || contacts.length === 0) {
+      return [];
+    }
+    return tx.contactIdentifier.findMany({
+      where: { contactId: { in: contacts.map((c) => c.id) } },
+      orderBy: { id: "asc" },
+    });
+  }
+
+  /**
+   * Finds the contact at the root of the identity the given contacts belong to
+   * without modifying anything: the primary they lead to, or the contact that
+   * would become primary if they lead to none or to several. Either way the
+   * primary selection strategy decides, as `/identify` would.
+   */
+  private async findRootContact(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[]
+  ): Promise<Contact> {
+    const primaryContacts = await this.findPrimaryContacts(tx, contacts);
+    return selectPrimary(
+      this.primarySelection,
+      primaryContacts.length > 0 ? primaryContacts : contacts
+    );
+  }
+
+  /**
+   * Checks whether at least one identifier survived normalization.
+   */
+  private hasIdentifiers(identifiers: ContactIdentifiers): boolean {
+    return Boolean(
+      identifiers.normalizedEmail ||
+        identifiers.normalizedPhoneNumber ||
+        identifiers.typedIdentifiers.length > 0
+    );
+  }
+
+  /**
+   * Normalizes the raw identifiers. An identifier with nothing left after
+   * normalization is treated as absent.
+   * @throws InvalidRequestError if an identifier type is not configured.
+   */
+  private normalizeIdentifiers(
+    context: RequestContext,
     email: string | null,
-    phoneNumber: string | null
+    phoneNumber: string | null,
+    identifierValues: IdentifierValues = {},
+    source: ContactSource | null = null
+  ): ContactIdentifiers {
+    const normalizedEmail = this.normalizer.normalizeEmail(email);
+    const normalizedPhoneNumber =
+      this.normalizer.normalizePhoneNumber(phoneNumber);
+
+    const typedIdentifiers: TypedIdentifier[] = [];
+    for (const [type, value] of Object.entries(identifierValues)) {
+      if (!this.identifierTypes.includes(type)) {
+        throw new InvalidRequestError(
+          `Unknown identifier type "${type}".`,
+          `identifiers.${type}`,
+          "unknown_identifier_type"
+        );
+      }
+      const normalizedValue = this.normalizer.normalizeIdentifier(value);
+      if (value !== null && normalizedValue) {
+        typedIdentifiers.push({ type, value, normalizedValue });
+      }
+    }
+
+    return {
+      tenantId: context.tenantId,
+      source,
+      email: normalizedEmail ? email : null,
+      phoneNumber: normalizedPhoneNumber ? phoneNumber : null,
+      normalizedEmail,
+      normalizedPhoneNumber,
+      typedIdentifiers,
+    };
+  }
+
+  /**
+   * The typed identifiers of a request as recorded in its event payload;
+   * left out when there are none, as for requests predating them.
+   */
+  private identifiersPayload(
+    identifierValues: IdentifierValues
+  ): EventPayload {
+    return Object.keys(identifierValues).length > 0
+      ? { identifiers: identifierValues }
+      : {};
+  }
+
+  /**
+   * The columns and typed identifier rows of a new contact.
+   */
+  private toContactData({
+    typedIdentifiers,
+    ...columns
+  }: ContactIdentifiers) {
+    return {
+      ...columns,
+      identifiers:
+        typedIdentifiers.length > 0 ? { create: typedIdentifiers } : undefined,
+    };
+  }
+
+  /**
+   * Performs the identity reconciliation using the given transaction client.
+   */
+  private async reconcile(
+    tx: Prisma.TransactionClient,
+    identifiers: ContactIdentifiers,
+    payload: EventPayload,
+    mergeMode: MergeMode = this.mergeMode
   ): Promise<IdentifyResponse> {
-    const matchingContacts = await this.findMatchingContacts(
-      email,
-      phoneNumber
-    );
+    await this.lockIdentifiers(tx, [identifiers]);
+
+    const matchingContacts = await this.findMatchingContacts(tx, identifiers);
 
     if (matchingContacts.length === 0) {
-      return this.createNewPrimaryContact(email, phoneNumber);
+      return this.createNewPrimaryContact(tx, identifiers, payload);
+    }
+
+    const allPrimaryContacts = await this.findPrimaryContacts(
+      tx,
+      matchingContacts
+    );
+    if (
+      allPrimaryContacts.length > 1 &&
+      (await this.shouldHoldMerge(
+        tx,
+        mergeMode,
+        matchingContacts,
+        allPrimaryContacts,
+        identifiers
+      ))
+    ) {
+      return this.suggestMerge(
+        tx,
+        identifiers.tenantId,
+        allPrimaryContacts,
+        payload
+      );
     }
 
-    const primaryContact = await this.resolvePrimaryContact(matchingContacts);
+    const primaryContact = await this.resolvePrimaryContact(
+      tx,
+      matchingContacts,
+      allPrimaryContacts,
+      payload
+    );
     const allRelatedContacts = await this.getAllRelatedContacts(
+      tx,
       primaryContact.id
     );
+    const typedIdentifiers = await this.loadTypedIdentifiers(
+      tx,
+      allRelatedContacts
+    );
 
     const shouldCreateSecondary = this.shouldCreateSecondaryContact(
       allRelatedContacts,
-      email,
-      phoneNumber
+      typedIdentifiers,
+      identifiers
     );
 
     if (shouldCreateSecondary) {
       const newSecondary = await this.createSecondaryContact(
-        email,
-        phoneNumber,
-        primaryContact.id
+        tx,
+        identifiers,
+        primaryContact.id,
+        payload
       );
       allRelatedContacts.push(newSecondary);
+      typedIdentifiers.push(
+        ...this.toIdentifierRecords(newSecondary, identifiers)
+      );
     }
 
-    return this.buildResponseFromContacts(allRelatedContacts);
+    return this.buildResponseFromContacts(allRelatedContacts, typedIdentifiers);
   }
 
   /**
-   * Finds all contacts that match the given email or phone number.
+   * Takes transaction-scoped advisory locks on the given identifiers so that
+   * concurrent requests for the same identifier of a tenant are serialized.
+   * Keys are locked in a stable order to avoid deadlocks.
+   */
+  private async lockIdentifiers(
+    tx: Prisma.TransactionClient,
+    identifiersList: ContactIdentifiers[]
+  ): Promise<void> {
+    const keys = [
+      ...new Set(
+        identifiersList.flatMap(
+          ({
+            tenantId,
+            normalizedEmail,
+            normalizedPhoneNumber,
+            typedIdentifiers,
+          }) => [
+            normalizedEmail ? `email:${tenantId}:${normalizedEmail}` : null,
+            normalizedPhoneNumber
+              ? `phone:${tenantId}:${normalizedPhoneNumber}`
+              : null,
+            ...typedIdentifiers.map(
+              ({ type, normalizedValue }) =>
+                `id:${type}:${tenantId}:${normalizedValue}`
+            ),
+          ]
+        )
+      ),
+    ]
+      .filter((key): key is string => key !== null)
+      .sort();
+
+    for (const key of keys) {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+    }
+  }
+
+  /**
+   * Finds all contacts of the tenant that match any of the given identifiers,
+   * comparing normalized values.
    */
   private async findMatchingContacts(
-    email: string | null,
-    phoneNumber: string | null
+    tx: Prisma.TransactionClient,
+    {
+      tenantId,
+      normalizedEmail,
+      normalizedPhoneNumber,
+      typedIdentifiers,
+    }: ContactIdentifiers
   ): Promise<Contact[]> {
-    return await prisma.contact.findMany({
+    return await tx.contact.findMany({
       where: {
-        OR: [email ? { email } : {}, phoneNumber ? { phoneNumber } : {}].filter(
-          (c) => Object.keys(c).length > 0
-        ),
+        tenantId,
+        deletedAt: null,
+        OR: [
+          ...(normalizedEmail ? [{ normalizedEmail }] : []),
+          ...(normalizedPhoneNumber ? [{ normalizedPhoneNumber }] : []),
+          ...typedIdentifiers.map(({ type, normalizedValue }) => ({
+            identifiers: { some: { type, normalizedValue } },
+          })),
+        ],
       },
     });
   }
@@ -68,137 +1909,457 @@ export class ContactService {
    * Creates a new primary contact for a completely new customer.
    */
   private async createNewPrimaryContact(
-    email: string | null,
-    phoneNumber: string | null
+    tx: Prisma.TransactionClient,
+    identifiers: ContactIdentifiers,
+    payload: EventPayload
   ): Promise<IdentifyResponse> {
-    const newContact = await prisma.contact.create({
+    const newContact = await tx.contact.create({
       data: {
-        email,
-        phoneNumber,
+        ...this.toContactData(identifiers),
         linkPrecedence: "primary",
       },
     });
-    return this.buildResponseFromContacts([newContact]);
+    await this.recordEvents(tx, [
+      {
+        contactId: newContact.id,
+        type: "created",
+        previousLinkedId: null,
+        linkedId: null,
+        payload,
+      },
+    ]);
+    await this.webhookService.enqueue(tx, identifiers.tenantId, "new_primary", {
+      primaryContactId: newContact.id,
+    });
+    return this.buildResponseFromContacts(
+      [newContact],
+      this.toIdentifierRecords(newContact, identifiers)
+    );
   }
 
   /**
-   * Resolves which contact should be the primary among matching contacts.
-   * Handles merging multiple primary contacts if necessary.
+   * The typed identifiers just stored with a new contact, as they would be
+   * loaded back.
    */
-  private async resolvePrimaryContact(
-    matchingContacts: Contact[]
-  ): Promise<Contact> {
-    const allPrimaryContactIds = await this.findAllPrimaryContactIds(
+  private toIdentifierRecords(
+    contact: Contact,
+    { typedIdentifiers }: ContactIdentifiers
+  ): IdentifierRecord[] {
+    return typedIdentifiers.map((identifier) => ({
+      contactId: contact.id,
+      ...identifier,
+    }));
+  }
+
+  /**
+   * Decides whether a request matching several identities must leave the
+   * merge to review instead of merging them.
+   */
+  private async shouldHoldMerge(
+    tx: Prisma.TransactionClient,
+    mergeMode: MergeMode,
+    matchingContacts: Contact[],
+    allPrimaryContacts: Contact[],
+    identifiers: ContactIdentifiers
+  ): Promise<boolean> {
+    switch (mergeMode) {
+      case "always":
+        return false;
+      case "review":
+        return true;
+      case "verified":
+        return !(await this.hasVerifiedMatches(
+          tx,
+          matchingContacts,
+          allPrimaryContacts,
+          identifiers
+        ));
+    }
+  }
+
+  /**
+   * Checks whether the request matched every one of the identities through
+   * an identifier verified in that identity, which lets it merge them in
+   * MERGE_MODE=verified. A verified match in one identity says nothing
+   * about the others: a customer's verified email sent along with someone
+   * else's phone number must not merge that someone into the customer.
+   */
+  private async hasVerifiedMatches(
+    tx: Prisma.TransactionClient,
+    matchingContacts: Contact[],
+    allPrimaryContacts: Contact[],
+    {
+      normalizedEmail,
+      normalizedPhoneNumber,
+      typedIdentifiers,
+    }: ContactIdentifiers
+  ): Promise<boolean> {
+    const verifiedContactIds = new Set(
+      matchingContacts
+        .filter(
+          (c) =>
+            (normalizedEmail !== null &&
+              c.normalizedEmail === normalizedEmail &&
+              c.emailVerifiedAt !== null) ||
+            (normalizedPhoneNumber !== null &&
+              c.normalizedPhoneNumber === normalizedPhoneNumber &&
+              c.phoneNumberVerifiedAt !== null)
+        )
+        .map((c) => c.id)
+    );
+    if (typedIdentifiers.length > 0) {
+      const verifiedIdentifiers = await tx.contactIdentifier.findMany({
+        where: {
+          contactId: { in: matchingContacts.map((c) => c.id) },
+          verifiedAt: { not: null },
+          OR: typedIdentifiers.map(({ type, normalizedValue }) => ({
+            type,
+            normalizedValue,
+          })),
+        },
+        select: { contactId: true },
+      });
+      verifiedIdentifiers.forEach((i) => verifiedContactIds.add(i.contactId));
+    }
+    if (verifiedContactIds.size === 0) {
+      return false;
+    }
+
+    const primaryIds = await this.findPrimaryIdsByContactId(
+      tx,
       matchingContacts
     );
-    const allPrimaryContacts = await this.fetchPrimaryContacts(
-      allPrimaryContactIds
+    const verifiedPrimaryIds = new Set(
+      [...verifiedContactIds].map((id) => primaryIds.get(id))
     );
+    return allPrimaryContacts.every((p) => verifiedPrimaryIds.has(p.id));
+  }
 
-    if (allPrimaryContacts.length === 0) {
-      return this.handleOrphanedSecondaries(matchingContacts);
-    }
+  /**
+   * Finds the live primary each of the given contacts leads to, as
+   * `findPrimaryContacts` does for all of them together. Contacts whose
+   * chain is broken off are left out.
+   */
+  private async findPrimaryIdsByContactId(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[]
+  ): Promise<Map<number, number>> {
+    const contactIds = contacts.map((c) => c.id);
 
-    if (allPrimaryContacts.length > 1) {
-      await this.mergePrimaryContacts(allPrimaryContacts);
+    const rows = await tx.$queryRaw<{ contactId: number; primaryId: number }[]>`
+      WITH RECURSIVE "chain" ("contactId", "id", "linkedId", "linkPrecedence") AS (
+        SELECT "id", "id", "linkedId", "linkPrecedence"
+        FROM "Contact"
+        WHERE "id" = ANY(${contactIds})
+        UNION
+        SELECT "chain"."contactId", "parent"."id", "parent"."linkedId", "parent"."linkPrecedence"
+        FROM "Contact" AS "parent"
+        JOIN "chain" ON "parent"."id" = "chain"."linkedId"
+        WHERE "chain"."linkPrecedence" = 'secondary'
+          AND "parent"."deletedAt" IS NULL
+      )
+      SELECT "chain"."contactId", "chain"."id" AS "primaryId"
+      FROM "chain"
+      JOIN "Contact" ON "Contact"."id" = "chain"."id"
+      WHERE "chain"."linkPrecedence" = 'primary'
+        AND "Contact"."deletedAt" IS NULL
+    `;
+    return new Map(rows.map((row) => [row.contactId, row.primaryId]));
+  }
+
+  /**
+   * Records a pending suggestion to merge the given identities, unless the
+   * same one is already pending or was rejected, and resolves the identity
+   * that a merge would keep. No contact is changed, so identifiers of the
+   * request that are new to the tenant are not stored either.
+   */
+  private async suggestMerge(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    allPrimaryContacts: Contact[],
+    payload: EventPayload
+  ): Promise<IdentifyResponse> {
+    const primaryContactIds = allPrimaryContacts
+      .map((p) => p.id)
+      .sort((a, b) => a - b);
+    const openSuggestion = await tx.mergeSuggestion.findFirst({
+      where: {
+        tenantId,
+        status: { in: ["pending", "rejected"] },
+        primaryContactIds: { equals: primaryContactIds },
+      },
+    });
+    if (!openSuggestion) {
+      await tx.mergeSuggestion.create({
+        data: { tenantId, primaryContactIds, payload },
+      });
     }
 
-    return allPrimaryContacts[0]; // Oldest primary
+    const primaryContact = selectPrimary(
+      this.primarySelection,
+      allPrimaryContacts
+    );
+    const allRelatedContacts = await this.getAllRelatedContacts(
+      tx,
+      primaryContact.id
+    );
+    return this.buildResponseFromContacts(
+      allRelatedContacts,
+      await this.loadTypedIdentifiers(tx, allRelatedContacts)
+    );
   }
 
   /**
-   * Finds all unique primary contact IDs by traversing up from secondary contacts.
+   * Resolves which contact should be the primary among matching contacts,
+   * given the primaries they lead to. Handles merging multiple primary
+   * contacts if necessary.
    */
-  private async findAllPrimaryContactIds(
-    matchingContacts: Contact[]
-  ): Promise<Set<number>> {
-    const allPrimaryContactIds = new Set<number>();
-    const contactsToTrace = [...matchingContacts];
-    const tracedIds = new Set<number>();
-
-    while (contactsToTrace.length > 0) {
-      const contact = contactsToTrace.pop()!;
-      if (tracedIds.has(contact.id)) continue;
-      tracedIds.add(contact.id);
+  private async resolvePrimaryContact(
+    tx: Prisma.TransactionClient,
+    matchingContacts: Contact[],
+    allPrimaryContacts: Contact[],
+    payload: EventPayload
+  ): Promise<Contact> {
+    if (allPrimaryContacts.length === 0) {
+      return this.handleOrphanedSecondaries(tx, matchingContacts, payload);
+    }
 
-      if (contact.linkPrecedence === "primary") {
-        allPrimaryContactIds.add(contact.id);
-      } else if (contact.linkedId) {
-        const parent = await prisma.contact.findUnique({
-          where: { id: contact.linkedId },
-        });
-        if (parent) {
-          contactsToTrace.push(parent);
-        }
-      }
+    const primaryContact = selectPrimary(
+      this.primarySelection,
+      allPrimaryContacts
+    );
+    if (allPrimaryContacts.length > 1) {
+      await this.mergePrimaryContacts(
+        tx,
+        primaryContact,
+        allPrimaryContacts,
+        payload
+      );
     }
 
-    return allPrimaryContactIds;
+    return primaryContact;
   }
 
   /**
-   * Fetches all primary contacts and orders them by creation date.
+   * Finds the primary contacts the given contacts lead to, oldest first.
+   * Chains of `linkedId` are followed up from secondaries in a single
+   * recursive query, however long they are; a deleted contact ends a chain.
+   * This and the other recursive queries join with UNION, which drops rows
+   * already visited, so that cyclic links cannot loop forever.
    */
-  private async fetchPrimaryContacts(
-    primaryContactIds: Set<number>
+  private async findPrimaryContacts(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[]
   ): Promise<Contact[]> {
-    return await prisma.contact.findMany({
-      where: { id: { in: Array.from(primaryContactIds) } },
-      orderBy: { createdAt: "asc" },
-    });
+    if (contacts.length === 0) {
+      return [];
+    }
+    const contactIds = contacts.map((c) => c.id);
+
+    return tx.$queryRaw<Contact[]>`
+      WITH RECURSIVE "chain" ("id", "linkedId", "linkPrecedence") AS (
+        SELECT "id", "linkedId", "linkPrecedence"
+        FROM "Contact"
+        WHERE "id" = ANY(${contactIds})
+        UNION
+        SELECT "parent"."id", "parent"."linkedId", "parent"."linkPrecedence"
+        FROM "Contact" AS "parent"
+        JOIN "chain" ON "parent"."id" = "chain"."linkedId"
+        WHERE "chain"."linkPrecedence" = 'secondary'
+          AND "parent"."deletedAt" IS NULL
+      )
+      SELECT "Contact".*
+      FROM "Contact"
+      WHERE "deletedAt" IS NULL
+        AND "id" IN (
+          SELECT "id" FROM "chain" WHERE "linkPrecedence" = 'primary'
+        )
+      ORDER BY "createdAt" ASC, "id" ASC
+    `;
   }
 
   /**
-   * Handles the case where all matching contacts are orphaned secondaries.
+   * Handles the case where all matching contacts are orphaned secondaries:
+   * the one the primary selection strategy picks becomes the primary, and the
+   * other matches and every contact below them are linked directly to it.
    */
   private async handleOrphanedSecondaries(
-    matchingContacts: Contact[]
+    tx: Prisma.TransactionClient,
+    matchingContacts: Contact[],
+    payload: EventPayload
   ): Promise<Contact> {
-    const oldestMatchedContact = [...matchingContacts].sort(
-      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
-    )[0];
+    const selectedContact = selectPrimary(
+      this.primarySelection,
+      matchingContacts
+    );
 
-    if (oldestMatchedContact.linkPrecedence !== "primary") {
-      return await prisma.contact.update({
-        where: { id: oldestMatchedContact.id },
+    let primaryContact = selectedContact;
+    const events: Prisma.ContactEventCreateManyInput[] = [];
+    if (selectedContact.linkPrecedence !== "primary") {
+      primaryContact = await tx.contact.update({
+        where: { id: selectedContact.id },
         data: { linkPrecedence: "primary", linkedId: null },
       });
+      events.push({
+        contactId: selectedContact.id,
+        type: "promoted",
+        previousLinkedId: selectedContact.linkedId,
+        linkedId: null,
+        payload,
+      });
     }
 
-    return oldestMatchedContact;
+    const descendants = await this.findDescendants(
+      tx,
+      matchingContacts.map((c) => c.id)
+    );
+    events.push(
+      ...(await this.linkDirectly(
+        tx,
+        [...matchingContacts, ...descendants.filter((c) => !c.deletedAt)],
+        selectedContact.id,
+        payload
+      ))
+    );
+    await this.recordEvents(tx, events);
+
+    return primaryContact;
   }
 
   /**
-   * Merges multiple primary contacts by demoting all but the oldest to secondary.
+   * Merges multiple primary contacts by demoting all but the selected one to
+   * secondary. Every contact below the demoted primaries, however deep, is
+   * linked directly to the selected one.
    */
   private async mergePrimaryContacts(
-    allPrimaryContacts: Contact[]
+    tx: Prisma.TransactionClient,
+    primaryContact: Contact,
+    allPrimaryContacts: Contact[],
+    payload: EventPayload
   ): Promise<void> {
-    const primaryContact = allPrimaryContacts[0]; // Oldest
-    const otherPrimaryIds = allPrimaryContacts.slice(1).map((p) => p.id);
+    const otherPrimaryIds = allPrimaryContacts
+      .filter((p) => p.id !== primaryContact.id)
+      .map((p) => p.id);
+    const descendants = await this.findDescendants(
+      tx,
+      allPrimaryContacts.map((p) => p.id)
+    );
 
-    await prisma.contact.updateMany({
-      where: {
-        OR: [
-          { id: { in: otherPrimaryIds } },
-          { linkedId: { in: otherPrimaryIds } },
-        ],
-      },
+    await tx.contact.updateMany({
+      where: { id: { in: otherPrimaryIds } },
       data: {
         linkedId: primaryContact.id,
         linkPrecedence: "secondary",
       },
     });
+    const relinkEvents = await this.linkDirectly(
+      tx,
+      descendants,
+      primaryContact.id,
+      payload
+    );
+
+    await this.recordEvents(tx, [
+      {
+        contactId: primaryContact.id,
+        type: "primary_merged",
+        previousLinkedId: null,
+        linkedId: null,
+        payload,
+      },
+      ...otherPrimaryIds.map((id) => ({
+        contactId: id,
+        type: "demoted" as const,
+        previousLinkedId: null,
+        linkedId: primaryContact.id,
+        payload,
+      })),
+      ...relinkEvents,
+    ]);
+    await this.webhookService.enqueue(
+      tx,
+      primaryContact.tenantId,
+      "primaries_merged",
+      {
+        primaryContactId: primaryContact.id,
+        mergedPrimaryContactIds: otherPrimaryIds,
+      }
+    );
+  }
+
+  /**
+   * Finds every contact below the given contacts, however deep: the
+   * contacts linked to them, the contacts linked to those, and so on,
+   * oldest first. Deleted contacts are included and do not end a chain.
+   */
+  private async findDescendants(
+    tx: Prisma.TransactionClient,
+    ancestorIds: number[]
+  ): Promise<Contact[]> {
+    return tx.$queryRaw<Contact[]>`
+      WITH RECURSIVE "descendants" ("id") AS (
+        SELECT "id"
+        FROM "Contact"
+        WHERE "linkedId" = ANY(${ancestorIds})
+        UNION
+        SELECT "child"."id"
+        FROM "Contact" AS "child"
+        JOIN "descendants" ON "child"."linkedId" = "descendants"."id"
+      )
+      SELECT "Contact".*
+      FROM "Contact"
+      WHERE "id" IN (SELECT "id" FROM "descendants")
+        AND NOT ("id" = ANY(${ancestorIds}))
+      ORDER BY "createdAt" ASC, "id" ASC
+    `;
+  }
+
+  /**
+   * Links contacts directly to a primary as its secondaries, leaving alone
+   * those already linked to it.
+   * @returns The relinked events to record for the contacts that changed.
+   */
+  private async linkDirectly(
+    tx: Prisma.TransactionClient,
+    contacts: Contact[],
+    primaryContactId: number,
+    payload: EventPayload
+  ): Promise<Prisma.ContactEventCreateManyInput[]> {
+    const relinked = contacts.filter(
+      (c) =>
+        c.id !== primaryContactId &&
+        (c.linkPrecedence !== "secondary" || c.linkedId !== primaryContactId)
+    );
+    if (relinked.length === 0) {
+      return [];
+    }
+
+    await tx.contact.updateMany({
+      where: { id: { in: relinked.map((c) => c.id) } },
+      data: { linkedId: primaryContactId, linkPrecedence: "secondary" },
+    });
+    return relinked.map((c) => ({
+      contactId: c.id,
+      type: "relinked" as const,
+      previousLinkedId: c.linkedId,
+      linkedId: primaryContactId,
+      payload,
+    }));
   }
 
   /**
-   * Gets all contacts related to a primary contact.
+   * Gets all contacts related to a primary contact, excluding deleted ones.
+   * Only the primary's direct secondaries are fetched: every write links
+   * secondaries straight to their primary, and `repairLinks` flattens any
+   * deeper chains left from before.
    */
   private async getAllRelatedContacts(
+    tx: Prisma.TransactionClient,
     primaryContactId: number
   ): Promise<Contact[]> {
-    return await prisma.contact.findMany({
+    return await tx.contact.findMany({
       where: {
+        deletedAt: null,
         OR: [{ id: primaryContactId }, { linkedId: primaryContactId }],
       },
     });
@@ -209,46 +2370,117 @@ export class ContactService {
    */
   private shouldCreateSecondaryContact(
     allRelatedContacts: Contact[],
-    email: string | null,
-    phoneNumber: string | null
+    clusterIdentifiers: IdentifierRecord[],
+    { normalizedEmail, normalizedPhoneNumber, typedIdentifiers }: ContactIdentifiers
   ): boolean {
     const allEmails = new Set(
-      allRelatedContacts.map((c) => c.email).filter(Boolean) as string[]
+      allRelatedContacts.map((c) => c.normalizedEmail).filter(Boolean) as string[]
     );
     const allPhones = new Set(
-      allRelatedContacts.map((c) => c.phoneNumber).filter(Boolean) as string[]
+      allRelatedContacts
+        .map((c) => c.normalizedPhoneNumber)
+        .filter(Boolean) as string[]
     );
 
-    const isNewEmail = email && !allEmails.has(email);
-    const isNewPhone = phoneNumber && !allPhones.has(phoneNumber);
+    const isNewEmail = normalizedEmail && !allEmails.has(normalizedEmail);
+    const isNewPhone =
+      normalizedPhoneNumber && !allPhones.has(normalizedPhoneNumber);
+
+    const knownTypedIdentifiers = new Set(
+      clusterIdentifiers.map(
+        ({ type, normalizedValue }) => `${type}:${normalizedValue}`
+      )
+    );
+    const hasNewTypedIdentifier = typedIdentifiers.some(
+      ({ type, normalizedValue }) =>
+        !knownTypedIdentifiers.has(`${type}:${normalizedValue}`)
+    );
 
-    return Boolean(isNewEmail || isNewPhone);
+    return Boolean(isNewEmail || isNewPhone || hasNewTypedIdentifier);
   }
 
   /**
-   * Creates a new secondary contact.
+   * Ensures the identity may gain another secondary contact under the
+   * cluster limit. Deleted contacts count too, as they were written all the same.
+   * @throws LimitExceededError if the limit has been reached.
    */
-  private async createSecondaryContact(
-    email: string | null,
-    phoneNumber: string | null,
+  private async checkClusterLimit(
+    tx: Prisma.TransactionClient,
     primaryContactId: number
+  ): Promise<void> {
+    const { maxSecondaries, windowMs } = this.clusterLimit;
+    if (maxSecondaries <= 0) {
+      return;
+    }
+
+    const where = {
+      linkedId: primaryContactId,
+      createdAt: { gte: new Date(Date.now() - windowMs) },
+    };
+    const recentSecondaries = await tx.contact.count({ where });
+    if (recentSecondaries >= maxSecondaries) {
+      // Another secondary is allowed once the oldest one counted leaves the window
+      const oldestCounted = await tx.contact.findFirst({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: maxSecondaries - 1,
+        select: { createdAt: true },
+      });
+      const retryAt =
+        (oldestCounted?.createdAt.getTime() ?? Date.now()) + windowMs;
+      throw new LimitExceededError(
+        "This identity has gained too many contacts recently; try again later.",
+        Math.max(1, Math.ceil((retryAt - Date.now()) / 1000))
+      );
+    }
+  }
+
+  /**
+   * Creates a new secondary contact, within the cluster limit.
+   */
+  private async createSecondaryContact(
+    tx: Prisma.TransactionClient,
+    identifiers: ContactIdentifiers,
+    primaryContactId: number,
+    payload: EventPayload
   ): Promise<Contact> {
-    return await prisma.contact.create({
+    await this.checkClusterLimit(tx, primaryContactId);
+
+    const newContact = await tx.contact.create({
       data: {
-        email,
-        phoneNumber,
+        ...this.toContactData(identifiers),
         linkedId: primaryContactId,
         linkPrecedence: "secondary",
       },
     });
+    await this.recordEvents(tx, [
+      {
+        contactId: newContact.id,
+        type: "secondary_linked",
+        previousLinkedId: null,
+        linkedId: primaryContactId,
+        payload,
+      },
+    ]);
+    await this.webhookService.enqueue(
+      tx,
+      identifiers.tenantId,
+      "secondary_linked",
+      { primaryContactId, contactId: newContact.id }
+    );
+    return newContact;
   }
   /**
    * Builds the final consolidated contact response object from a list of related contacts.
    * @param contacts An array of all contacts belonging to a single identity (one primary and its secondaries).
+   * @param typedIdentifiers Typed identifiers of these contacts; those of other contacts are ignored.
    * @returns The consolidated contact response.
    * @throws Will throw an error if the input array is empty.
    */
-  private buildResponseFromContacts(contacts: Contact[]): IdentifyResponse {
+  private buildResponseFromContacts(
+    contacts: Contact[],
+    typedIdentifiers: IdentifierRecord[] = []
+  ): IdentifyResponse {
     if (contacts.length === 0) {
       // This case should ideally not be hit if called correctly
       throw new Error("Cannot build response from empty contacts array");
@@ -256,9 +2488,7 @@ export class ContactService {
 
     const primaryContact =
       contacts.find((c) => c.linkPrecedence === "primary") ||
-      [...contacts].sort(
-        (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
-      )[0];
+      selectPrimary(this.primarySelection, contacts);
 
     const emails: string[] = [];
     const phoneNumbers: string[] = [];
@@ -291,12 +2521,27 @@ export class ContactService {
       .map((c) => c.id)
       .filter((id) => id !== primaryContact.id);
 
+    // Typed identifiers follow the same order: the primary contact's first
+    const identifiers: Record<string, string[]> = {};
+    [primaryContact, ...secondaryContacts].forEach((contact) => {
+      typedIdentifiers
+        .filter((identifier) => identifier.contactId === contact.id)
+        .forEach(({ type, value }) => {
+          identifiers[type] ??= [];
+          if (!identifiers[type].includes(value)) {
+            identifiers[type].push(value);
+          }
+        });
+    });
+
     return {
       contact: {
         primaryContactId: primaryContact.id,
         emails: emails,
         phoneNumbers: phoneNumbers,
         secondaryContactIds: secondaryContactIds,
+        // Only present when used, so responses stay as they were otherwise
+        ...(Object.keys(identifiers).length > 0 && { identifiers }),
       },
     };
   }
@@ -0,0 +1,180 @@
+import { PrismaClient, Prisma, DuplicateCandidate } from "@prisma/client";
+import {
+  blockingKeys,
+  IdentityFingerprint,
+  scoreIdentityPair,
+} from "../duplicates/duplicateScoring";
+import { DuplicateScanReport } from "../types/duplicates";
+import { RequestContext } from "../types/context";
+
+const prisma = new PrismaClient();
+
+/** Pairs scoring below this are not worth a reviewer's time. */
+export const DEFAULT_MIN_SCORE = 0.7;
+
+// Keys shared by more identities than this, such as "info@" local parts,
+// would mean comparing every pair of them while telling little
+const DEFAULT_MAX_BLOCK_SIZE = 1000;
+
+// Storing the candidates of a large tenant takes longer than the default
+const STORE_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Finds identities that are probably the same customer although they share
+ * no identifier, e.g. because of a typo in an email, and keeps them as
+ * ranked candidates for someone to review. Never merges anything.
+ */
+export class DuplicateService {
+  constructor(private readonly maxBlockSize = DEFAULT_MAX_BLOCK_SIZE) {}
+
+  /**
+   * Scores the pairs of the tenant's identities that share a blocking key
+   * and replaces the tenant's stored candidates with the pairs scoring at
+   * least `minScore`. Meant to run offline, as it reads every live contact
+   * of the tenant.
+   * @param context The tenant to scan.
+   * @param minScore The lowest score of a stored candidate, from 0 to 1.
+   * @returns A promise that resolves to the counts of the scan.
+   */
+  public async findDuplicates(
+    context: RequestContext,
+    minScore = DEFAULT_MIN_SCORE
+  ): Promise<DuplicateScanReport> {
+    const { tenantId } = context;
+    const identities = await this.loadFingerprints(tenantId);
+
+    const blocks = new Map<string, IdentityFingerprint[]>();
+    for (const identity of identities) {
+      for (const key of blockingKeys(identity)) {
+        const block = blocks.get(key) ?? [];
+        block.push(identity);
+        blocks.set(key, block);
+      }
+    }
+
+    const comparedPairs = new Set<string>();
+    const candidates: Prisma.DuplicateCandidateCreateManyInput[] = [];
+    let skippedKeys = 0;
+    for (const block of blocks.values()) {
+      if (block.length > this.maxBlockSize) {
+        skippedKeys++;
+        continue;
+      }
+      for (const [index, a] of block.entries()) {
+        for (const b of block.slice(index + 1)) {
+          const primaryContactIds = [
+            a.primaryContactId,
+            b.primaryContactId,
+          ].sort((x, y) => x - y);
+          const pairKey = primaryContactIds.join(":");
+          if (comparedPairs.has(pairKey)) continue;
+          comparedPairs.add(pairKey);
+
+          const score = scoreIdentityPair(a, b);
+          if (score.score >= minScore) {
+            candidates.push({ tenantId, primaryContactIds, ...score });
+          }
+        }
+      }
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.duplicateCandidate.deleteMany({ where: { tenantId } });
+        await tx.duplicateCandidate.createMany({ data: candidates });
+      },
+      { timeout: STORE_TRANSACTION_TIMEOUT_MS }
+    );
+
+    return {
+      tenantId,
+      scannedAt: new Date(),
+      identities: identities.length,
+      comparedPairs: comparedPairs.size,
+      skippedKeys,
+      candidates: candidates.length,
+    };
+  }
+
+  /**
+   * Lists the tenant's stored candidates, most likely duplicates first.
+   * Pairs that have since been merged into one identity, or of which a
+   * contact has been deleted, are left out.
+   * @param context The request's tenant.
+   * @param minScore The lowest score to list.
+   * @param take The maximum number of candidates to return.
+   * @returns A promise that resolves to the candidates of the last scan.
+   */
+  public async listCandidates(
+    context: RequestContext,
+    minScore: number,
+    take: number
+  ): Promise<DuplicateCandidate[]> {
+    // Secondaries are linked directly to their primary, so each contact's
+    // primary is itself or the contact it is linked to
+    return prisma.$queryRaw<DuplicateCandidate[]>`
+      SELECT "candidate".*
+      FROM "DuplicateCandidate" AS "candidate"
+      JOIN "Contact" AS "a" ON "a"."id" = "candidate"."primaryContactIds"[1]
+      JOIN "Contact" AS "b" ON "b"."id" = "candidate"."primaryContactIds"[2]
+      WHERE "candidate"."tenantId" = ${context.tenantId}
+        AND "candidate"."score" >= ${minScore}
+        AND "a"."deletedAt" IS NULL
+        AND "b"."deletedAt" IS NULL
+        AND CASE WHEN "a"."linkPrecedence" = 'primary' THEN "a"."id" ELSE "a"."linkedId" END
+          IS DISTINCT FROM
+            CASE WHEN "b"."linkPrecedence" = 'primary' THEN "b"."id" ELSE "b"."linkedId" END
+      ORDER BY "candidate"."score" DESC, "candidate"."id" ASC
+      LIMIT ${take}
+    `;
+  }
+
+  /**
+   * Collects the normalized emails and phone numbers of every live identity
+   * of the tenant, relying on secondaries being linked directly to their
+   * primary.
+   */
+  private async loadFingerprints(
+    tenantId: string
+  ): Promise<IdentityFingerprint[]> {
+    const contacts = await prisma.contact.findMany({
+      where: { tenantId, deletedAt: null },
+      select: {
+        id: true,
+        linkedId: true,
+        linkPrecedence: true,
+        normalizedEmail: true,
+        normalizedPhoneNumber: true,
+      },
+      orderBy: { id: "asc" },
+    });
+
+    const identities = new Map<
+      number,
+      { emails: Set<string>; phoneNumbers: Set<string> }
+    >();
+    for (const contact of contacts) {
+      const primaryContactId =
+        contact.linkPrecedence === "primary" ? contact.id : contact.linkedId;
+      if (primaryContactId === null) continue;
+
+      const identity = identities.get(primaryContactId) ?? {
+        emails: new Set<string>(),
+        phoneNumbers: new Set<string>(),
+      };
+      if (contact.normalizedEmail) identity.emails.add(contact.normalizedEmail);
+      if (contact.normalizedPhoneNumber) {
+        identity.phoneNumbers.add(contact.normalizedPhoneNumber);
+      }
+      identities.set(primaryContactId, identity);
+    }
+
+    return [...identities.entries()].map(
+      ([primaryContactId, { emails, phoneNumbers }]) => ({
+        primaryContactId,
+        emails: [...emails],
+        phoneNumbers: [...phoneNumbers],
+      })
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  PrismaClient,
+  WebhookDelivery,
+  WebhookSubscription,
+} from "@prisma/client";
+import { config } from "../config";
+import { startPeriodicTask } from "../utils/periodicTask";
+import {
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "../utils/webhookSignature";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_BATCH_SIZE = 50;
+
+export interface WebhookDispatcherOptions {
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  timeoutMs: number;
+}
+
+type DueDelivery = WebhookDelivery & { subscription: WebhookSubscription };
+
+/**
+ * The delay before the next attempt of a delivery that has failed
+ * `attempts` times: exponential, from the base delay up to the maximum.
+ */
+export const retryDelayMs = (
+  attempts: number,
+  { backoffBaseMs, backoffMaxMs }: WebhookDispatcherOptions
+): number =>
+  Math.min(backoffBaseMs * 2 ** Math.max(attempts - 1, 0), backoffMaxMs);
+
+/**
+ * Sends the deliveries queued in the webhook outbox. Several dispatchers,
+ * e.g. one per instance of the service, may run side by side: each delivery
+ * is claimed before it is sent. A delivery is sent at least once, so
+ * subscribers should ignore events whose id they have already processed.
+ */
+export class WebhookDispatcher {
+  constructor(
+    private readonly options: WebhookDispatcherOptions = config.webhooks,
+    private readonly send: typeof fetch = fetch,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Attempts the deliveries that are due, oldest first.
+   * @param batchSize The most deliveries to attempt.
+   * @returns A promise that resolves to the number of deliveries attempted.
+   */
+  public async dispatchDue(batchSize = DEFAULT_BATCH_SIZE): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: "pending",
+        nextAttemptAt: { lte: new Date(this.now()) },
+      },
+      include: { subscription: true },
+      orderBy: { nextAttemptAt: "asc" },
+      take: batchSize,
+    });
+
+    let attempted = 0;
+    for (const delivery of due) {
+      if (await this.claim(delivery)) {
+        await this.attempt(delivery);
+        attempted++;
+      }
+    }
+    return attempted;
+  }
+
+  /**
+   * Dispatches due deliveries every `intervalMs` until the returned function
+   * is called.
+   */
+  public start(intervalMs: number): () => void {
+    return startPeriodicTask(
+      intervalMs,
+      () => this.dispatchDue(),
+      "Dispatching webhook deliveries failed"
+    );
+  }
+
+  /**
+   * Takes a delivery for this dispatcher by pushing its next attempt past
+   * the time the attempt may take. Fails if another dispatcher claimed it
+   * first. Should this process die while sending, the delivery is attempted
+   * again once the claim has run out.
+   */
+  private async claim(delivery: DueDelivery): Promise<boolean> {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: {
+        id: delivery.id,
+        status: "pending",
+        nextAttemptAt: delivery.nextAttemptAt,
+      },
+      data: {
+        nextAttemptAt: new Date(this.now() + 2 * this.options.timeoutMs),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Sends a delivery and records the outcome: delivered on any 2xx response,
+   * otherwise retried later, or dead-lettered once out of attempts.
+   */
+  private async attempt(delivery: DueDelivery): Promise<void> {
+    const error = await this.post(delivery);
+    const attempts = delivery.attempts + 1;
+
+    if (error === null) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: "delivered",
+          attempts,
+          deliveredAt: new Date(this.now()),
+          lastError: null,
+        },
+      });
+    } else if (attempts >= this.options.maxAttempts) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: "dead", attempts, lastError: error },
+      });
+    } else {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          attempts,
+          lastError: error,
+          nextAttemptAt: new Date(
+            this.now() + retryDelayMs(attempts, this.options)
+          ),
+        },
+      });
+    }
+  }
+
+  /**
+   * POSTs the signed event to the subscriber.
+   * @returns A promise that resolves to null on success, or a description of
+   * the failure.
+   */
+  private async post({
+    id,
+    eventType,
+    payload,
+    subscription,
+  }: DueDelivery): Promise<string | null> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(this.now() / 1000);
+
+    try {
+      const response = await this.send(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Webhook-Id": String(id),
+          "Webhook-Event": eventType,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            subscription.secret,
+            body,
+            timestamp
+          ),
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      // The response body is not used; release the connection
+      await response.body?.cancel();
+      return response.ok ? null : `HTTP ${response.status}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  PrismaClient,
+  Prisma,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription,
+} from "@prisma/client";
+import { randomBytes, randomUUID } from "crypto";
+import { RequestContext } from "../types/context";
+import {
+  CreatedWebhookSubscription,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookSubscriptionSummary,
+} from "../types/webhooks";
+
+const prisma = new PrismaClient();
+
+const SECRET_PREFIX = "whsec_";
+// The dead-letter view shows the most recent failures only
+const DEAD_LETTER_LIMIT = 100;
+
+const toSummary = ({
+  secret,
+  ...summary
+}: WebhookSubscription): WebhookSubscriptionSummary => summary;
+
+export class WebhookService {
+  /**
+   * Subscribes an endpoint to identity changes of the request's tenant.
+   * @param context The request's tenant.
+   * @param url The endpoint the events are POSTed to.
+   * @param events The event types to send.
+   * @returns A promise that resolves to the subscription and the secret its
+   * deliveries are signed with.
+   */
+  public async subscribe(
+    context: RequestContext,
+    url: string,
+    events: WebhookEventType[]
+  ): Promise<CreatedWebhookSubscription> {
+    const secret = SECRET_PREFIX + randomBytes(24).toString("base64url");
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        tenantId: context.tenantId,
+        url,
+        secret,
+        events: [...new Set(events)],
+      },
+    });
+    return { subscription: toSummary(subscription), secret };
+  }
+
+  /**
+   * Lists the webhook subscriptions of the request's tenant, oldest first.
+   */
+  public async listSubscriptions(
+    context: RequestContext
+  ): Promise<WebhookSubscriptionSummary[]> {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { tenantId: context.tenantId },
+      orderBy: { id: "asc" },
+    });
+    return subscriptions.map(toSummary);
+  }
+
+  /**
+   * Deletes a webhook subscription along with its deliveries, sent or not.
+   * @param context The request's tenant.
+   * @param id The id of the subscription.
+   * @returns A promise that resolves to the deleted subscription, or null if
+   * the tenant has no such subscription.
+   */
+  public async unsubscribe(
+    context: RequestContext,
+    id: number
+  ): Promise<WebhookSubscriptionSummary | null> {
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: { id, tenantId: context.tenantId },
+    });
+    if (!subscription) {
+      return null;
+    }
+
+    await prisma.webhookSubscription.delete({ where: { id } });
+    return toSummary(subscription);
+  }
+
+  /**
+   * Lists the deliveries of the request's tenant that were given up after
+   * failing too often, most recent first.
+   */
+  public async listDeadLetters(
+    context: RequestContext
+  ): Promise<WebhookDelivery[]> {
+    return prisma.webhookDelivery.findMany({
+      where: { status: "dead", subscription: { tenantId: context.tenantId } },
+      orderBy: { id: "desc" },
+      take: DEAD_LETTER_LIMIT,
+    });
+  }
+
+  /**
+   * Queues a dead-lettered delivery again, with a fresh set of attempts.
+   * @param context The request's tenant.
+   * @param id The id of the delivery.
+   * @returns A promise that resolves to the queued delivery, or null if the
+   * tenant has no such dead delivery.
+   */
+  public async retryDelivery(
+    context: RequestContext,
+    id: number
+  ): Promise<WebhookDelivery | null> {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: {
+        id,
+        status: "dead",
+        subscription: { tenantId: context.tenantId },
+      },
+      data: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+    });
+    if (count === 0) {
+      return null;
+    }
+    return prisma.webhookDelivery.findUnique({ where: { id } });
+  }
+
+  /**
+   * Queues an event for every subscription of the tenant that wants it. Runs
+   * in the transaction of the change the event reports, so that events are
+   * queued exactly when the change is committed.
+   * @param tx The transaction making the change.
+   * @param tenantId The tenant whose identities changed.
+   * @param type The kind of change.
+   * @param data The contacts involved.
+   */
+  public async enqueue(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    type: WebhookEventType,
+    data: WebhookEventData
+  ): Promise<void> {
+    const subscriptions = await tx.webhookSubscription.findMany({
+      where: { tenantId, events: { has: type } },
+      select: { id: true },
+    });
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const event: WebhookEvent = {
+      id: randomUUID(),
+      type,
+      tenantId,
+      occurredAt: new Date().toISOString(),
+      data,
+    };
+    await tx.webhookDelivery.createMany({
+      data: subscriptions.map(({ id }) => ({
+        subscriptionId: id,
+        eventType: type,
+        payload: event as unknown as Prisma.InputJsonObject,
+      })),
+    });
+  }
+}
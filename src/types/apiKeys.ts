@@ -0,0 +1,21 @@
+import { ApiKey } from "@prisma/client";
+
+/**
+ * An API key as shown to operators, without its hash.
+ */
+export type ApiKeySummary = Omit<ApiKey, "hashedKey">;
+
+/**
+ * The tenants a new key may act for: the one it is bound to, or any tenant
+ * chosen per request. A key given neither acts for the default tenant.
+ */
+export interface ApiKeyTenancy {
+  tenantId?: string | null;
+  anyTenant?: boolean;
+}
+
+export interface IssuedApiKey {
+  apiKey: ApiKeySummary;
+  /** The plain key. It is not stored and cannot be shown again. */
+  key: string;
+}
@@ -0,0 +1,43 @@
+/**
+ * Contacts breaking one rule of the identity graph. `contactIds` lists the
+ * lowest ids only, up to the report's limit, while `count` covers them all.
+ */
+export interface ConsistencyViolation {
+  count: number;
+  contactIds: number[];
+}
+
+/**
+ * Groups of contacts that together break one rule, such as identities that
+ * share an identifier. Like `contactIds`, `groups` is cut off at the limit.
+ */
+export interface ConsistencyGroupViolation {
+  count: number;
+  groups: number[][];
+}
+
+export interface ConsistencyReport {
+  tenantId: string;
+  checkedAt: Date;
+  /** True when no check found anything. */
+  consistent: boolean;
+  totals: {
+    contacts: number;
+    primaries: number;
+    secondaries: number;
+    deleted: number;
+  };
+  /** Live secondaries linked to another secondary instead of a primary. */
+  chainedSecondaries: ConsistencyViolation;
+  /**
+   * Live secondaries linked to nothing, or to a missing or deleted contact,
+   * or to a contact of another tenant.
+   */
+  danglingLinks: ConsistencyViolation;
+  /** Primaries that still have a `linkedId`. */
+  linkedPrimaries: ConsistencyViolation;
+  /** The primaries of identities sharing an identifier, which should have merged. */
+  unmergedIdentities: ConsistencyGroupViolation;
+  /** Live contacts with exactly the same identifiers. */
+  duplicateContacts: ConsistencyGroupViolation;
+}
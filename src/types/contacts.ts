@@ -0,0 +1,73 @@
+import { ContactEvent, MergeSuggestion } from "@prisma/client";
+import { IdentifierValues, IdentifyResponse } from "./identify";
+
+/**
+ * How contacts are removed: "soft" only marks them as deleted, while "erase"
+ * also scrubs their personal data, leaving an auditable tombstone row.
+ */
+export type DeletionMode = "soft" | "erase";
+
+/**
+ * When `/identify` may merge two existing identities: "always", only when an
+ * identifier of the request is "verified" on a contact it matched, or only
+ * after "review" of a merge suggestion.
+ */
+export type MergeMode = "always" | "verified" | "review";
+
+export interface VerificationRequest {
+  email?: string | null;
+  phoneNumber?: string | number | null;
+  identifiers?: IdentifierValues | null;
+}
+
+export interface VerificationResponse {
+  /** Every live contact carrying a verified identifier of the request. */
+  verifiedContactIds: number[];
+}
+
+export interface MergeSuggestionApproval {
+  mergeSuggestion: MergeSuggestion;
+  /** The identity after the merge. */
+  identity: IdentifyResponse;
+}
+
+export interface DeletionResponse {
+  mode: DeletionMode;
+  deletedContactIds: number[];
+  promotedContactId: number | null;
+}
+
+export interface SplitRequest {
+  contactIds: number[];
+  dryRun?: boolean;
+}
+
+export interface SplitResponse {
+  dryRun: boolean;
+  remaining: IdentifyResponse;
+  detached: IdentifyResponse;
+}
+
+export interface ContactHistoryResponse {
+  primaryContactId: number;
+  events: ContactEvent[];
+}
+
+/**
+ * A change of the contact a secondary is linked to, or of a secondary into
+ * a primary, made by a links repair.
+ */
+export interface LinkRepair {
+  contactId: number;
+  previousLinkedId: number | null;
+  linkedId: number | null;
+}
+
+export interface LinkRepairReport {
+  dryRun: boolean;
+  scannedContacts: number;
+  /** Orphaned secondaries made the primary of their orphaned group. */
+  promoted: LinkRepair[];
+  /** Secondaries linked directly to their primary. */
+  relinked: LinkRepair[];
+}
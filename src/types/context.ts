@@ -0,0 +1,12 @@
+/**
+ * Per-request information that ContactService operations are scoped by.
+ */
+export interface RequestContext {
+  /** The tenant whose identity graph the request reads and writes. */
+  tenantId: string;
+  /**
+   * Correlates the log lines of one HTTP request; absent outside requests,
+   * e.g. in scripts.
+   */
+  requestId?: string;
+}
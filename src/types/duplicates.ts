@@ -0,0 +1,12 @@
+export interface DuplicateScanReport {
+  tenantId: string;
+  scannedAt: Date;
+  /** Live identities of the tenant that were considered. */
+  identities: number;
+  /** Pairs of identities that shared a blocking key and were scored. */
+  comparedPairs: number;
+  /** Blocking keys left out for being shared by too many identities. */
+  skippedKeys: number;
+  /** Pairs that scored at least the minimum and were stored. */
+  candidates: number;
+}
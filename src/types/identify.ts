@@ -1,6 +1,17 @@
+import { ContactSource, LinkPrecedence } from "@prisma/client";
+import { ValidationErrorDetail } from "./validation";
+
+/**
+ * Values of the configured identifier types beyond email and phone number,
+ * keyed by type, e.g. `{ loyaltyCard: "LC-0042" }`.
+ */
+export type IdentifierValues = Record<string, string | null>;
+
 export interface IdentifyRequest {
   email?: string | null;
-  phoneNumber?: string | null;
+  phoneNumber?: string | number | null;
+  identifiers?: IdentifierValues | null;
+  source?: ContactSource | null;
 }
 
 export interface IdentifyResponse {
@@ -9,5 +20,60 @@ export interface IdentifyResponse {
     emails: string[];
     phoneNumbers: string[];
     secondaryContactIds: number[];
+    /** Present only when the identity has identifiers of other types. */
+    identifiers?: Record<string, string[]>;
+  };
+}
+
+/**
+ * One contact behind an identity, as stored: the identifiers it came with,
+ * where it sits in the identity, and when it was created.
+ */
+export interface ContactDetail {
+  id: number;
+  email: string | null;
+  phoneNumber: string | null;
+  /** Present only when the contact has identifiers of other types. */
+  identifiers?: Record<string, string>;
+  linkPrecedence: LinkPrecedence;
+  linkedId: number | null;
+  source: ContactSource | null;
+  createdAt: Date;
+}
+
+/**
+ * When an email or phone number was first seen, and when a contact carrying
+ * it was last added: the creation times of the oldest and newest contacts
+ * carrying it. Requests that only repeat it add no contact, so they are not
+ * counted.
+ */
+export interface IdentifierSightings {
+  value: string;
+  firstSeenAt: Date;
+  lastAddedAt: Date;
+}
+
+/**
+ * The response of `?expand=contacts`: the usual consolidated identity, plus
+ * the contacts it consists of, primary first, and the sightings of its emails
+ * and phone numbers in the order of `emails` and `phoneNumbers`.
+ */
+export interface ExpandedIdentifyResponse {
+  contact: IdentifyResponse["contact"] & {
+    contacts: ContactDetail[];
+    emailSightings: IdentifierSightings[];
+    phoneNumberSightings: IdentifierSightings[];
   };
 }
+
+export type BatchIdentifyItemResult =
+  | ({ index: number; status: "ok" } & IdentifyResponse)
+  | {
+      index: number;
+      status: "error";
+      error: { message: string; errors?: ValidationErrorDetail[] };
+    };
+
+export interface BatchIdentifyResponse {
+  results: BatchIdentifyItemResult[];
+}
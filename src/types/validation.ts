@@ -0,0 +1,10 @@
+export interface ValidationErrorDetail {
+  field: string;
+  code: string;
+  message: string;
+}
+
+export interface ValidationErrorResponse {
+  message: string;
+  errors: ValidationErrorDetail[];
+}
@@ -0,0 +1,48 @@
+import {
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription,
+} from "@prisma/client";
+
+/**
+ * A webhook subscription as shown to clients, without its secret.
+ */
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, "secret">;
+
+export interface CreatedWebhookSubscription {
+  subscription: WebhookSubscriptionSummary;
+  /** The key of the signatures. It is only returned when subscribing. */
+  secret: string;
+}
+
+export interface WebhookSubscriptionRequest {
+  url: string;
+  events: WebhookEventType[];
+}
+
+/**
+ * What changed in an identity: `new_primary` carries only the new primary,
+ * `secondary_linked` the new secondary as `contactId`, and
+ * `primaries_merged` the primaries demoted into `primaryContactId`.
+ */
+export interface WebhookEventData {
+  primaryContactId: number;
+  contactId?: number;
+  mergedPrimaryContactIds?: number[];
+}
+
+/**
+ * The JSON body sent to subscribers. Every subscription notified of the same
+ * change receives the same event id.
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  tenantId: string;
+  occurredAt: string;
+  data: WebhookEventData;
+}
+
+export interface DeadLettersResponse {
+  deliveries: WebhookDelivery[];
+}
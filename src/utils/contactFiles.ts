@@ -0,0 +1,211 @@
+import { IdentifyResponse } from "../types/identify";
+
+export type ContactFileFormat = "csv" | "jsonl";
+
+/**
+ * A contact read from an import file. `rowNumber` counts data rows from 1,
+ * without the CSV header. Rows that cannot be read carry an `error` instead
+ * of identifiers.
+ */
+export interface ContactRow {
+  rowNumber: number;
+  email: string | null;
+  phoneNumber: string | null;
+  error?: string;
+}
+
+const EXPORT_COLUMNS = [
+  "primaryContactId",
+  "emails",
+  "phoneNumbers",
+  "secondaryContactIds",
+] as const;
+
+// Separator for list values inside a single CSV cell
+const LIST_SEPARATOR = ";";
+
+/**
+ * Picks the file format from a path's extension.
+ * @returns The format, or null if the extension is not recognised.
+ */
+export const detectFormat = (path: string): ContactFileFormat | null => {
+  const extension = path.toLowerCase().split(".").pop();
+  if (extension === "csv") return "csv";
+  if (extension === "jsonl" || extension === "ndjson") return "jsonl";
+  return null;
+};
+
+/**
+ * Splits CSV text into records of fields. Quoted fields may contain commas,
+ * escaped quotes ("") and line breaks. Blank lines are skipped.
+ */
+export async function* parseCsvRecords(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let pendingQuote = false;
+  let fieldStarted = false;
+
+  const endRecord = () => {
+    const completed = [...record, field];
+    record = [];
+    field = "";
+    fieldStarted = false;
+    return completed;
+  };
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+        fieldStarted = true;
+      } else if (char === ",") {
+        record.push(field);
+        field = "";
+        fieldStarted = true;
+      } else if (char === "\n") {
+        const completed = endRecord();
+        if (completed.length > 1 || completed[0] !== "") {
+          yield completed;
+        }
+      } else if (char !== "\r") {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    throw new Error("Unterminated quoted field at the end of the CSV input.");
+  }
+  if (fieldStarted || record.length > 0) {
+    yield endRecord();
+  }
+}
+
+async function* readCsvRows(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<ContactRow> {
+  let columns: { email: number; phoneNumber: number } | null = null;
+  let rowNumber = 0;
+
+  for await (const record of parseCsvRecords(chunks)) {
+    if (!columns) {
+      const header = record.map((name) => name.trim().toLowerCase());
+      columns = {
+        email: header.indexOf("email"),
+        phoneNumber: header.indexOf("phonenumber"),
+      };
+      if (columns.email === -1 && columns.phoneNumber === -1) {
+        throw new Error(
+          'CSV header must contain an "email" and/or a "phoneNumber" column.'
+        );
+      }
+      continue;
+    }
+
+    rowNumber++;
+    yield {
+      rowNumber,
+      email: record[columns.email]?.trim() || null,
+      phoneNumber: record[columns.phoneNumber]?.trim() || null,
+    };
+  }
+}
+
+async function* readJsonlRows(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<ContactRow> {
+  let rowNumber = 0;
+  let buffer = "";
+
+  const parseLine = (line: string): ContactRow => {
+    rowNumber++;
+    try {
+      const value = JSON.parse(line);
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        throw new Error("Expected a JSON object.");
+      }
+      return {
+        rowNumber,
+        email: value.email ? String(value.email) : null,
+        phoneNumber: value.phoneNumber ? String(value.phoneNumber) : null,
+      };
+    } catch (error) {
+      return {
+        rowNumber,
+        email: null,
+        phoneNumber: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) yield parseLine(line);
+    }
+  }
+  if (buffer.trim()) yield parseLine(buffer);
+}
+
+/**
+ * Reads contact rows from a CSV file with a header row or from a JSONL file
+ * with one `{ "email", "phoneNumber" }` object per line.
+ * @param chunks The file contents, e.g. a readable stream with utf8 encoding.
+ * @param format The file format.
+ */
+export const readContactRows = (
+  chunks: AsyncIterable<string>,
+  format: ContactFileFormat
+): AsyncGenerator<ContactRow> =>
+  format === "csv" ? readCsvRows(chunks) : readJsonlRows(chunks);
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * The CSV header row matching `formatIdentity`, including the line break.
+ */
+export const csvExportHeader = (): string => `${EXPORT_COLUMNS.join(",")}\n`;
+
+/**
+ * Serializes an identity as a single JSONL or CSV line, including the line
+ * break. In CSV, list values are joined with ";" within their cell.
+ */
+export const formatIdentity = (
+  identity: IdentifyResponse,
+  format: ContactFileFormat
+): string => {
+  if (format === "jsonl") {
+    return `${JSON.stringify(identity)}\n`;
+  }
+
+  const row = EXPORT_COLUMNS.map((column) => {
+    const value = identity.contact[column];
+    return escapeCsvField(
+      Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value)
+    );
+  });
+  return `${row.join(",")}\n`;
+};
@@ -0,0 +1,36 @@
+import { logger } from "../logging/logger";
+
+/**
+ * Runs `task` every `intervalMs` until the returned function is called. Each
+ * run is scheduled once the previous one has settled, so runs never overlap;
+ * failures are logged under `failureMessage` and do not end the schedule.
+ * The timer does not keep the process alive.
+ */
+export const startPeriodicTask = (
+  intervalMs: number,
+  task: () => Promise<unknown>,
+  failureMessage: string
+): (() => void) => {
+  let stopped = false;
+  let timer: NodeJS.Timeout;
+  const schedule = () => {
+    timer = setTimeout(tick, intervalMs);
+    timer.unref();
+  };
+  const tick = async () => {
+    try {
+      await task();
+    } catch (error) {
+      logger.error(failureMessage, { error });
+    }
+    if (!stopped) {
+      schedule();
+    }
+  };
+
+  schedule();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
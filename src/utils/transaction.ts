@@ -0,0 +1,72 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+
+/**
+ * Prisma error code raised when Postgres aborts a transaction because of a
+ * serialization failure or a deadlock (SQLSTATE 40001 / 40P01).
+ */
+const SERIALIZATION_FAILURE_CODE = "P2034";
+
+const DEFAULT_MAX_RETRIES = 8;
+const DEFAULT_BASE_DELAY_MS = 20;
+
+export interface SerializableTransactionOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  /** Maximum run time of one attempt in ms; Prisma's default is 5 seconds. */
+  timeout?: number;
+}
+
+/**
+ * Checks whether an error was caused by a serialization conflict between
+ * concurrent transactions, in which case the transaction can safely be retried.
+ */
+export const isSerializationFailure = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  if (code === SERIALIZATION_FAILURE_CODE) {
+    return true;
+  }
+
+  return (
+    typeof message === "string" &&
+    (message.includes("40001") || message.includes("40P01"))
+  );
+};
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs the given callback inside a serializable transaction, retrying it with
+ * jittered exponential backoff whenever Postgres reports a serialization failure.
+ * @param prisma The Prisma client used to open the transaction.
+ * @param fn The unit of work to run; it must only use the provided transaction client.
+ * @param options Retry tuning.
+ * @returns A promise that resolves to the callback's result.
+ */
+export const runSerializableTransaction = async <T>(
+  prisma: PrismaClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: SerializableTransactionOptions = {}
+): Promise<T> => {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, {
+        isolationLevel: "Serializable",
+        timeout: options.timeout,
+      });
+    } catch (error) {
+      if (!isSerializationFailure(error) || attempt >= maxRetries) {
+        throw error;
+      }
+      const backoff = baseDelayMs * 2 ** attempt;
+      await sleep(backoff + Math.random() * backoff);
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "Webhook-Signature";
+
+// Signatures older than this are rejected, so that captured requests cannot
+// be replayed later
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const hmac = (secret: string, body: string, timestamp: number): string =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/**
+ * Signs a webhook body. The signature covers the timestamp and the exact
+ * body sent, and has the form `t=<unix seconds>,v1=<hex HMAC-SHA256>`.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  body: string,
+  timestamp: number
+): string => `t=${timestamp},v1=${hmac(secret, body, timestamp)}`;
+
+/**
+ * Checks the `Webhook-Signature` header of a received webhook, as
+ * subscribers should before trusting its body.
+ * @param secret The secret returned when subscribing.
+ * @param body The raw request body, before any JSON parsing.
+ * @param header The value of the signature header.
+ * @returns Whether the signature matches and is recent enough.
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string | undefined,
+  now: number = Date.now(),
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS
+): boolean => {
+  const parts = new Map(
+    (header ?? "").split(",").map((part) => {
+      const [key, ...value] = part.split("=");
+      return [key.trim(), value.join("=")] as const;
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(hmac(secret, body, timestamp));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
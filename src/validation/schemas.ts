@@ -0,0 +1,310 @@
+/**
+ * JSON schemas of the API's requests. They are published as OpenAPI
+ * components (see `src/index.ts`), referenced from the route docs, and
+ * enforced by `validateRequest`, so the documentation and the validation
+ * cannot drift apart.
+ *
+ * Only OpenAPI 3.0 compatible keywords are used, except for the type list of
+ * `phoneNumber` in request bodies, which the original API accepted as a
+ * number as well. The `x-errors` extension replaces the generic error code
+ * and/or message reported when the keyword it is keyed by fails.
+ */
+
+import { config } from "../config";
+
+const EMAIL_MAX_LENGTH = 254;
+const PHONE_NUMBER_MAX_LENGTH = 32;
+const IDENTIFIER_MAX_LENGTH = 256;
+
+// Ids are Postgres int4 columns, so anything above 2147483647 must be
+// rejected here rather than reach Prisma. Written out digit by digit, as
+// OpenAPI 3.0 has no maximum for numbers sent as strings.
+const INT4_POSITIVE =
+  "[1-9][0-9]{0,8}|1[0-9]{9}|20[0-9]{8}|21[0-3][0-9]{7}|214[0-6][0-9]{6}|2147[0-3][0-9]{5}|21474[0-7][0-9]{4}|214748[0-2][0-9]{3}|2147483[0-5][0-9]{2}|21474836[0-3][0-9]|214748364[0-7]";
+const ID_PATTERN = `^(${INT4_POSITIVE})$`;
+const ID_MAX = 2147483647;
+
+const email = {
+  type: "string",
+  format: "email",
+  maxLength: EMAIL_MAX_LENGTH,
+  nullable: true,
+  description: "The email of the contact.",
+  example: "lorraine@hillvalley.edu",
+};
+
+const phoneNumber = {
+  type: ["string", "number"],
+  pattern: "^[0-9+()./\\s-]*$",
+  maxLength: PHONE_NUMBER_MAX_LENGTH,
+  nullable: true,
+  description:
+    "The phone number of the contact, as a number or as a string of digits, spaces and the characters + ( ) . / -",
+  example: "123456",
+  "x-errors": {
+    pattern: {
+      message:
+        "phoneNumber may only contain digits, spaces and the characters + ( ) . / -",
+    },
+  },
+};
+
+const identifiers = {
+  type: "object",
+  nullable: true,
+  properties: Object.fromEntries(
+    config.identifierTypes.map((type) => [
+      type,
+      { type: "string", maxLength: IDENTIFIER_MAX_LENGTH, nullable: true },
+    ])
+  ),
+  additionalProperties: false,
+  description:
+    "Further identifiers of the contact, keyed by type. The accepted types are set by IDENTIFIER_TYPES.",
+  example: { loyaltyCard: "LC-0042" },
+  "x-errors": {
+    additionalProperties: {
+      code: "unknown_identifier_type",
+      message: `identifiers may only contain the types: ${config.identifierTypes.join(", ")}.`,
+    },
+  },
+};
+
+const source = {
+  type: "string",
+  enum: ["checkout", "login", "support_agent"],
+  nullable: true,
+  description:
+    "Where the identifiers were seen; stored with the contacts the request creates.",
+  example: "checkout",
+};
+
+const contactId = {
+  type: "string",
+  pattern: ID_PATTERN,
+  description: "The id of any contact in the identity.",
+  "x-errors": {
+    pattern: {
+      message: `Contact id must be an integer from 1 to ${ID_MAX}.`,
+    },
+  },
+};
+
+const expand = {
+  type: "string",
+  enum: ["contacts"],
+  description:
+    "contacts adds the contacts behind the identity and when each email and phone number was first and last seen.",
+  "x-errors": {
+    enum: { message: "expand must be contacts." },
+  },
+};
+
+const webhookEvents = ["new_primary", "secondary_linked", "primaries_merged"];
+
+// Requires at least one identifier that is present and not null
+const requireIdentifier = (...extraBranches: object[]) => ({
+  anyOf: [
+    { required: ["email"], properties: { email: { type: "string" } } },
+    {
+      required: ["phoneNumber"],
+      properties: { phoneNumber: { type: ["string", "number"] } },
+    },
+    ...extraBranches,
+  ],
+  "x-errors": {
+    anyOf: {
+      code: "missing_identifier",
+      message: "Email or phone number must be provided.",
+    },
+  },
+});
+
+export const schemas = {
+  IdentifyRequest: {
+    type: "object",
+    properties: { email, phoneNumber, identifiers, source },
+    ...requireIdentifier({
+      required: ["identifiers"],
+      properties: { identifiers: { type: "object", minProperties: 1 } },
+    }),
+  },
+  IdentifyBatchRequest: {
+    type: "array",
+    minItems: 1,
+    description:
+      "IdentifyRequest items; invalid items are reported in their own result.",
+    "x-errors": {
+      type: { message: "Request body must be a non-empty array of contacts." },
+      minItems: {
+        message: "Request body must be a non-empty array of contacts.",
+      },
+    },
+  },
+  ContactLookupQuery: {
+    type: "object",
+    properties: {
+      email: { ...email, nullable: false },
+      phoneNumber: { ...phoneNumber, type: "string", nullable: false },
+      expand,
+    },
+    ...requireIdentifier(),
+  },
+  ExpandQuery: {
+    type: "object",
+    properties: { expand },
+  },
+  VerificationRequest: {
+    type: "object",
+    properties: { email, phoneNumber, identifiers },
+    ...requireIdentifier({
+      required: ["identifiers"],
+      properties: { identifiers: { type: "object", minProperties: 1 } },
+    }),
+  },
+  ContactIdParams: {
+    type: "object",
+    properties: { id: contactId },
+    required: ["id"],
+  },
+  DeletionQuery: {
+    type: "object",
+    properties: {
+      mode: {
+        type: "string",
+        enum: ["soft", "erase"],
+        default: "soft",
+        description:
+          "soft marks the contacts as deleted; erase also scrubs their email and phone number.",
+        "x-errors": {
+          enum: { message: "Deletion mode must be either soft or erase." },
+        },
+      },
+    },
+  },
+  SplitRequest: {
+    type: "object",
+    properties: {
+      contactIds: {
+        type: "array",
+        minItems: 1,
+        maxItems: 1000,
+        uniqueItems: true,
+        items: { type: "integer", minimum: 1, maximum: ID_MAX },
+        description: "The contacts to detach into a new identity.",
+        "x-errors": {
+          minItems: {
+            message: "contactIds must be a non-empty array of contact ids.",
+          },
+        },
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Preview the split without saving it.",
+      },
+    },
+    required: ["contactIds"],
+  },
+  WebhookSubscriptionRequest: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        pattern: "^https?://[^\\s]+$",
+        maxLength: 2048,
+        description: "The HTTP(S) endpoint events are POSTed to.",
+        example: "https://crm.example.com/hooks/identity",
+        "x-errors": {
+          pattern: { message: "url must be an http or https URL." },
+        },
+      },
+      events: {
+        type: "array",
+        minItems: 1,
+        uniqueItems: true,
+        items: { type: "string", enum: webhookEvents },
+        description: "The event types to send.",
+        example: ["primaries_merged"],
+      },
+    },
+    required: ["url", "events"],
+    additionalProperties: false,
+  },
+  MergeSuggestionQuery: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["pending", "approved", "rejected"],
+        default: "pending",
+        description: "The status of the suggestions to list.",
+        "x-errors": {
+          enum: {
+            message: "status must be one of pending, approved or rejected.",
+          },
+        },
+      },
+      after: {
+        type: "string",
+        pattern: `^(0|${INT4_POSITIVE})$`,
+        description:
+          "Only list suggestions with a greater id; pass the last id of the previous page.",
+        "x-errors": {
+          pattern: { message: `after must be an integer from 0 to ${ID_MAX}.` },
+        },
+      },
+    },
+  },
+  DuplicateCandidateQuery: {
+    type: "object",
+    properties: {
+      minScore: {
+        type: "string",
+        pattern: "^(0(\\.[0-9]+)?|1(\\.0+)?)$",
+        description: "Only list candidates scoring at least this, from 0 to 1.",
+        "x-errors": {
+          pattern: { message: "minScore must be a number from 0 to 1." },
+        },
+      },
+      limit: {
+        type: "string",
+        pattern: "^[1-9][0-9]{0,2}$",
+        default: "100",
+        description: "The maximum number of candidates to list, up to 999.",
+        "x-errors": {
+          pattern: { message: "limit must be an integer from 1 to 999." },
+        },
+      },
+    },
+  },
+  MergeSuggestionIdParams: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        pattern: ID_PATTERN,
+        description: "The id of the merge suggestion.",
+        "x-errors": {
+          pattern: { message: `Id must be an integer from 1 to ${ID_MAX}.` },
+        },
+      },
+    },
+    required: ["id"],
+  },
+  WebhookIdParams: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        pattern: ID_PATTERN,
+        description: "The id of the webhook subscription or delivery.",
+        "x-errors": {
+          pattern: { message: `Id must be an integer from 1 to ${ID_MAX}.` },
+        },
+      },
+    },
+    required: ["id"],
+  },
+};
+
+export type SchemaName = keyof typeof schemas;
@@ -0,0 +1,210 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { ErrorRequestHandler, RequestHandler } from "express";
+import { schemas, SchemaName } from "./schemas";
+import {
+  ValidationErrorDetail,
+  ValidationErrorResponse,
+} from "../types/validation";
+
+type RequestPart = "body" | "query" | "params";
+
+interface ErrorOverride {
+  code?: string;
+  message?: string;
+}
+
+// Surrounding whitespace is allowed, as it is trimmed by normalization
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ERROR_CODES: Record<string, string> = {
+  required: "required",
+  type: "invalid_type",
+  format: "invalid_format",
+  pattern: "invalid_format",
+  minLength: "too_short",
+  maxLength: "too_long",
+  enum: "invalid_value",
+  minimum: "out_of_range",
+  maximum: "out_of_range",
+  minItems: "too_few_items",
+  maxItems: "too_many_items",
+  uniqueItems: "duplicate_items",
+  additionalProperties: "unknown_property",
+};
+
+const ajv = new Ajv({ allErrors: true, verbose: true, allowUnionTypes: true });
+ajv.addVocabulary(["example", "x-errors"]);
+ajv.addFormat("email", (value: string) => EMAIL_PATTERN.test(value.trim()));
+
+const validators = new Map<SchemaName, ValidateFunction>();
+
+const getValidator = (schemaName: SchemaName): ValidateFunction => {
+  let validator = validators.get(schemaName);
+  if (!validator) {
+    validator = ajv.compile(schemas[schemaName]);
+    validators.set(schemaName, validator);
+  }
+  return validator;
+};
+
+const toField = (error: ErrorObject, rootField: string): string => {
+  const segments = error.instancePath.split("/").slice(1);
+  if (error.keyword === "required") {
+    segments.push(error.params.missingProperty);
+  }
+  if (error.keyword === "additionalProperties") {
+    segments.push(error.params.additionalProperty);
+  }
+  return segments.length > 0 ? segments.join(".") : rootField;
+};
+
+const defaultMessage = (error: ErrorObject, field: string): string => {
+  const { params } = error;
+  switch (error.keyword) {
+    case "required":
+      return `${field} is required.`;
+    case "type": {
+      // A nullable union is reported as e.g. "string,number,null"; null is
+      // left out, as it is for nullable values of a single type
+      const types = String(params.type)
+        .split(",")
+        .filter((type) => type !== "null");
+      return `${field} must be of type ${types.join(" or ")}.`;
+    }
+    case "format":
+      return `${field} must be a valid ${params.format}.`;
+    case "minLength":
+      return `${field} must be at least ${params.limit} characters long.`;
+    case "maxLength":
+      return `${field} must be at most ${params.limit} characters long.`;
+    case "enum":
+      return `${field} must be one of: ${params.allowedValues.join(", ")}.`;
+    case "minItems":
+      return `${field} must contain at least ${params.limit} items.`;
+    case "maxItems":
+      return `${field} must contain at most ${params.limit} items.`;
+    case "additionalProperties":
+      return `${field} is not allowed.`;
+    default:
+      return `${field} ${error.message}.`;
+  }
+};
+
+/**
+ * Drops errors that only repeat another error: the failed branches of an
+ * `anyOf`, an `anyOf` failure when its value has more specific errors, and
+ * anything else reported for a value of the wrong type.
+ */
+const withoutRedundantErrors = (errors: ErrorObject[]): ErrorObject[] => {
+  const anyOfPaths = errors
+    .filter((e) => e.keyword === "anyOf")
+    .map((e) => `${e.schemaPath}/`);
+  const specificErrors = errors.filter(
+    (e) =>
+      e.keyword !== "anyOf" &&
+      !anyOfPaths.some((path) => e.schemaPath.startsWith(path))
+  );
+  const mistypedPaths = new Set(
+    specificErrors
+      .filter((e) => e.keyword === "type")
+      .map((e) => e.instancePath)
+  );
+
+  const anyOfErrors = errors.filter(
+    (anyOf) =>
+      anyOf.keyword === "anyOf" &&
+      !specificErrors.some((e) =>
+        e.instancePath.startsWith(`${anyOf.instancePath}/`)
+      )
+  );
+
+  return [...anyOfErrors, ...specificErrors].filter(
+    (e) => e.keyword === "type" || !mistypedPaths.has(e.instancePath)
+  );
+};
+
+/**
+ * Validates a value against one of the request schemas.
+ * @param schemaName The schema to validate against.
+ * @param value The value to validate.
+ * @param rootField The field name reported for errors of the value itself.
+ * @returns The validation errors; empty if the value is valid.
+ */
+export const validateValue = (
+  schemaName: SchemaName,
+  value: unknown,
+  rootField = "body"
+): ValidationErrorDetail[] => {
+  const validator = getValidator(schemaName);
+  if (validator(value)) {
+    return [];
+  }
+
+  return withoutRedundantErrors(validator.errors ?? []).map((error) => {
+    const field = toField(error, rootField);
+    const override: ErrorOverride | undefined =
+      error.parentSchema?.["x-errors"]?.[error.keyword];
+    return {
+      field,
+      code: override?.code ?? ERROR_CODES[error.keyword] ?? "invalid",
+      message: override?.message ?? defaultMessage(error, field),
+    };
+  });
+};
+
+/**
+ * Builds a middleware that validates parts of the request against the given
+ * schemas, responding with 400 and a field-level error list on failure.
+ */
+export const validateRequest =
+  (parts: Partial<Record<RequestPart, SchemaName>>): RequestHandler =>
+  (req, res, next) => {
+    const errors = Object.entries(parts).flatMap(([part, schemaName]) =>
+      validateValue(schemaName, req[part as RequestPart], part)
+    );
+
+    if (errors.length > 0) {
+      const response: ValidationErrorResponse = {
+        message: errors[0].message,
+        errors,
+      };
+      res.status(400).json(response);
+      return;
+    }
+    next();
+  };
+
+/**
+ * Reports request bodies that cannot be parsed in the same shape as schema
+ * validation errors, instead of Express' default HTML error page.
+ */
+export const bodyParserErrorHandler: ErrorRequestHandler = (
+  error,
+  req,
+  res,
+  next
+) => {
+  const details: Record<string, ValidationErrorDetail> = {
+    "entity.parse.failed": {
+      field: "body",
+      code: "invalid_json",
+      message: "Request body must be valid JSON.",
+    },
+    "entity.too.large": {
+      field: "body",
+      code: "too_large",
+      message: "Request body is too large.",
+    },
+  };
+  const detail = details[error?.type];
+
+  if (!detail) {
+    next(error);
+    return;
+  }
+  const response: ValidationErrorResponse = {
+    message: detail.message,
+    errors: [detail],
+  };
+  res.status(error.status ?? 400).json(response);
+};
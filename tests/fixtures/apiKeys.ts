@@ -0,0 +1,15 @@
+import { ApiKeyScope } from "@prisma/client";
+import { ApiKeyService } from "../../src/services/apiKeyService";
+import { ApiKeyTenancy, IssuedApiKey } from "../../src/types/apiKeys";
+
+const ALL_SCOPES: ApiKeyScope[] = ["identify", "read", "verify", "admin"];
+
+/**
+ * Issues a real API key for integration tests, by default one that may act
+ * for any tenant. Delete it by its id when the suite is done.
+ */
+export const issueTestApiKey = (
+  scopes: ApiKeyScope[] = ALL_SCOPES,
+  tenancy: ApiKeyTenancy = { anyTenant: true }
+): Promise<IssuedApiKey> =>
+  new ApiKeyService().issue("integration tests", scopes, tenancy);
@@ -1,35 +1,57 @@
-import { Contact, LinkPrecedence } from "@prisma/client";
+import { Contact, LinkPrecedence, Prisma } from "@prisma/client";
+import { createContactNormalizer } from "../../src/normalization/contactNormalizer";
 
 export const mockContacts: Contact[] = [
   {
     id: 1,
     phoneNumber: "555-0001",
     email: "emmett.brown@flux.com",
+    normalizedPhoneNumber: "+15550001",
+    normalizedEmail: "emmett.brown@flux.com",
     linkedId: null,
     linkPrecedence: "primary" as LinkPrecedence,
     createdAt: new Date("2023-04-01T00:00:00.374Z"),
     updatedAt: new Date("2023-04-01T00:00:00.374Z"),
     deletedAt: null,
+    erasedAt: null,
+    source: null,
+    emailVerifiedAt: null,
+    phoneNumberVerifiedAt: null,
+    tenantId: "default",
   },
   {
     id: 2,
     phoneNumber: "555-0001",
     email: "doc.brown@timemachine.com",
+    normalizedPhoneNumber: "+15550001",
+    normalizedEmail: "doc.brown@timemachine.com",
     linkedId: 1,
     linkPrecedence: "secondary" as LinkPrecedence,
     createdAt: new Date("2023-04-02T00:00:00.374Z"),
     updatedAt: new Date("2023-04-02T00:00:00.374Z"),
     deletedAt: null,
+    erasedAt: null,
+    source: null,
+    emailVerifiedAt: null,
+    phoneNumberVerifiedAt: null,
+    tenantId: "default",
   },
   {
     id: 3,
     phoneNumber: "555-0002",
     email: "emmett.brown@flux.com",
+    normalizedPhoneNumber: "+15550002",
+    normalizedEmail: "emmett.brown@flux.com",
     linkedId: 1,
     linkPrecedence: "secondary" as LinkPrecedence,
     createdAt: new Date("2023-04-03T00:00:00.374Z"),
     updatedAt: new Date("2023-04-03T00:00:00.374Z"),
     deletedAt: null,
+    erasedAt: null,
+    source: null,
+    emailVerifiedAt: null,
+    phoneNumberVerifiedAt: null,
+    tenantId: "default",
   },
 ];
 
@@ -37,11 +59,18 @@ export const mockSeparatePrimaryContact: Contact = {
   id: 4,
   phoneNumber: "555-0003",
   email: "clara.clayton@hillvalley.edu",
+  normalizedPhoneNumber: "+15550003",
+  normalizedEmail: "clara.clayton@hillvalley.edu",
   linkedId: null,
   linkPrecedence: "primary" as LinkPrecedence,
   createdAt: new Date("2023-04-04T00:00:00.374Z"),
   updatedAt: new Date("2023-04-04T00:00:00.374Z"),
   deletedAt: null,
+  erasedAt: null,
+  source: null,
+  emailVerifiedAt: null,
+  phoneNumberVerifiedAt: null,
+  tenantId: "default",
 };
 
 export const createMockContact = (
@@ -50,14 +79,39 @@ export const createMockContact = (
   id: 999,
   phoneNumber: "555-9999",
   email: "test@example.com",
+  normalizedPhoneNumber: "+15559999",
+  normalizedEmail: "test@example.com",
   linkedId: null,
   linkPrecedence: "primary" as LinkPrecedence,
   createdAt: new Date(),
   updatedAt: new Date(),
   deletedAt: null,
+  erasedAt: null,
+  source: null,
+  emailVerifiedAt: null,
+  phoneNumberVerifiedAt: null,
+  tenantId: "default",
   ...overrides,
 });
 
+const normalizer = createContactNormalizer();
+
+/**
+ * Adds the normalized identifier columns to contact data that is written
+ * directly through Prisma, mirroring what ContactService stores.
+ */
+export const withNormalizedIdentifiers = <
+  T extends Prisma.ContactUncheckedCreateInput
+>(
+  data: T
+): T => ({
+  ...data,
+  normalizedEmail: normalizer.normalizeEmail(data.email ?? null),
+  normalizedPhoneNumber: normalizer.normalizePhoneNumber(
+    data.phoneNumber ?? null
+  ),
+});
+
 export const testScenarios = {
   newContact: {
     email: "new.user@example.com",
@@ -0,0 +1,437 @@
+import request from "supertest";
+import { app, server } from "../../src/index";
+import { PrismaClient } from "@prisma/client";
+import { withNormalizedIdentifiers } from "../fixtures/contactData";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+import { DuplicateService } from "../../src/services/duplicateService";
+
+const prisma = new PrismaClient();
+const api = request.agent(app);
+let apiKeyId: number;
+
+describe("/admin", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+    const { apiKey, key } = await issueTestApiKey();
+    apiKeyId = apiKey.id;
+    api.set("X-API-Key", key);
+  });
+
+  beforeEach(async () => {
+    await prisma.mergeSuggestion.deleteMany();
+    await prisma.duplicateCandidate.deleteMany();
+    await prisma.contact.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.mergeSuggestion.deleteMany();
+    await prisma.duplicateCandidate.deleteMany();
+    await prisma.contact.deleteMany();
+    await prisma.apiKey.delete({ where: { id: apiKeyId } });
+    await prisma.$disconnect();
+    server.close();
+  });
+
+  describe("POST /admin/contacts/:id/split", () => {
+    const createMergedIdentity = async () => {
+      const primaryContact = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "doc.brown@flux.com",
+          phoneNumber: "555-0001",
+          linkPrecedence: "primary",
+        }),
+      });
+      const typoContact = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "marty.mcfly@hillvalley.edu",
+          phoneNumber: "555-0001",
+          linkedId: primaryContact.id,
+          linkPrecedence: "secondary",
+        }),
+      });
+      const typoFollowUp = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "marty.mcfly@hillvalley.edu",
+          phoneNumber: "555-0009",
+          linkedId: primaryContact.id,
+          linkPrecedence: "secondary",
+        }),
+      });
+      return { primaryContact, typoContact, typoFollowUp };
+    };
+
+    it("should preview the split without changing any contacts", async () => {
+      const { primaryContact, typoContact, typoFollowUp } =
+        await createMergedIdentity();
+
+      const response = await api
+        .post(`/admin/contacts/${primaryContact.id}/split`)
+        .send({ contactIds: [typoContact.id, typoFollowUp.id], dryRun: true })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        dryRun: true,
+        remaining: {
+          contact: {
+            primaryContactId: primaryContact.id,
+            emails: ["doc.brown@flux.com"],
+            phoneNumbers: ["555-0001"],
+            secondaryContactIds: [],
+          },
+        },
+        detached: {
+          contact: {
+            primaryContactId: typoContact.id,
+            emails: ["marty.mcfly@hillvalley.edu"],
+            phoneNumbers: ["555-0001", "555-0009"],
+            secondaryContactIds: [typoFollowUp.id],
+          },
+        },
+      });
+
+      const unchanged = await prisma.contact.findUnique({
+        where: { id: typoContact.id },
+      });
+      expect(unchanged).toMatchObject({
+        linkPrecedence: "secondary",
+        linkedId: primaryContact.id,
+      });
+    });
+
+    it("should detach the contacts into a new identity", async () => {
+      const { primaryContact, typoContact, typoFollowUp } =
+        await createMergedIdentity();
+
+      await api
+        .post(`/admin/contacts/${primaryContact.id}/split`)
+        .send({ contactIds: [typoContact.id, typoFollowUp.id] })
+        .expect(200);
+
+      const detachedPrimary = await prisma.contact.findUnique({
+        where: { id: typoContact.id },
+      });
+      const detachedSecondary = await prisma.contact.findUnique({
+        where: { id: typoFollowUp.id },
+      });
+      expect(detachedPrimary).toMatchObject({
+        linkPrecedence: "primary",
+        linkedId: null,
+      });
+      expect(detachedSecondary).toMatchObject({
+        linkPrecedence: "secondary",
+        linkedId: typoContact.id,
+      });
+
+      const lookup = await api
+        .get(`/contacts/${primaryContact.id}`)
+        .expect(200);
+      expect(lookup.body.contact.secondaryContactIds).toEqual([]);
+    });
+
+    it("should return 400 when a contact is not part of the identity", async () => {
+      const { primaryContact } = await createMergedIdentity();
+
+      const response = await api
+        .post(`/admin/contacts/${primaryContact.id}/split`)
+        .send({ contactIds: [999999] })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        message: "Contacts 999999 do not belong to this identity.",
+        errors: [
+          {
+            field: "contactIds",
+            code: "not_in_identity",
+            message: "Contacts 999999 do not belong to this identity.",
+          },
+        ],
+      });
+    });
+
+    it("should return 400 when contactIds is missing", async () => {
+      const { primaryContact } = await createMergedIdentity();
+
+      await api
+        .post(`/admin/contacts/${primaryContact.id}/split`)
+        .send({})
+        .expect(400);
+    });
+
+    it("should return 404 when the contact does not exist", async () => {
+      await api
+        .post("/admin/contacts/999999/split")
+        .send({ contactIds: [1] })
+        .expect(404);
+    });
+  });
+
+  describe("GET /admin/consistency", () => {
+    const createContact = (
+      data: Parameters<typeof withNormalizedIdentifiers>[0]
+    ) => prisma.contact.create({ data: withNormalizedIdentifiers(data) });
+
+    it("should report a healthy graph as consistent", async () => {
+      const primaryContact = await createContact({
+        email: "doc.brown@flux.com",
+        linkPrecedence: "primary",
+      });
+      await createContact({
+        phoneNumber: "555-0001",
+        linkedId: primaryContact.id,
+        linkPrecedence: "secondary",
+      });
+
+      const response = await api.get("/admin/consistency").expect(200);
+
+      expect(response.body).toMatchObject({
+        tenantId: "default",
+        consistent: true,
+        totals: { contacts: 2, primaries: 1, secondaries: 1, deleted: 0 },
+      });
+    });
+
+    it("should report the offending contacts of every check", async () => {
+      const primaryContact = await createContact({
+        email: "doc.brown@flux.com",
+        linkPrecedence: "primary",
+      });
+      const secondaryContact = await createContact({
+        phoneNumber: "555-0001",
+        linkedId: primaryContact.id,
+        linkPrecedence: "secondary",
+      });
+      const chainedContact = await createContact({
+        phoneNumber: "555-0002",
+        linkedId: secondaryContact.id,
+        linkPrecedence: "secondary",
+      });
+      const danglingContact = await createContact({
+        phoneNumber: "555-0003",
+        linkedId: 999999,
+        linkPrecedence: "secondary",
+      });
+      const linkedPrimary = await createContact({
+        email: "doc.brown@flux.com",
+        linkedId: primaryContact.id,
+        linkPrecedence: "primary",
+      });
+      const duplicate1 = await createContact({
+        email: "marty.mcfly@hillvalley.edu",
+        linkPrecedence: "primary",
+      });
+      const duplicate2 = await createContact({
+        email: "marty.mcfly@hillvalley.edu",
+        linkedId: duplicate1.id,
+        linkPrecedence: "secondary",
+      });
+
+      const response = await api.get("/admin/consistency").expect(200);
+
+      expect(response.body).toMatchObject({
+        consistent: false,
+        chainedSecondaries: { count: 1, contactIds: [chainedContact.id] },
+        danglingLinks: { count: 1, contactIds: [danglingContact.id] },
+        linkedPrimaries: { count: 1, contactIds: [linkedPrimary.id] },
+        unmergedIdentities: {
+          count: 1,
+          groups: [[primaryContact.id, linkedPrimary.id]],
+        },
+        duplicateContacts: {
+          count: 2,
+          groups: [
+            [primaryContact.id, linkedPrimary.id],
+            [duplicate1.id, duplicate2.id],
+          ],
+        },
+      });
+    });
+  });
+
+  describe("/admin/merge-suggestions", () => {
+    // Two identities and the request that would have merged them, as held
+    // back by MERGE_MODE=review
+    const createSuggestion = async () => {
+      const doc = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "doc.brown@flux.com",
+          phoneNumber: "555-0001",
+          linkPrecedence: "primary",
+        }),
+      });
+      const marty = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "marty.mcfly@hillvalley.edu",
+          phoneNumber: "555-0002",
+          linkPrecedence: "primary",
+        }),
+      });
+      const suggestion = await prisma.mergeSuggestion.create({
+        data: {
+          primaryContactIds: [doc.id, marty.id],
+          payload: {
+            operation: "identify",
+            email: "doc.brown@flux.com",
+            phoneNumber: "555-0002",
+          },
+        },
+      });
+      return { doc, marty, suggestion };
+    };
+
+    it("should list pending suggestions", async () => {
+      const { suggestion } = await createSuggestion();
+
+      const response = await api.get("/admin/merge-suggestions").expect(200);
+
+      expect(response.body.mergeSuggestions).toEqual([
+        expect.objectContaining({ id: suggestion.id, status: "pending" }),
+      ]);
+      await api
+        .get("/admin/merge-suggestions")
+        .query({ status: "approved" })
+        .expect(200, { mergeSuggestions: [] });
+    });
+
+    it("should merge the identities on approval", async () => {
+      const { doc, marty, suggestion } = await createSuggestion();
+
+      const response = await api
+        .post(`/admin/merge-suggestions/${suggestion.id}/approve`)
+        .expect(200);
+
+      expect(response.body.mergeSuggestion.status).toBe("approved");
+      expect(response.body.identity.contact).toEqual({
+        primaryContactId: doc.id,
+        emails: ["doc.brown@flux.com", "marty.mcfly@hillvalley.edu"],
+        phoneNumbers: ["555-0001", "555-0002"],
+        secondaryContactIds: [marty.id],
+      });
+      await api
+        .post(`/admin/merge-suggestions/${suggestion.id}/reject`)
+        .expect(400);
+    });
+
+    it("should leave the identities apart on rejection", async () => {
+      const { marty, suggestion } = await createSuggestion();
+
+      const response = await api
+        .post(`/admin/merge-suggestions/${suggestion.id}/reject`)
+        .expect(200);
+
+      expect(response.body.status).toBe("rejected");
+      const contact = await prisma.contact.findUnique({
+        where: { id: marty.id },
+      });
+      expect(contact?.linkPrecedence).toBe("primary");
+    });
+
+    it("should not bring erased identifiers back on approval", async () => {
+      const { marty, suggestion } = await createSuggestion();
+
+      await api
+        .delete(`/contacts/${marty.id}`)
+        .query({ mode: "erase" })
+        .expect(200);
+      await api
+        .post(`/admin/merge-suggestions/${suggestion.id}/approve`)
+        .expect(400);
+
+      const scrubbed = await prisma.mergeSuggestion.findUnique({
+        where: { id: suggestion.id },
+      });
+      expect(scrubbed?.payload).toEqual({ erased: true });
+      expect(
+        await prisma.contact.count({
+          where: {
+            OR: [
+              { phoneNumber: "555-0002" },
+              { normalizedPhoneNumber: "+15550002" },
+            ],
+          },
+        })
+      ).toBe(0);
+    });
+
+    it("should return 404 for unknown suggestions", async () => {
+      await api.post("/admin/merge-suggestions/999999/approve").expect(404);
+    });
+  });
+
+  describe("GET /admin/duplicate-candidates", () => {
+    const createContact = (
+      data: Parameters<typeof withNormalizedIdentifiers>[0]
+    ) => prisma.contact.create({ data: withNormalizedIdentifiers(data) });
+
+    it("should list the identities a scan found to be alike", async () => {
+      const lorraine = await createContact({
+        email: "lorraine@hillvalley.edu",
+        linkPrecedence: "primary",
+      });
+      const typo = await createContact({
+        email: "lorraine@hillvaley.edu",
+        linkPrecedence: "primary",
+      });
+      await createContact({
+        email: "biff@tannen.com",
+        linkPrecedence: "primary",
+      });
+
+      const report = await new DuplicateService().findDuplicates({
+        tenantId: "default",
+      });
+      const response = await api
+        .get("/admin/duplicate-candidates?minScore=0.8")
+        .expect(200);
+
+      expect(report.candidates).toBe(1);
+      expect(response.body.candidates).toEqual([
+        expect.objectContaining({
+          primaryContactIds: [lorraine.id, typo.id],
+          phoneSimilarity: null,
+          sharedDomain: false,
+        }),
+      ]);
+      const contacts = await prisma.contact.findMany({
+        where: { id: { in: [lorraine.id, typo.id] } },
+      });
+      expect(contacts.map((contact) => contact.linkPrecedence)).toEqual([
+        "primary",
+        "primary",
+      ]);
+    });
+
+    it("should leave out pairs merged since the scan", async () => {
+      await createContact({
+        email: "lorraine@hillvalley.edu",
+        linkPrecedence: "primary",
+      });
+      await createContact({
+        email: "lorraine@hillvaley.edu",
+        linkPrecedence: "primary",
+      });
+      await new DuplicateService().findDuplicates({ tenantId: "default" });
+
+      // A request with both emails merges the two identities
+      await api
+        .post("/identify")
+        .send({ email: "lorraine@hillvaley.edu", phoneNumber: "555-0001" })
+        .expect(200);
+      await api
+        .post("/identify")
+        .send({ email: "lorraine@hillvalley.edu", phoneNumber: "555-0001" })
+        .expect(200);
+
+      const response = await api.get("/admin/duplicate-candidates").expect(200);
+
+      expect(response.body.candidates).toEqual([]);
+      const primaries = await prisma.contact.count({
+        where: { linkPrecedence: "primary" },
+      });
+      expect(primaries).toBe(1);
+    });
+
+    it("should reject an invalid minimum score", async () => {
+      await api.get("/admin/duplicate-candidates?minScore=2").expect(400);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import request from "supertest";
+import { app, server } from "../../src/index";
+import { ApiKeyScope, PrismaClient } from "@prisma/client";
+import { ApiKeyService } from "../../src/services/apiKeyService";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+
+const prisma = new PrismaClient();
+const apiKeyIds: number[] = [];
+
+const issueKey = async (...scopes: ApiKeyScope[]) => {
+  const { apiKey, key } = await issueTestApiKey(scopes);
+  apiKeyIds.push(apiKey.id);
+  return { id: apiKey.id, key };
+};
+
+describe("API key authentication", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+  });
+
+  beforeEach(async () => {
+    await prisma.contact.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contact.deleteMany();
+    await prisma.apiKey.deleteMany({ where: { id: { in: apiKeyIds } } });
+    await prisma.$disconnect();
+    server.close();
+  });
+
+  it("should reject requests without an API key", async () => {
+    const response = await request(app)
+      .post("/identify")
+      .send({ email: "doc.brown@flux.com" })
+      .expect(401);
+
+    expect(response.body).toEqual({ message: "An API key is required." });
+    expect(response.headers["www-authenticate"]).toBe("Bearer");
+    expect(await prisma.contact.count()).toBe(0);
+  });
+
+  it("should reject unknown API keys", async () => {
+    await request(app)
+      .get("/contacts/1")
+      .set("X-API-Key", "bsk_not-a-real-key")
+      .expect(401);
+  });
+
+  it("should accept a key with the required scope in either header", async () => {
+    const { key } = await issueKey("identify");
+
+    await request(app)
+      .post("/identify")
+      .set("X-API-Key", key)
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+    await request(app)
+      .post("/identify")
+      .set("Authorization", `Bearer ${key}`)
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+  });
+
+  it("should reject keys lacking the required scope", async () => {
+    const { key } = await issueKey("identify");
+
+    const response = await request(app)
+      .get("/contacts")
+      .query({ email: "doc.brown@flux.com" })
+      .set("X-API-Key", key)
+      .expect(403);
+    expect(response.body.message).toContain('"read" scope');
+
+    await request(app)
+      .delete("/contacts/1")
+      .set("X-API-Key", key)
+      .expect(403);
+    await request(app)
+      .post("/admin/contacts/1/split")
+      .set("X-API-Key", key)
+      .send({ contactIds: [2] })
+      .expect(403);
+  });
+
+  it("should not let read keys create contacts", async () => {
+    const { key } = await issueKey("read");
+
+    await request(app)
+      .post("/identify/batch")
+      .set("X-API-Key", key)
+      .send([{ email: "doc.brown@flux.com" }])
+      .expect(403);
+    expect(await prisma.contact.count()).toBe(0);
+  });
+
+  it("should reject revoked keys", async () => {
+    const { id, key } = await issueKey("identify");
+    await new ApiKeyService().revoke(id);
+
+    await request(app)
+      .post("/identify")
+      .set("X-API-Key", key)
+      .send({ email: "doc.brown@flux.com" })
+      .expect(401);
+  });
+
+  it("should store only a hash of the key", async () => {
+    const { id, key } = await issueKey("read");
+
+    const stored = await prisma.apiKey.findUnique({ where: { id } });
+    expect(stored?.hashedKey).not.toContain(key);
+    expect(stored?.prefix).toBe(key.slice(0, 12));
+  });
+});
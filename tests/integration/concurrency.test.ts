@@ -0,0 +1,109 @@
+import request from "supertest";
+import { app, server } from "../../src/index";
+import { PrismaClient } from "@prisma/client";
+import { withNormalizedIdentifiers } from "../fixtures/contactData";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+
+const prisma = new PrismaClient();
+const api = request.agent(app);
+let apiKeyId: number;
+
+describe("Concurrent POST /identify", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+    const { apiKey, key } = await issueTestApiKey();
+    apiKeyId = apiKey.id;
+    api.set("X-API-Key", key);
+  });
+
+  beforeEach(async () => {
+    await prisma.contact.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contact.deleteMany();
+    await prisma.apiKey.delete({ where: { id: apiKeyId } });
+    await prisma.$disconnect();
+    server.close();
+  });
+
+  const expectSingleCluster = async () => {
+    const contacts = await prisma.contact.findMany();
+    const primaries = contacts.filter((c) => c.linkPrecedence === "primary");
+
+    expect(primaries).toHaveLength(1);
+    contacts
+      .filter((c) => c.linkPrecedence === "secondary")
+      .forEach((c) => expect(c.linkedId).toBe(primaries[0].id));
+
+    return { contacts, primary: primaries[0] };
+  };
+
+  it("should create a single primary for parallel requests with the same email", async () => {
+    const requests = Array.from({ length: 10 }, () =>
+      api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+    );
+
+    const responses = await Promise.all(requests);
+
+    responses.forEach((response) => expect(response.status).toBe(200));
+    const { contacts, primary } = await expectSingleCluster();
+    expect(contacts).toHaveLength(1);
+    responses.forEach((response) =>
+      expect(response.body.contact.primaryContactId).toBe(primary.id)
+    );
+  });
+
+  it("should link parallel requests sharing an email into one cluster", async () => {
+    const requests = Array.from({ length: 10 }, (_, i) =>
+      api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com", phoneNumber: `555-10${i}` })
+    );
+
+    const responses = await Promise.all(requests);
+
+    responses.forEach((response) => expect(response.status).toBe(200));
+    const { contacts, primary } = await expectSingleCluster();
+    expect(contacts).toHaveLength(10);
+    responses.forEach((response) =>
+      expect(response.body.contact.primaryContactId).toBe(primary.id)
+    );
+  });
+
+  it("should fully merge clusters when parallel requests bridge them", async () => {
+    await prisma.contact.create({
+      data: withNormalizedIdentifiers({
+        email: "doc.brown@flux.com",
+        phoneNumber: "555-0001",
+        linkPrecedence: "primary",
+      }),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await prisma.contact.create({
+      data: withNormalizedIdentifiers({
+        email: "clara.clayton@hillvalley.edu",
+        phoneNumber: "555-0002",
+        linkPrecedence: "primary",
+      }),
+    });
+
+    const requests = Array.from({ length: 6 }, (_, i) =>
+      api
+        .post("/identify")
+        .send(
+          i % 2 === 0
+            ? { email: "doc.brown@flux.com", phoneNumber: "555-0002" }
+            : { email: "clara.clayton@hillvalley.edu", phoneNumber: "555-0001" }
+        )
+    );
+
+    const responses = await Promise.all(requests);
+
+    responses.forEach((response) => expect(response.status).toBe(200));
+    const { primary } = await expectSingleCluster();
+    expect(primary.email).toBe("doc.brown@flux.com");
+  });
+});
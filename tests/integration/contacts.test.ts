@@ -0,0 +1,423 @@
+import request from "supertest";
+import { app, server } from "../../src/index";
+import { PrismaClient } from "@prisma/client";
+import { withNormalizedIdentifiers } from "../fixtures/contactData";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+
+const prisma = new PrismaClient();
+const api = request.agent(app);
+let apiKeyId: number;
+
+describe("/contacts", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+    const { apiKey, key } = await issueTestApiKey();
+    apiKeyId = apiKey.id;
+    api.set("X-API-Key", key);
+  });
+
+  beforeEach(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+    await prisma.apiKey.delete({ where: { id: apiKeyId } });
+    await prisma.$disconnect();
+    server.close();
+  });
+
+  const createIdentity = async () => {
+    const primaryContact = await prisma.contact.create({
+      data: withNormalizedIdentifiers({
+        email: "doc.brown@flux.com",
+        phoneNumber: "555-0001",
+        linkPrecedence: "primary",
+      }),
+    });
+    const secondaryContact = await prisma.contact.create({
+      data: withNormalizedIdentifiers({
+        email: "emmett.brown@timemachine.com",
+        phoneNumber: "555-0001",
+        linkedId: primaryContact.id,
+        linkPrecedence: "secondary",
+      }),
+    });
+    return { primaryContact, secondaryContact };
+  };
+
+  describe("GET /contacts/:id", () => {
+    it("should resolve a secondary contact id to the consolidated identity", async () => {
+      const { primaryContact, secondaryContact } = await createIdentity();
+
+      const response = await api
+        .get(`/contacts/${secondaryContact.id}`)
+        .expect(200);
+
+      expect(response.body.contact).toEqual({
+        primaryContactId: primaryContact.id,
+        emails: ["doc.brown@flux.com", "emmett.brown@timemachine.com"],
+        phoneNumbers: ["555-0001"],
+        secondaryContactIds: [secondaryContact.id],
+      });
+    });
+
+    it("should return 404 when the contact does not exist", async () => {
+      const response = await api.get("/contacts/999999").expect(404);
+
+      expect(response.body).toHaveProperty("message", "Contact not found.");
+    });
+
+    it("should return 400 when the id is not a positive integer", async () => {
+      await api.get("/contacts/abc").expect(400);
+    });
+
+    it("should return 400 for ids beyond the range of the id column", async () => {
+      await api.get("/contacts/2147483648").expect(400);
+    });
+
+    it("should list the contacts behind the identity with expand=contacts", async () => {
+      const { primaryContact, secondaryContact } = await createIdentity();
+
+      const response = await api
+        .get(`/contacts/${primaryContact.id}?expand=contacts`)
+        .expect(200);
+
+      expect(response.body.contact.secondaryContactIds).toEqual([
+        secondaryContact.id,
+      ]);
+      expect(response.body.contact.contacts).toEqual([
+        expect.objectContaining({
+          id: primaryContact.id,
+          email: "doc.brown@flux.com",
+          phoneNumber: "555-0001",
+          linkPrecedence: "primary",
+          linkedId: null,
+        }),
+        expect.objectContaining({
+          id: secondaryContact.id,
+          email: "emmett.brown@timemachine.com",
+          phoneNumber: "555-0001",
+          linkPrecedence: "secondary",
+          linkedId: primaryContact.id,
+        }),
+      ]);
+      expect(response.body.contact.phoneNumberSightings).toEqual([
+        {
+          value: "555-0001",
+          firstSeenAt: primaryContact.createdAt.toISOString(),
+          lastAddedAt: secondaryContact.createdAt.toISOString(),
+        },
+      ]);
+    });
+
+    it("should return 400 for an unknown expansion", async () => {
+      const { primaryContact } = await createIdentity();
+
+      await api.get(`/contacts/${primaryContact.id}?expand=events`).expect(400);
+    });
+  });
+
+  describe("GET /contacts?email=&phoneNumber=", () => {
+    it("should resolve an email to the consolidated identity", async () => {
+      const { primaryContact } = await createIdentity();
+
+      const response = await api
+        .get("/contacts")
+        .query({ email: "Emmett.Brown@TimeMachine.com" })
+        .expect(200);
+
+      expect(response.body.contact.primaryContactId).toBe(primaryContact.id);
+    });
+
+    it("should resolve a phone number to the consolidated identity", async () => {
+      const { primaryContact } = await createIdentity();
+
+      const response = await api
+        .get("/contacts")
+        .query({ phoneNumber: "555-0001" })
+        .expect(200);
+
+      expect(response.body.contact.primaryContactId).toBe(primaryContact.id);
+    });
+
+    it("should not create or merge contacts", async () => {
+      await createIdentity();
+      await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "clara.clayton@hillvalley.edu",
+          phoneNumber: "555-0002",
+          linkPrecedence: "primary",
+        }),
+      });
+
+      await api
+        .get("/contacts")
+        .query({ email: "clara.clayton@hillvalley.edu", phoneNumber: "555-0001" })
+        .expect(200);
+
+      const contactsInDb = await prisma.contact.findMany();
+      expect(contactsInDb).toHaveLength(3);
+      expect(
+        contactsInDb.filter((c) => c.linkPrecedence === "primary")
+      ).toHaveLength(2);
+    });
+
+    it("should return 404 when nothing matches", async () => {
+      await api
+        .get("/contacts")
+        .query({ email: "nobody@example.com" })
+        .expect(404);
+    });
+
+    it("should return 400 when neither email nor phoneNumber is given", async () => {
+      const response = await api.get("/contacts").expect(400);
+
+      expect(response.body.message).toContain(
+        "Email or phone number must be provided"
+      );
+    });
+
+    it("should return 400 with field-level errors for invalid parameters", async () => {
+      const response = await api
+        .get("/contacts?email=doc.brown@flux.com&email=clara@hillvalley.edu")
+        .expect(400);
+
+      expect(response.body.errors).toEqual([
+        {
+          field: "email",
+          code: "invalid_type",
+          message: "email must be of type string.",
+        },
+      ]);
+    });
+  });
+
+  describe("DELETE /contacts/:id", () => {
+    it("should soft-delete a contact and hide it from lookups and matching", async () => {
+      const { primaryContact, secondaryContact } = await createIdentity();
+
+      const response = await api
+        .delete(`/contacts/${secondaryContact.id}`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        mode: "soft",
+        deletedContactIds: [secondaryContact.id],
+        promotedContactId: null,
+      });
+
+      await api.get(`/contacts/${secondaryContact.id}`).expect(404);
+      const lookup = await api
+        .get(`/contacts/${primaryContact.id}`)
+        .expect(200);
+      expect(lookup.body.contact.secondaryContactIds).toEqual([]);
+
+      const deletedRow = await prisma.contact.findUnique({
+        where: { id: secondaryContact.id },
+      });
+      expect(deletedRow?.deletedAt).not.toBeNull();
+      expect(deletedRow?.email).toBe("emmett.brown@timemachine.com");
+    });
+
+    it("should promote a new primary when the primary is deleted", async () => {
+      const { primaryContact, secondaryContact } = await createIdentity();
+
+      const response = await api
+        .delete(`/contacts/${primaryContact.id}`)
+        .expect(200);
+
+      expect(response.body.promotedContactId).toBe(secondaryContact.id);
+
+      const identify = await api
+        .post("/identify")
+        .send({ phoneNumber: "555-0001" })
+        .expect(200);
+      expect(identify.body.contact).toMatchObject({
+        primaryContactId: secondaryContact.id,
+        emails: ["emmett.brown@timemachine.com"],
+        secondaryContactIds: [],
+      });
+    });
+
+    it("should scrub personal data in erase mode but keep a tombstone", async () => {
+      const { secondaryContact } = await createIdentity();
+
+      await api
+        .delete(`/contacts/${secondaryContact.id}`)
+        .query({ mode: "erase" })
+        .expect(200);
+
+      const tombstone = await prisma.contact.findUnique({
+        where: { id: secondaryContact.id },
+      });
+      expect(tombstone).toMatchObject({
+        email: null,
+        phoneNumber: null,
+        normalizedEmail: null,
+        normalizedPhoneNumber: null,
+        deletedAt: expect.any(Date),
+        erasedAt: expect.any(Date),
+      });
+    });
+
+    it("should return 404 for an already deleted contact", async () => {
+      const { secondaryContact } = await createIdentity();
+      await api.delete(`/contacts/${secondaryContact.id}`).expect(200);
+
+      await api.delete(`/contacts/${secondaryContact.id}`).expect(404);
+    });
+
+    it("should return 400 for an unknown deletion mode", async () => {
+      const { secondaryContact } = await createIdentity();
+
+      await api
+        .delete(`/contacts/${secondaryContact.id}`)
+        .query({ mode: "shred" })
+        .expect(400);
+    });
+  });
+
+  describe("DELETE /contacts/:id/identity", () => {
+    it("should soft-delete every contact of the identity", async () => {
+      const { primaryContact, secondaryContact } = await createIdentity();
+
+      const response = await api
+        .delete(`/contacts/${secondaryContact.id}/identity`)
+        .expect(200);
+
+      expect(response.body.deletedContactIds).toEqual(
+        expect.arrayContaining([primaryContact.id, secondaryContact.id])
+      );
+      await api
+        .get("/contacts")
+        .query({ phoneNumber: "555-0001" })
+        .expect(404);
+    });
+
+    it("should erase previously soft-deleted contacts of the identity", async () => {
+      const { primaryContact, secondaryContact } = await createIdentity();
+      await api.delete(`/contacts/${secondaryContact.id}`).expect(200);
+
+      await api
+        .delete(`/contacts/${primaryContact.id}/identity`)
+        .query({ mode: "erase" })
+        .expect(200);
+
+      const contactsInDb = await prisma.contact.findMany();
+      expect(contactsInDb).toHaveLength(2);
+      contactsInDb.forEach((contact) =>
+        expect(contact).toMatchObject({
+          email: null,
+          phoneNumber: null,
+          erasedAt: expect.any(Date),
+        })
+      );
+    });
+  });
+
+  describe("GET /contacts/:id/history", () => {
+    it("should list the identity's events in order with their triggering request", async () => {
+      const first = await api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+        .expect(200);
+      await api
+        .post("/identify")
+        .send({ email: "clara.clayton@hillvalley.edu", phoneNumber: "555-0002" })
+        .expect(200);
+      await api
+        .post("/identify")
+        .send({ email: "clara.clayton@hillvalley.edu", phoneNumber: "555-0001" })
+        .expect(200);
+
+      const primaryContactId = first.body.contact.primaryContactId;
+      const response = await api
+        .get(`/contacts/${primaryContactId}/history`)
+        .expect(200);
+
+      expect(response.body.primaryContactId).toBe(primaryContactId);
+      expect(
+        response.body.events.map((e: { type: string }) => e.type)
+      ).toEqual(["created", "created", "primary_merged", "demoted"]);
+      const demotion = response.body.events[3];
+      expect(demotion).toMatchObject({
+        previousLinkedId: null,
+        linkedId: primaryContactId,
+        payload: {
+          operation: "identify",
+          email: "clara.clayton@hillvalley.edu",
+          phoneNumber: "555-0001",
+        },
+      });
+    });
+
+    it("should scrub event payloads when a contact is erased", async () => {
+      const identify = await api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+        .expect(200);
+      const contactId = identify.body.contact.primaryContactId;
+
+      await api
+        .delete(`/contacts/${contactId}`)
+        .query({ mode: "erase" })
+        .expect(200);
+
+      const response = await api
+        .get(`/contacts/${contactId}/history`)
+        .expect(200);
+      expect(
+        response.body.events.map((e: { type: string }) => e.type)
+      ).toEqual(["created", "deleted", "erased"]);
+      expect(response.body.events[0].payload).toEqual({ erased: true });
+    });
+
+    it("should return 404 when the contact does not exist", async () => {
+      await api.get("/contacts/999999/history").expect(404);
+    });
+  });
+
+  describe("POST /contacts/verify", () => {
+    it("should mark the phone number verified on every contact carrying it", async () => {
+      const { primaryContact, secondaryContact } = await createIdentity();
+
+      const response = await api
+        .post("/contacts/verify")
+        .send({ phoneNumber: "555-0001" })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        verifiedContactIds: [primaryContact.id, secondaryContact.id],
+      });
+      const contacts = await prisma.contact.findMany({
+        orderBy: { id: "asc" },
+      });
+      expect(contacts).toEqual([
+        expect.objectContaining({
+          phoneNumberVerifiedAt: expect.any(Date),
+          emailVerifiedAt: null,
+        }),
+        expect.objectContaining({
+          phoneNumberVerifiedAt: expect.any(Date),
+          emailVerifiedAt: null,
+        }),
+      ]);
+      const events = await prisma.contactEvent.findMany({
+        where: { type: "verified" },
+      });
+      expect(events).toHaveLength(2);
+    });
+
+    it("should return 404 when no contact carries the identifiers", async () => {
+      await createIdentity();
+
+      await api
+        .post("/contacts/verify")
+        .send({ email: "marty@hillvalley.edu" })
+        .expect(404);
+    });
+  });
+});
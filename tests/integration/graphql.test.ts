@@ -0,0 +1,169 @@
+import request from "supertest";
+import { app, server } from "../../src/index";
+import { PrismaClient } from "@prisma/client";
+import { withNormalizedIdentifiers } from "../fixtures/contactData";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+
+const prisma = new PrismaClient();
+const api = request.agent(app);
+let apiKeyIds: number[] = [];
+let readOnlyKey: string;
+
+describe("/graphql", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+    const [issued, readOnly] = await Promise.all([
+      issueTestApiKey(),
+      issueTestApiKey(["read"]),
+    ]);
+    apiKeyIds = [issued.apiKey.id, readOnly.apiKey.id];
+    readOnlyKey = readOnly.key;
+    api.set("X-API-Key", issued.key);
+  });
+
+  beforeEach(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+    await prisma.apiKey.deleteMany({ where: { id: { in: apiKeyIds } } });
+    await prisma.$disconnect();
+    server.close();
+  });
+
+  const identifyMutation = `
+    mutation Identify($input: IdentifyInput!) {
+      identify(input: $input) {
+        primaryContactId
+        emails
+        phoneNumbers
+        secondaryContactIds
+      }
+    }
+  `;
+
+  it("should identify customers with the identify mutation", async () => {
+    const first = await api
+      .post("/graphql")
+      .send({
+        query: identifyMutation,
+        variables: {
+          input: { email: "lorraine@hillvalley.edu", phoneNumber: "123456" },
+        },
+      })
+      .expect(200);
+    const second = await api
+      .post("/graphql")
+      .send({
+        query: identifyMutation,
+        variables: {
+          input: { email: "mcfly@hillvalley.edu", phoneNumber: "123456" },
+        },
+      })
+      .expect(200);
+
+    const { primaryContactId } = first.body.data.identify;
+    expect(second.body.data.identify).toEqual({
+      primaryContactId,
+      emails: ["lorraine@hillvalley.edu", "mcfly@hillvalley.edu"],
+      phoneNumbers: ["123456"],
+      secondaryContactIds: [expect.any(Number)],
+    });
+  });
+
+  it("should resolve an identity with its contacts and history", async () => {
+    const primaryContact = await prisma.contact.create({
+      data: withNormalizedIdentifiers({
+        email: "doc.brown@flux.com",
+        phoneNumber: "555-0001",
+        linkPrecedence: "primary",
+      }),
+    });
+    const secondaryContact = await prisma.contact.create({
+      data: withNormalizedIdentifiers({
+        email: "emmett.brown@timemachine.com",
+        phoneNumber: "555-0001",
+        linkedId: primaryContact.id,
+        linkPrecedence: "secondary",
+      }),
+    });
+
+    const response = await api
+      .post("/graphql")
+      .send({
+        query: `
+          query Identity($contactId: Int!) {
+            identity(contactId: $contactId) {
+              primaryContactId
+              primary { id email linkPrecedence }
+              secondaries { id email linkedId }
+            }
+          }
+        `,
+        variables: { contactId: secondaryContact.id },
+      })
+      .expect(200);
+
+    expect(response.body.errors).toBeUndefined();
+    expect(response.body.data.identity).toEqual({
+      primaryContactId: primaryContact.id,
+      primary: {
+        id: primaryContact.id,
+        email: "doc.brown@flux.com",
+        linkPrecedence: "primary",
+      },
+      secondaries: [
+        {
+          id: secondaryContact.id,
+          email: "emmett.brown@timemachine.com",
+          linkedId: primaryContact.id,
+        },
+      ],
+    });
+  });
+
+  it("should run queries sent with GET", async () => {
+    const response = await api
+      .get("/graphql")
+      .query({
+        query:
+          '{ identityByIdentifiers(email: "nobody@example.com") { primaryContactId } }',
+      })
+      .expect(200);
+
+    expect(response.body).toEqual({ data: { identityByIdentifiers: null } });
+  });
+
+  it("should reject the mutation for keys without the identify scope", async () => {
+    const response = await request(app)
+      .post("/graphql")
+      .set("X-API-Key", readOnlyKey)
+      .send({
+        query: identifyMutation,
+        variables: { input: { email: "biff@hillvalley.edu" } },
+      })
+      .expect(200);
+
+    expect(response.body.errors[0].extensions.code).toBe("FORBIDDEN");
+    expect(await prisma.contact.count()).toBe(0);
+  });
+
+  it("should report invalid input as a bad user input error", async () => {
+    const response = await api
+      .post("/graphql")
+      .send({ query: identifyMutation, variables: { input: {} } })
+      .expect(200);
+
+    expect(response.body.errors[0].extensions.code).toBe("BAD_USER_INPUT");
+  });
+
+  it("should require an API key", async () => {
+    await request(app)
+      .post("/graphql")
+      .send({ query: "{ contact(id: 1) { id } }" })
+      .expect(401);
+  });
+});
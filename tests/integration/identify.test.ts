@@ -1,20 +1,32 @@
 import request from "supertest";
 import { app, server } from "../../src/index";
 import { PrismaClient } from "@prisma/client";
+import { withNormalizedIdentifiers } from "../fixtures/contactData";
+import { issueTestApiKey } from "../fixtures/apiKeys";
 
 const prisma = new PrismaClient();
+const api = request.agent(app);
+let apiKeyId: number;
 
 describe("POST /identify", () => {
   beforeAll(async () => {
     await prisma.$connect();
+    const { apiKey, key } = await issueTestApiKey();
+    apiKeyId = apiKey.id;
+    api.set("X-API-Key", key);
   });
 
   beforeEach(async () => {
+    await prisma.idempotencyKey.deleteMany();
+    await prisma.contactIdentifier.deleteMany();
     await prisma.contact.deleteMany();
   });
 
   afterAll(async () => {
+    await prisma.idempotencyKey.deleteMany();
+    await prisma.contactIdentifier.deleteMany();
     await prisma.contact.deleteMany();
+    await prisma.apiKey.delete({ where: { id: apiKeyId } });
     await prisma.$disconnect();
     server.close();
   });
@@ -26,7 +38,7 @@ describe("POST /identify", () => {
         phoneNumber: "555-0001",
       };
 
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send(requestBody)
         .expect(200);
@@ -51,11 +63,11 @@ describe("POST /identify", () => {
 
     it("should create a secondary contact when new information is added to existing identity", async () => {
       const primaryContact = await prisma.contact.create({
-        data: {
+        data: withNormalizedIdentifiers({
           email: "doc.brown@flux.com",
           phoneNumber: "555-0001",
           linkPrecedence: "primary",
-        },
+        }),
       });
 
       const requestBody = {
@@ -63,7 +75,7 @@ describe("POST /identify", () => {
         phoneNumber: "555-0001",
       };
 
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send(requestBody)
         .expect(200);
@@ -92,21 +104,21 @@ describe("POST /identify", () => {
 
     it("should merge two primary contacts when they are linked by a request", async () => {
       const contact1 = await prisma.contact.create({
-        data: {
+        data: withNormalizedIdentifiers({
           email: "doc.brown@flux.com",
           phoneNumber: "555-0001",
           linkPrecedence: "primary",
-        },
+        }),
       });
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
       const contact2 = await prisma.contact.create({
-        data: {
+        data: withNormalizedIdentifiers({
           email: "clara.clayton@hillvalley.edu",
           phoneNumber: "555-0002",
           linkPrecedence: "primary",
-        },
+        }),
       });
 
       const requestBody = {
@@ -114,7 +126,7 @@ describe("POST /identify", () => {
         phoneNumber: "555-0001",
       };
 
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send(requestBody)
         .expect(200);
@@ -138,22 +150,77 @@ describe("POST /identify", () => {
       });
     });
 
+    it("should link contacts deep below a merged primary directly to the surviving one", async () => {
+      const contact1 = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "doc.brown@flux.com",
+          linkPrecedence: "primary",
+        }),
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const contact2 = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "clara.clayton@hillvalley.edu",
+          linkPrecedence: "primary",
+        }),
+      });
+      // A chain left by an older version: contact4 -> contact3 -> contact2
+      const contact3 = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          phoneNumber: "555-0003",
+          linkedId: contact2.id,
+          linkPrecedence: "secondary",
+        }),
+      });
+      const contact4 = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          phoneNumber: "555-0004",
+          linkedId: contact3.id,
+          linkPrecedence: "secondary",
+        }),
+      });
+
+      const response = await api
+        .post("/identify")
+        .send({
+          email: "doc.brown@flux.com",
+          phoneNumber: "555-0004",
+        })
+        .expect(200);
+
+      expect(response.body.contact).toMatchObject({
+        primaryContactId: contact1.id,
+        phoneNumbers: expect.arrayContaining(["555-0003", "555-0004"]),
+      });
+      expect(response.body.contact.secondaryContactIds.sort()).toEqual(
+        [contact2.id, contact3.id, contact4.id].sort()
+      );
+      const secondaries = await prisma.contact.findMany({
+        where: { id: { in: [contact2.id, contact3.id, contact4.id] } },
+      });
+      expect(secondaries.map((c) => c.linkedId)).toEqual([
+        contact1.id,
+        contact1.id,
+        contact1.id,
+      ]);
+    });
+
     it("should return existing consolidated contact when no new information is provided", async () => {
       const primaryContact = await prisma.contact.create({
-        data: {
+        data: withNormalizedIdentifiers({
           email: "doc.brown@flux.com",
           phoneNumber: "555-0001",
           linkPrecedence: "primary",
-        },
+        }),
       });
 
       const secondaryContact = await prisma.contact.create({
-        data: {
+        data: withNormalizedIdentifiers({
           email: "emmett.brown@timemachine.com",
           phoneNumber: "555-0001",
           linkedId: primaryContact.id,
           linkPrecedence: "secondary",
-        },
+        }),
       });
 
       const requestBody = {
@@ -161,7 +228,7 @@ describe("POST /identify", () => {
         phoneNumber: "555-0001",
       };
 
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send(requestBody)
         .expect(200);
@@ -181,9 +248,34 @@ describe("POST /identify", () => {
     });
   });
 
+  describe("normalization", () => {
+    it("should link differently formatted emails and phone numbers to the same identity", async () => {
+      const first = await api
+        .post("/identify")
+        .send({ email: "Doc@Flux.com ", phoneNumber: "+1 (555) 0001" })
+        .expect(200);
+
+      const second = await api
+        .post("/identify")
+        .send({ email: "doc@flux.com", phoneNumber: "5550001" })
+        .expect(200);
+
+      expect(second.body.contact).toEqual(first.body.contact);
+
+      const contactsInDb = await prisma.contact.findMany();
+      expect(contactsInDb).toHaveLength(1);
+      expect(contactsInDb[0]).toMatchObject({
+        email: "Doc@Flux.com ",
+        phoneNumber: "+1 (555) 0001",
+        normalizedEmail: "doc@flux.com",
+        normalizedPhoneNumber: "+15550001",
+      });
+    });
+  });
+
   describe("input validation", () => {
     it("should return 400 when both email and phoneNumber are missing", async () => {
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send({})
         .expect(400);
@@ -195,18 +287,87 @@ describe("POST /identify", () => {
     });
 
     it("should return 400 when both email and phoneNumber are null", async () => {
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send({ email: null, phoneNumber: null })
         .expect(400);
 
       expect(response.body).toHaveProperty("message");
     });
+
+    it("should return field-level errors when nothing usable is left after normalization", async () => {
+      const response = await api
+        .post("/identify")
+        .send({ phoneNumber: "+" })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        message: "Email or phone number must be provided.",
+        errors: [
+          {
+            field: "body",
+            code: "missing_identifier",
+            message: "Email or phone number must be provided.",
+          },
+        ],
+      });
+    });
+
+    it("should return field-level errors for mistyped identifiers", async () => {
+      const response = await api
+        .post("/identify")
+        .send({ email: 42, phoneNumber: { number: "555-0001" } })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        message: "email must be of type string.",
+        errors: [
+          {
+            field: "email",
+            code: "invalid_type",
+            message: "email must be of type string.",
+          },
+          {
+            field: "phoneNumber",
+            code: "invalid_type",
+            message: "phoneNumber must be of type string or number.",
+          },
+        ],
+      });
+      expect(await prisma.contact.count()).toBe(0);
+    });
+
+    it("should reject malformed emails and oversized values", async () => {
+      const response = await api
+        .post("/identify")
+        .send({ email: "doc.brown", phoneNumber: "5".repeat(10000) })
+        .expect(400);
+
+      expect(
+        response.body.errors.map((e: { field: string; code: string }) => [
+          e.field,
+          e.code,
+        ])
+      ).toEqual([
+        ["email", "invalid_format"],
+        ["phoneNumber", "too_long"],
+      ]);
+    });
+
+    it("should return a JSON error for malformed JSON", async () => {
+      const response = await api
+        .post("/identify")
+        .set("Content-Type", "application/json")
+        .send('{"email": ')
+        .expect(400);
+
+      expect(response.body.errors[0]).toMatchObject({ code: "invalid_json" });
+    });
   });
 
   describe("Server and Error Handling", () => {
     it("should redirect from the root path to /api-docs", async () => {
-      await request(app).get("/").expect(302).expect("Location", "/api-docs");
+      await api.get("/").expect(302).expect("Location", "/api-docs");
     });
 
     it("should return 500 if the service throws an unexpected error", async () => {
@@ -219,7 +380,7 @@ describe("POST /identify", () => {
 
       const requestBody = { email: "test@example.com" };
 
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send(requestBody)
         .expect(500);
@@ -233,18 +394,18 @@ describe("POST /identify", () => {
   describe("single field requests", () => {
     it("should work with email only", async () => {
       const existingContact = await prisma.contact.create({
-        data: {
+        data: withNormalizedIdentifiers({
           email: "doc.brown@flux.com",
           phoneNumber: "555-0001",
           linkPrecedence: "primary",
-        },
+        }),
       });
 
       const requestBody = {
         email: "doc.brown@flux.com",
       };
 
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send(requestBody)
         .expect(200);
@@ -254,23 +415,393 @@ describe("POST /identify", () => {
 
     it("should work with phoneNumber only", async () => {
       const existingContact = await prisma.contact.create({
-        data: {
+        data: withNormalizedIdentifiers({
           email: "doc.brown@flux.com",
           phoneNumber: "555-0001",
           linkPrecedence: "primary",
-        },
+        }),
       });
 
       const requestBody = {
         phoneNumber: "555-0001",
       };
 
-      const response = await request(app)
+      const response = await api
         .post("/identify")
         .send(requestBody)
         .expect(200);
 
       expect(response.body.contact.primaryContactId).toBe(existingContact.id);
     });
+
+    it("should accept a phoneNumber sent as a number", async () => {
+      const existingContact = await prisma.contact.create({
+        data: withNormalizedIdentifiers({
+          email: "doc.brown@flux.com",
+          phoneNumber: "123456",
+          linkPrecedence: "primary",
+        }),
+      });
+
+      const response = await api
+        .post("/identify")
+        .send({ phoneNumber: 123456 })
+        .expect(200);
+
+      expect(response.body.contact).toEqual({
+        primaryContactId: existingContact.id,
+        emails: ["doc.brown@flux.com"],
+        phoneNumbers: ["123456"],
+        secondaryContactIds: [],
+      });
+      expect(await prisma.contact.count()).toBe(1);
+    });
+  });
+
+  describe("other identifier types", () => {
+    it("should link contacts sharing a loyalty card", async () => {
+      const first = await api
+        .post("/identify")
+        .send({
+          email: "doc.brown@flux.com",
+          identifiers: { loyaltyCard: "LC-0042" },
+        })
+        .expect(200);
+      const second = await api
+        .post("/identify")
+        .send({
+          phoneNumber: "555-0001",
+          identifiers: { loyaltyCard: " LC-0042 ", deviceId: "device-1" },
+        })
+        .expect(200);
+
+      expect(second.body.contact).toEqual({
+        primaryContactId: first.body.contact.primaryContactId,
+        emails: ["doc.brown@flux.com"],
+        phoneNumbers: ["555-0001"],
+        secondaryContactIds: [expect.any(Number)],
+        identifiers: {
+          loyaltyCard: ["LC-0042", " LC-0042 "],
+          deviceId: ["device-1"],
+        },
+      });
+    });
+
+    it("should identify by another identifier type alone", async () => {
+      await api
+        .post("/identify")
+        .send({
+          email: "doc.brown@flux.com",
+          identifiers: { paymentFingerprint: "9f86d081884c7d65" },
+        })
+        .expect(200);
+
+      const response = await api
+        .post("/identify")
+        .send({ identifiers: { paymentFingerprint: "9f86d081884c7d65" } })
+        .expect(200);
+
+      expect(response.body.contact.emails).toEqual(["doc.brown@flux.com"]);
+      expect(await prisma.contact.count()).toBe(1);
+    });
+
+    it("should reject identifier types that are not configured", async () => {
+      const response = await api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com", identifiers: { passport: "X1" } })
+        .expect(400);
+
+      expect(response.body.errors[0].code).toBe("unknown_identifier_type");
+    });
+  });
+
+  describe("contact source", () => {
+    it("should store the source with new contacts", async () => {
+      const response = await api
+        .post("/identify")
+        .send({ email: "marty@hillvalley.edu", source: "support_agent" })
+        .expect(200);
+
+      const contact = await prisma.contact.findUnique({
+        where: { id: response.body.contact.primaryContactId },
+      });
+      expect(contact?.source).toBe("support_agent");
+    });
+
+    it("should reject unknown sources", async () => {
+      await api
+        .post("/identify")
+        .send({ email: "marty@hillvalley.edu", source: "newsletter" })
+        .expect(400);
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("should report the remaining quota in the response headers", async () => {
+      const response = await api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com" })
+        .expect(200);
+
+      expect(Number(response.headers["ratelimit-limit"])).toBeGreaterThan(0);
+      expect(Number(response.headers["ratelimit-remaining"])).toBeLessThan(
+        Number(response.headers["ratelimit-limit"])
+      );
+      expect(response.headers["ratelimit-reset"]).toBeDefined();
+    });
+
+    it("should not charge invalid requests", async () => {
+      const response = await api
+        .post("/identify/batch")
+        .send(new Array(1000).fill({ email: "doc.brown@flux.com" }))
+        .expect(413);
+
+      expect(response.headers["ratelimit-remaining"]).toBeUndefined();
+    });
+  });
+
+  describe("expanded responses", () => {
+    it("should keep the usual shape without expand", async () => {
+      const response = await api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+        .expect(200);
+
+      expect(Object.keys(response.body.contact).sort()).toEqual([
+        "emails",
+        "phoneNumbers",
+        "primaryContactId",
+        "secondaryContactIds",
+      ]);
+    });
+
+    it("should tell which email came with which phone number", async () => {
+      await api
+        .post("/identify")
+        .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+        .expect(200);
+
+      const response = await api
+        .post("/identify?expand=contacts")
+        .send({
+          email: "emmett.brown@timemachine.com",
+          phoneNumber: "555-0001",
+          source: "checkout",
+        })
+        .expect(200);
+
+      const { contacts, emailSightings } = response.body.contact;
+      expect(contacts).toEqual([
+        expect.objectContaining({
+          email: "doc.brown@flux.com",
+          phoneNumber: "555-0001",
+          linkPrecedence: "primary",
+          source: null,
+        }),
+        expect.objectContaining({
+          email: "emmett.brown@timemachine.com",
+          phoneNumber: "555-0001",
+          linkPrecedence: "secondary",
+          linkedId: contacts[0].id,
+          source: "checkout",
+        }),
+      ]);
+      expect(emailSightings.map((s: { value: string }) => s.value)).toEqual([
+        "doc.brown@flux.com",
+        "emmett.brown@timemachine.com",
+      ]);
+    });
+
+    it("should expand the successful items of a batch", async () => {
+      const response = await api
+        .post("/identify/batch?expand=contacts")
+        .send([{ email: "doc.brown@flux.com" }, {}])
+        .expect(200);
+
+      const [ok, error] = response.body.results;
+      expect(ok.status).toBe("ok");
+      expect(ok.contact.contacts).toHaveLength(1);
+      expect(error.status).toBe("error");
+      expect(error).not.toHaveProperty("contact");
+    });
+  });
+
+  describe("idempotency keys", () => {
+    it("should replay the first response to a retry with the same key", async () => {
+      const requestBody = {
+        email: "doc.brown@flux.com",
+        phoneNumber: "555-0001",
+      };
+      const first = await api
+        .post("/identify")
+        .set("Idempotency-Key", "checkout-1")
+        .send(requestBody)
+        .expect(200);
+      // Another request changes the identity in between
+      await api
+        .post("/identify")
+        .send({ email: "marty@hillvalley.edu", phoneNumber: "555-0001" })
+        .expect(200);
+
+      const retry = await api
+        .post("/identify")
+        .set("Idempotency-Key", "checkout-1")
+        .send({ phoneNumber: "555-0001", email: "doc.brown@flux.com" })
+        .expect(200);
+
+      expect(retry.headers["idempotent-replayed"]).toBe("true");
+      expect(retry.body).toEqual(first.body);
+      expect(await prisma.contact.count()).toBe(2);
+    });
+
+    it("should reject a different request with the same key", async () => {
+      await api
+        .post("/identify")
+        .set("Idempotency-Key", "checkout-2")
+        .send({ email: "doc.brown@flux.com" })
+        .expect(200);
+
+      const response = await api
+        .post("/identify")
+        .set("Idempotency-Key", "checkout-2")
+        .send({ email: "marty@hillvalley.edu" })
+        .expect(422);
+
+      expect(response.body.message).toContain("checkout-2");
+      expect(await prisma.contact.count()).toBe(1);
+    });
+
+    it("should run concurrent duplicates only once", async () => {
+      const send = () =>
+        api
+          .post("/identify")
+          .set("Idempotency-Key", "checkout-3")
+          .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" });
+
+      const responses = await Promise.all([send(), send(), send()]);
+
+      expect(responses.map((response) => response.status)).toEqual([
+        200, 200, 200,
+      ]);
+      expect(new Set(responses.map((r) => JSON.stringify(r.body))).size).toBe(
+        1
+      );
+      expect(await prisma.contact.count()).toBe(1);
+    });
+
+    it("should forget saved responses showing an erased contact", async () => {
+      const erased = await api
+        .post("/identify")
+        .set("Idempotency-Key", "checkout-4")
+        .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+        .expect(200);
+      await api
+        .post("/identify")
+        .set("Idempotency-Key", "checkout-5")
+        .send({ email: "marty@hillvalley.edu" })
+        .expect(200);
+
+      await api
+        .delete(`/contacts/${erased.body.contact.primaryContactId}`)
+        .query({ mode: "erase" })
+        .expect(200);
+
+      const keys = await prisma.idempotencyKey.findMany();
+      expect(keys.map((k) => k.key)).toEqual(["checkout-5"]);
+    });
+
+    it("should reject malformed keys", async () => {
+      await api
+        .post("/identify")
+        .set("Idempotency-Key", "")
+        .send({ email: "doc.brown@flux.com" })
+        .expect(400);
+    });
+  });
+
+  describe("POST /identify/batch", () => {
+    it("should link items of the same batch to each other", async () => {
+      const response = await api
+        .post("/identify/batch")
+        .send([
+          { email: "doc.brown@flux.com", phoneNumber: "555-0001" },
+          { email: "emmett.brown@timemachine.com", phoneNumber: "555-0001" },
+          { email: "clara.clayton@hillvalley.edu", phoneNumber: "555-0002" },
+        ])
+        .expect(200);
+
+      const [first, second, third] = response.body.results;
+      expect(first).toMatchObject({ index: 0, status: "ok" });
+      expect(second).toMatchObject({
+        index: 1,
+        status: "ok",
+        contact: {
+          primaryContactId: first.contact.primaryContactId,
+          emails: ["doc.brown@flux.com", "emmett.brown@timemachine.com"],
+        },
+      });
+      expect(third.contact.primaryContactId).not.toBe(
+        first.contact.primaryContactId
+      );
+
+      const contactsInDb = await prisma.contact.findMany();
+      expect(contactsInDb).toHaveLength(3);
+    });
+
+    it("should report invalid items without failing the batch", async () => {
+      const response = await api
+        .post("/identify/batch")
+        .send([{}, "not-an-item", { email: "doc.brown@flux.com" }])
+        .expect(200);
+
+      expect(response.body.results).toEqual([
+        {
+          index: 0,
+          status: "error",
+          error: {
+            message: "Email or phone number must be provided.",
+            errors: [
+              {
+                field: "item",
+                code: "missing_identifier",
+                message: "Email or phone number must be provided.",
+              },
+            ],
+          },
+        },
+        {
+          index: 1,
+          status: "error",
+          error: {
+            message: "item must be of type object.",
+            errors: [
+              {
+                field: "item",
+                code: "invalid_type",
+                message: "item must be of type object.",
+              },
+            ],
+          },
+        },
+        expect.objectContaining({ index: 2, status: "ok" }),
+      ]);
+    });
+
+    it("should return 400 when the body is not a non-empty array", async () => {
+      await api
+        .post("/identify/batch")
+        .send({ email: "doc.brown@flux.com" })
+        .expect(400);
+      await api.post("/identify/batch").send([]).expect(400);
+    });
+
+    it("should return 413 when the batch is too large", async () => {
+      const items = Array.from({ length: 101 }, (_, i) => ({
+        email: `customer${i}@example.com`,
+      }));
+
+      await api.post("/identify/batch").send(items).expect(413);
+      expect(await prisma.contact.count()).toBe(0);
+    });
   });
 });
@@ -0,0 +1,70 @@
+import request from "supertest";
+import { app, server } from "../../src/index";
+import { PrismaClient } from "@prisma/client";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+
+const prisma = new PrismaClient();
+const api = request.agent(app);
+let apiKeyId: number;
+
+describe("observability", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+    const { apiKey, key } = await issueTestApiKey();
+    apiKeyId = apiKey.id;
+    api.set("X-API-Key", key);
+  });
+
+  beforeEach(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+    await prisma.apiKey.delete({ where: { id: apiKeyId } });
+    await prisma.$disconnect();
+    server.close();
+  });
+
+  describe("X-Request-Id", () => {
+    it("should echo the request id the caller sent", async () => {
+      const response = await api
+        .get("/contacts/999999")
+        .set("X-Request-Id", "checkout-7f3a")
+        .expect(404);
+
+      expect(response.headers["x-request-id"]).toBe("checkout-7f3a");
+    });
+
+    it("should generate a request id otherwise", async () => {
+      const response = await api.get("/contacts/999999").expect(404);
+
+      expect(response.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe("GET /metrics", () => {
+    it("should serve request latencies and contact changes without an API key", async () => {
+      await api
+        .post("/identify")
+        .send({ email: "lorraine@hillvalley.edu", phoneNumber: "123456" })
+        .expect(200);
+      await api
+        .post("/identify")
+        .send({ email: "mcfly@hillvalley.edu", phoneNumber: "123456" })
+        .expect(200);
+
+      const response = await request(app).get("/metrics").expect(200);
+
+      expect(response.headers["content-type"]).toMatch(/^text\/plain/);
+      expect(response.text).toMatch(
+        /http_request_duration_seconds_count\{method="POST",route="\/identify",status_code="200"\} \d+/
+      );
+      expect(response.text).toMatch(/contacts_new_primaries_total [1-9]/);
+      expect(response.text).toMatch(/contacts_secondaries_created_total [1-9]/);
+      expect(response.text).toContain("process_cpu_seconds_total");
+    });
+  });
+});
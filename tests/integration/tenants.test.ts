@@ -0,0 +1,144 @@
+import request from "supertest";
+import { app, server } from "../../src/index";
+import { PrismaClient } from "@prisma/client";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+
+const prisma = new PrismaClient();
+const apiKeyIds: number[] = [];
+let unboundKey: string;
+let acmeKey: string;
+let globexKey: string;
+let defaultKey: string;
+
+describe("Tenant isolation", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+    const keys = await Promise.all([
+      issueTestApiKey(),
+      issueTestApiKey(undefined, { tenantId: "acme" }),
+      issueTestApiKey(undefined, { tenantId: "globex" }),
+      issueTestApiKey(undefined, {}),
+    ]);
+    apiKeyIds.push(...keys.map(({ apiKey }) => apiKey.id));
+    [unboundKey, acmeKey, globexKey, defaultKey] = keys.map(({ key }) => key);
+  });
+
+  beforeEach(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contactEvent.deleteMany();
+    await prisma.contact.deleteMany();
+    await prisma.apiKey.deleteMany({ where: { id: { in: apiKeyIds } } });
+    await prisma.$disconnect();
+    server.close();
+  });
+
+  it("should never merge identical emails of different tenants", async () => {
+    const acme = await request(app)
+      .post("/identify")
+      .set("X-API-Key", acmeKey)
+      .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+      .expect(200);
+    const globex = await request(app)
+      .post("/identify")
+      .set("X-API-Key", globexKey)
+      .send({ email: "doc.brown@flux.com", phoneNumber: "555-0002" })
+      .expect(200);
+
+    expect(globex.body.contact.primaryContactId).not.toBe(
+      acme.body.contact.primaryContactId
+    );
+    expect(globex.body.contact.phoneNumbers).toEqual(["555-0002"]);
+    expect(globex.body.contact.secondaryContactIds).toEqual([]);
+
+    const contacts = await prisma.contact.findMany({ orderBy: { id: "asc" } });
+    expect(contacts.map(({ tenantId }) => tenantId)).toEqual([
+      "acme",
+      "globex",
+    ]);
+    expect(contacts.every(({ linkedId }) => linkedId === null)).toBe(true);
+  });
+
+  it("should let unbound keys choose the tenant per request", async () => {
+    const acme = await request(app)
+      .post("/identify")
+      .set("X-API-Key", unboundKey)
+      .set("X-Tenant-Id", "acme")
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+    const fallback = await request(app)
+      .post("/identify")
+      .set("X-API-Key", unboundKey)
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+
+    expect(fallback.body.contact.primaryContactId).not.toBe(
+      acme.body.contact.primaryContactId
+    );
+    const stored = await prisma.contact.findUnique({
+      where: { id: fallback.body.contact.primaryContactId },
+    });
+    expect(stored?.tenantId).toBe("default");
+  });
+
+  it("should not expose contacts of other tenants", async () => {
+    const acme = await request(app)
+      .post("/identify")
+      .set("X-API-Key", acmeKey)
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+    const contactId = acme.body.contact.primaryContactId;
+
+    await request(app)
+      .get(`/contacts/${contactId}`)
+      .set("X-API-Key", globexKey)
+      .expect(404);
+    await request(app)
+      .get("/contacts")
+      .query({ email: "doc.brown@flux.com" })
+      .set("X-API-Key", globexKey)
+      .expect(404);
+    await request(app)
+      .delete(`/contacts/${contactId}`)
+      .set("X-API-Key", globexKey)
+      .expect(404);
+    await request(app)
+      .get(`/contacts/${contactId}`)
+      .set("X-API-Key", acmeKey)
+      .expect(200);
+  });
+
+  it("should reject bound keys asking for another tenant", async () => {
+    const response = await request(app)
+      .post("/identify")
+      .set("X-API-Key", acmeKey)
+      .set("X-Tenant-Id", "globex")
+      .send({ email: "doc.brown@flux.com" })
+      .expect(403);
+
+    expect(response.body.message).toContain('"globex"');
+    expect(await prisma.contact.count()).toBe(0);
+  });
+
+  it("should keep keys issued for no tenant to the default tenant", async () => {
+    await request(app)
+      .post("/identify")
+      .set("X-API-Key", defaultKey)
+      .set("X-Tenant-Id", "acme")
+      .send({ email: "doc.brown@flux.com" })
+      .expect(403);
+    const response = await request(app)
+      .post("/identify")
+      .set("X-API-Key", defaultKey)
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+
+    const stored = await prisma.contact.findUnique({
+      where: { id: response.body.contact.primaryContactId },
+    });
+    expect(stored?.tenantId).toBe("default");
+  });
+});
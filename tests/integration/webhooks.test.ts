@@ -0,0 +1,174 @@
+import request from "supertest";
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { app, server } from "../../src/index";
+import { PrismaClient } from "@prisma/client";
+import { issueTestApiKey } from "../fixtures/apiKeys";
+import { WebhookDispatcher } from "../../src/services/webhookDispatcher";
+import { verifyWebhookSignature } from "../../src/utils/webhookSignature";
+
+const prisma = new PrismaClient();
+const api = request.agent(app);
+const tenantId = "webhooks";
+let apiKeyId: number;
+
+interface ReceivedWebhook {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// A local subscriber that records what it receives; requests to /fail get a 500
+const received: ReceivedWebhook[] = [];
+const receiver: Server = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    received.push({ headers: req.headers, body });
+    res.statusCode = req.url === "/fail" ? 500 : 204;
+    res.end();
+  });
+});
+let receiverUrl: string;
+
+const dispatcher = new WebhookDispatcher({
+  maxAttempts: 1,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 1000,
+  timeoutMs: 5000,
+});
+
+const subscribe = async (path: string, events: string[]) => {
+  const response = await api
+    .post("/admin/webhooks")
+    .send({ url: `${receiverUrl}${path}`, events })
+    .expect(201);
+  return response.body.secret as string;
+};
+
+describe("Webhooks", () => {
+  beforeAll(async () => {
+    await prisma.$connect();
+    const { apiKey, key } = await issueTestApiKey(undefined, { tenantId });
+    apiKeyId = apiKey.id;
+    api.set("X-API-Key", key);
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    receiverUrl = `http://localhost:${(receiver.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(async () => {
+    received.length = 0;
+    await prisma.webhookSubscription.deleteMany({ where: { tenantId } });
+    await prisma.contact.deleteMany({ where: { tenantId } });
+  });
+
+  afterAll(async () => {
+    await prisma.webhookSubscription.deleteMany({ where: { tenantId } });
+    await prisma.contact.deleteMany({ where: { tenantId } });
+    await prisma.apiKey.delete({ where: { id: apiKeyId } });
+    await prisma.$disconnect();
+    receiver.close();
+    server.close();
+  });
+
+  it("should deliver signed events of identity changes", async () => {
+    const secret = await subscribe("/hooks", [
+      "new_primary",
+      "primaries_merged",
+    ]);
+
+    const first = await api
+      .post("/identify")
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+    const second = await api
+      .post("/identify")
+      .send({ phoneNumber: "555-0001" })
+      .expect(200);
+    await api
+      .post("/identify")
+      .send({ email: "doc.brown@flux.com", phoneNumber: "555-0001" })
+      .expect(200);
+
+    expect(await dispatcher.dispatchDue()).toBe(3);
+
+    const events = received.map(({ headers, body }) => {
+      expect(
+        verifyWebhookSignature(
+          secret,
+          body,
+          headers["webhook-signature"] as string
+        )
+      ).toBe(true);
+      return JSON.parse(body);
+    });
+    expect(events.map(({ type }) => type)).toEqual([
+      "new_primary",
+      "new_primary",
+      "primaries_merged",
+    ]);
+    expect(events[2]).toMatchObject({
+      tenantId,
+      data: {
+        primaryContactId: first.body.contact.primaryContactId,
+        mergedPrimaryContactIds: [second.body.contact.primaryContactId],
+      },
+    });
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { subscription: { tenantId } },
+    });
+    expect(deliveries.every(({ status }) => status === "delivered")).toBe(true);
+  });
+
+  it("should dead-letter failing deliveries and retry them on request", async () => {
+    await subscribe("/fail", ["new_primary"]);
+    await api
+      .post("/identify")
+      .send({ email: "doc.brown@flux.com" })
+      .expect(200);
+
+    await dispatcher.dispatchDue();
+
+    const deadLetters = await api
+      .get("/admin/webhooks/dead-letters")
+      .expect(200);
+    expect(deadLetters.body.deliveries).toEqual([
+      expect.objectContaining({
+        status: "dead",
+        attempts: 1,
+        lastError: "HTTP 500",
+      }),
+    ]);
+
+    const retried = await api
+      .post(
+        `/admin/webhooks/deliveries/${deadLetters.body.deliveries[0].id}/retry`
+      )
+      .expect(200);
+    expect(retried.body).toMatchObject({ status: "pending", attempts: 0 });
+  });
+
+  it("should list and delete subscriptions without exposing secrets", async () => {
+    await subscribe("/hooks", ["secondary_linked"]);
+
+    const list = await api.get("/admin/webhooks").expect(200);
+    expect(list.body.subscriptions).toEqual([
+      expect.not.objectContaining({ secret: expect.anything() }),
+    ]);
+
+    const id = list.body.subscriptions[0].id;
+    await api.delete(`/admin/webhooks/${id}`).expect(200);
+    await api.delete(`/admin/webhooks/${id}`).expect(404);
+  });
+
+  it("should reject invalid subscriptions", async () => {
+    const response = await api
+      .post("/admin/webhooks")
+      .send({ url: "ftp://example.com", events: ["contact_deleted"] })
+      .expect(400);
+
+    expect(
+      response.body.errors.map(({ field }: { field: string }) => field)
+    ).toEqual(["url", "events.0"]);
+  });
+});
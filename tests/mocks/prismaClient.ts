@@ -1,5 +1,5 @@
 import { mockDeep, mockReset, DeepMockProxy } from "jest-mock-extended";
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 
 // Create a deep mock of PrismaClient
 export const prismaMock = mockDeep<PrismaClient>();
@@ -7,6 +7,20 @@ export const prismaMock = mockDeep<PrismaClient>();
 // Reset the mock before each test
 beforeEach(() => {
   mockReset(prismaMock);
+  // Interactive transactions run their callback against the same mock
+  // client; the array form of $transaction is not used
+  prismaMock.$transaction.mockImplementation(((
+    fn: (tx: Prisma.TransactionClient) => Promise<unknown>
+  ) => fn(prismaMock)) as PrismaClient["$transaction"]);
+  // Contacts have no typed identifiers unless a test says otherwise
+  prismaMock.contactIdentifier.findMany.mockResolvedValue([]);
+  // Nor does any tenant subscribe to webhooks
+  prismaMock.webhookSubscription.findMany.mockResolvedValue([]);
+  // Nor do queries find contacts, or payloads that an erasure would scrub,
+  // unless a test says so
+  prismaMock.contact.findMany.mockResolvedValue([]);
+  prismaMock.mergeSuggestion.findMany.mockResolvedValue([]);
+  prismaMock.contactEvent.findMany.mockResolvedValue([]);
 });
 
 // Export type for better TypeScript support
@@ -0,0 +1,177 @@
+import { ApiKey, Prisma } from "@prisma/client";
+import { InvalidRequestError } from "../../src/errors";
+import { ApiKeyService, hashApiKey } from "../../src/services/apiKeyService";
+import { prismaMock } from "../mocks/prismaClient";
+
+jest.mock("@prisma/client", () => {
+  const { prismaMock: mock } = require("../mocks/prismaClient");
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mock),
+  };
+});
+
+const createMockApiKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: 1,
+  name: "storefront",
+  prefix: "bsk_abcdefgh",
+  hashedKey: hashApiKey("bsk_abcdefgh-secret"),
+  scopes: ["identify"],
+  createdAt: new Date("2026-10-01T00:00:00Z"),
+  lastUsedAt: null,
+  revokedAt: null,
+  tenantId: null,
+  anyTenant: false,
+  ...overrides,
+});
+
+// Answers apiKey.create with the key it was asked to store
+const storeCreatedKey = (({ data }: Prisma.ApiKeyCreateArgs) =>
+  Promise.resolve(
+    createMockApiKey(data as Partial<ApiKey>)
+  )) as unknown as typeof prismaMock.apiKey.create;
+
+describe("ApiKeyService", () => {
+  let apiKeyService: ApiKeyService;
+
+  beforeEach(() => {
+    apiKeyService = new ApiKeyService();
+  });
+
+  describe("issue", () => {
+    it("should store only the hash of a new random key", async () => {
+      prismaMock.apiKey.create.mockImplementation(storeCreatedKey);
+
+      const { apiKey, key } = await apiKeyService.issue("storefront", [
+        "identify",
+        "read",
+        "identify",
+      ]);
+
+      expect(key).toMatch(/^bsk_[A-Za-z0-9_-]{32}$/);
+      expect(prismaMock.apiKey.create).toHaveBeenCalledWith({
+        data: {
+          name: "storefront",
+          prefix: key.slice(0, 12),
+          hashedKey: hashApiKey(key),
+          scopes: ["identify", "read"],
+          tenantId: null,
+          anyTenant: false,
+        },
+      });
+      expect(apiKey).not.toHaveProperty("hashedKey");
+    });
+
+    it("should bind the key to a tenant when one is given", async () => {
+      prismaMock.apiKey.create.mockImplementation(storeCreatedKey);
+
+      const { apiKey } = await apiKeyService.issue(
+        "acme storefront",
+        ["identify"],
+        { tenantId: "acme" }
+      );
+
+      expect(prismaMock.apiKey.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ tenantId: "acme" }),
+      });
+      expect(apiKey.tenantId).toBe("acme");
+    });
+
+    it("should let the key act for any tenant only when asked to", async () => {
+      prismaMock.apiKey.create.mockImplementation(storeCreatedKey);
+
+      const { apiKey } = await apiKeyService.issue("hub", ["identify"], {
+        anyTenant: true,
+      });
+
+      expect(prismaMock.apiKey.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ tenantId: null, anyTenant: true }),
+      });
+      expect(apiKey.anyTenant).toBe(true);
+    });
+
+    it("should reject keys both bound to a tenant and allowed any tenant", async () => {
+      await expect(
+        apiKeyService.issue("hub", ["identify"], {
+          tenantId: "acme",
+          anyTenant: true,
+        })
+      ).rejects.toThrow(InvalidRequestError);
+      expect(prismaMock.apiKey.create).not.toHaveBeenCalled();
+    });
+
+    it("should issue a different key every time", async () => {
+      prismaMock.apiKey.create.mockResolvedValue(createMockApiKey());
+
+      const first = await apiKeyService.issue("a", ["read"]);
+      const second = await apiKeyService.issue("b", ["read"]);
+
+      expect(first.key).not.toBe(second.key);
+    });
+  });
+
+  describe("authenticate", () => {
+    it("should look the key up by its hash and record its use", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue(createMockApiKey());
+
+      const apiKey = await apiKeyService.authenticate("bsk_abcdefgh-secret");
+
+      expect(prismaMock.apiKey.findUnique).toHaveBeenCalledWith({
+        where: { hashedKey: hashApiKey("bsk_abcdefgh-secret") },
+      });
+      expect(prismaMock.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+      expect(apiKey).toMatchObject({ id: 1, scopes: ["identify"] });
+      expect(apiKey).not.toHaveProperty("hashedKey");
+    });
+
+    it("should not record recent uses again", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue(
+        createMockApiKey({ lastUsedAt: new Date() })
+      );
+
+      await apiKeyService.authenticate("bsk_abcdefgh-secret");
+
+      expect(prismaMock.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject unknown and revoked keys", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValueOnce(null);
+      prismaMock.apiKey.findUnique.mockResolvedValueOnce(
+        createMockApiKey({ revokedAt: new Date() })
+      );
+
+      expect(await apiKeyService.authenticate("bsk_unknown")).toBeNull();
+      expect(await apiKeyService.authenticate("bsk_revoked")).toBeNull();
+    });
+  });
+
+  describe("revoke", () => {
+    it("should mark an active key as revoked", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue(createMockApiKey());
+      prismaMock.apiKey.update.mockResolvedValue(
+        createMockApiKey({ revokedAt: new Date() })
+      );
+
+      const revoked = await apiKeyService.revoke(1);
+
+      expect(prismaMock.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(revoked?.revokedAt).toEqual(expect.any(Date));
+    });
+
+    it("should return null for missing or already revoked keys", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValueOnce(null);
+      prismaMock.apiKey.findUnique.mockResolvedValueOnce(
+        createMockApiKey({ revokedAt: new Date() })
+      );
+
+      expect(await apiKeyService.revoke(404)).toBeNull();
+      expect(await apiKeyService.revoke(1)).toBeNull();
+      expect(prismaMock.apiKey.update).not.toHaveBeenCalled();
+    });
+  });
+});
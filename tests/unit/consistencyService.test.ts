@@ -0,0 +1,106 @@
+import { ConsistencyService } from "../../src/services/consistencyService";
+import { ConsistencyViolation } from "../../src/types/consistency";
+import { prismaMock } from "../mocks/prismaClient";
+
+jest.mock("@prisma/client", () => {
+  const { prismaMock: mock } = require("../mocks/prismaClient");
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mock),
+  };
+});
+
+const context = { tenantId: "acme" };
+const totals = { contacts: 6, primaries: 3, secondaries: 3, deleted: 1 };
+const none: ConsistencyViolation = { count: 0, contactIds: [] };
+
+/**
+ * Queues the results of the checks, in the order the service runs them.
+ */
+const mockChecks = ({
+  chainedSecondaries = none,
+  danglingLinks = none,
+  linkedPrimaries = none,
+  sharedIdentifiers = [] as number[][],
+  duplicates = [] as number[][],
+} = {}) => {
+  prismaMock.$queryRaw
+    .mockResolvedValueOnce([totals])
+    .mockResolvedValueOnce([chainedSecondaries])
+    .mockResolvedValueOnce([danglingLinks])
+    .mockResolvedValueOnce([linkedPrimaries])
+    .mockResolvedValueOnce(
+      sharedIdentifiers.map((primaryContactIds) => ({ primaryContactIds }))
+    )
+    .mockResolvedValueOnce(duplicates.map((contactIds) => ({ contactIds })));
+};
+
+describe("ConsistencyService", () => {
+  let consistencyService: ConsistencyService;
+
+  beforeEach(() => {
+    consistencyService = new ConsistencyService(2);
+  });
+
+  it("should report a consistent graph when no check finds anything", async () => {
+    mockChecks();
+
+    const report = await consistencyService.check(context);
+
+    expect(report).toEqual({
+      tenantId: "acme",
+      checkedAt: expect.any(Date),
+      consistent: true,
+      totals,
+      chainedSecondaries: none,
+      danglingLinks: none,
+      linkedPrimaries: none,
+      unmergedIdentities: { count: 0, groups: [] },
+      duplicateContacts: { count: 0, groups: [] },
+    });
+  });
+
+  it("should scope every query to the tenant", async () => {
+    mockChecks();
+
+    await consistencyService.check(context);
+
+    expect(prismaMock.$queryRaw).toHaveBeenCalledTimes(6);
+    for (const [, ...values] of prismaMock.$queryRaw.mock.calls) {
+      expect(values).toContain("acme");
+    }
+  });
+
+  it("should report the offenders of failing checks", async () => {
+    mockChecks({
+      chainedSecondaries: { count: 1, contactIds: [7] },
+      duplicates: [[3, 4]],
+    });
+
+    const report = await consistencyService.check(context);
+
+    expect(report.consistent).toBe(false);
+    expect(report.chainedSecondaries).toEqual({ count: 1, contactIds: [7] });
+    expect(report.duplicateContacts).toEqual({ count: 1, groups: [[3, 4]] });
+  });
+
+  it("should merge identities linked through different identifiers into one group", async () => {
+    mockChecks({
+      sharedIdentifiers: [
+        [5, 9],
+        [1, 5],
+        [20, 30],
+        [40, 50],
+      ],
+    });
+
+    const report = await consistencyService.check(context);
+
+    expect(report.unmergedIdentities).toEqual({
+      count: 3,
+      groups: [
+        [1, 5, 9],
+        [20, 30],
+      ],
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  csvExportHeader,
+  detectFormat,
+  formatIdentity,
+  parseCsvRecords,
+  readContactRows,
+} from "../../src/utils/contactFiles";
+
+async function* chunksOf(...chunks: string[]): AsyncGenerator<string> {
+  yield* chunks;
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+};
+
+const identity = {
+  contact: {
+    primaryContactId: 1,
+    emails: ["doc.brown@flux.com", "emmett@flux.com"],
+    phoneNumbers: ["555-0001"],
+    secondaryContactIds: [2, 3],
+  },
+};
+
+describe("contactFiles", () => {
+  describe("detectFormat", () => {
+    it("should detect the format from the file extension", () => {
+      expect(detectFormat("contacts.CSV")).toBe("csv");
+      expect(detectFormat("/tmp/contacts.jsonl")).toBe("jsonl");
+      expect(detectFormat("contacts.ndjson")).toBe("jsonl");
+      expect(detectFormat("contacts.txt")).toBeNull();
+    });
+  });
+
+  describe("parseCsvRecords", () => {
+    it("should handle quoted fields split across chunks", async () => {
+      const records = await collect(
+        parseCsvRecords(
+          chunksOf('a,"b, with ""quotes', '"""\r\n"multi\nline",', "\n\nlast")
+        )
+      );
+
+      expect(records).toEqual([
+        ["a", 'b, with "quotes"'],
+        ["multi\nline", ""],
+        ["last"],
+      ]);
+    });
+
+    it("should reject an unterminated quoted field", async () => {
+      await expect(
+        collect(parseCsvRecords(chunksOf('a,"open\n')))
+      ).rejects.toThrow("Unterminated quoted field");
+    });
+  });
+
+  describe("readContactRows", () => {
+    it("should map CSV columns by header name", async () => {
+      const rows = await collect(
+        readContactRows(
+          chunksOf(
+            "name,PhoneNumber,Email\n",
+            "Doc, 555-0001 ,doc.brown@flux.com\n",
+            "Marty,,\n"
+          ),
+          "csv"
+        )
+      );
+
+      expect(rows).toEqual([
+        {
+          rowNumber: 1,
+          email: "doc.brown@flux.com",
+          phoneNumber: "555-0001",
+        },
+        { rowNumber: 2, email: null, phoneNumber: null },
+      ]);
+    });
+
+    it("should reject a CSV without identifier columns", async () => {
+      await expect(
+        collect(readContactRows(chunksOf("name\nDoc\n"), "csv"))
+      ).rejects.toThrow('"email" and/or a "phoneNumber" column');
+    });
+
+    it("should read JSONL rows and report unreadable lines", async () => {
+      const rows = await collect(
+        readContactRows(
+          chunksOf(
+            '{"email":"doc.brown@flux.com"}\n{"phone',
+            'Number":5550001}\n\nnot json\n[1]'
+          ),
+          "jsonl"
+        )
+      );
+
+      expect(rows).toEqual([
+        { rowNumber: 1, email: "doc.brown@flux.com", phoneNumber: null },
+        { rowNumber: 2, email: null, phoneNumber: "5550001" },
+        expect.objectContaining({ rowNumber: 3, error: expect.any(String) }),
+        {
+          rowNumber: 4,
+          email: null,
+          phoneNumber: null,
+          error: "Expected a JSON object.",
+        },
+      ]);
+    });
+  });
+
+  describe("formatIdentity", () => {
+    it("should write one JSON object per line", () => {
+      expect(formatIdentity(identity, "jsonl")).toBe(
+        `${JSON.stringify(identity)}\n`
+      );
+    });
+
+    it("should write CSV rows matching the export header", () => {
+      expect(csvExportHeader()).toBe(
+        "primaryContactId,emails,phoneNumbers,secondaryContactIds\n"
+      );
+      expect(formatIdentity(identity, "csv")).toBe(
+        "1,doc.brown@flux.com;emmett@flux.com,555-0001,2;3\n"
+      );
+    });
+
+    it("should quote CSV values containing separators", () => {
+      const quirky = {
+        contact: { ...identity.contact, emails: ['"odd",name@flux.com'] },
+      };
+
+      expect(formatIdentity(quirky, "csv")).toBe(
+        '1,"""odd"",name@flux.com",555-0001,2;3\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  createContactNormalizer,
+  gmailAliasRules,
+  PipelineContactNormalizer,
+  toE164,
+  trimAndLowercase,
+} from "../../src/normalization/contactNormalizer";
+
+const defaultOptions = {
+  gmailIgnoreDots: false,
+  gmailStripPlusAlias: false,
+  defaultPhoneRegion: "US",
+};
+
+describe("contactNormalizer", () => {
+  describe("email normalization", () => {
+    it("should trim and lowercase emails", () => {
+      const normalizer = createContactNormalizer(defaultOptions);
+      expect(normalizer.normalizeEmail(" Doc@Flux.com ")).toBe("doc@flux.com");
+    });
+
+    it("should return null for missing or blank emails", () => {
+      const normalizer = createContactNormalizer(defaultOptions);
+      expect(normalizer.normalizeEmail(null)).toBeNull();
+      expect(normalizer.normalizeEmail("   ")).toBeNull();
+    });
+
+    it("should leave Gmail addresses alone unless the rules are enabled", () => {
+      const normalizer = createContactNormalizer(defaultOptions);
+      expect(normalizer.normalizeEmail("Doc.Brown+orders@gmail.com")).toBe(
+        "doc.brown+orders@gmail.com"
+      );
+    });
+
+    it("should apply the configured Gmail rules", () => {
+      const normalizer = createContactNormalizer({
+        ...defaultOptions,
+        gmailIgnoreDots: true,
+        gmailStripPlusAlias: true,
+      });
+      expect(normalizer.normalizeEmail("Doc.Brown+orders@googlemail.com")).toBe(
+        "docbrown@gmail.com"
+      );
+    });
+
+    it("should only apply Gmail rules to Gmail domains", () => {
+      const step = gmailAliasRules({ ignoreDots: true, stripPlusAlias: true });
+      expect(step("doc.brown+orders@flux.com")).toBe(
+        "doc.brown+orders@flux.com"
+      );
+      expect(step("doc.brown+orders@gmail.com")).toBe("docbrown@gmail.com");
+    });
+
+    it("should keep local parts that the Gmail rules would leave empty", () => {
+      const step = gmailAliasRules({ ignoreDots: true, stripPlusAlias: true });
+      expect(step("+orders@gmail.com")).toBe("+orders@gmail.com");
+      expect(step("+returns@gmail.com")).toBe("+returns@gmail.com");
+      expect(step("..@googlemail.com")).toBe("..@gmail.com");
+    });
+  });
+
+  describe("phone number normalization", () => {
+    it("should canonicalize equivalent formats to the same E.164 value", () => {
+      const normalizer = createContactNormalizer(defaultOptions);
+      expect(normalizer.normalizePhoneNumber("+1 (555) 0001")).toBe(
+        "+15550001"
+      );
+      expect(normalizer.normalizePhoneNumber("5550001")).toBe("+15550001");
+      expect(normalizer.normalizePhoneNumber("555-0001")).toBe("+15550001");
+    });
+
+    it("should use the configured default region", () => {
+      const normalizer = createContactNormalizer({
+        ...defaultOptions,
+        defaultPhoneRegion: "GB",
+      });
+      expect(normalizer.normalizePhoneNumber("020 7946 0958")).toBe(
+        "+442079460958"
+      );
+    });
+
+    it("should fall back to alphanumeric characters for unparseable input", () => {
+      expect(toE164("US")("555-new1")).toBe("555NEW1");
+      expect(toE164("US")("+ab-c")).toBe("+ABC");
+    });
+
+    it("should return null when nothing is left after normalization", () => {
+      const normalizer = createContactNormalizer(defaultOptions);
+      expect(normalizer.normalizePhoneNumber(" - ")).toBeNull();
+      expect(normalizer.normalizePhoneNumber(null)).toBeNull();
+    });
+  });
+
+  describe("other identifier normalization", () => {
+    it("should only trim values of other identifier types", () => {
+      const normalizer = createContactNormalizer(defaultOptions);
+      expect(normalizer.normalizeIdentifier(" LC-0042 ")).toBe("LC-0042");
+      expect(normalizer.normalizeIdentifier("a1B2")).toBe("a1B2");
+      expect(normalizer.normalizeIdentifier("   ")).toBeNull();
+      expect(normalizer.normalizeIdentifier(null)).toBeNull();
+    });
+  });
+
+  describe("PipelineContactNormalizer", () => {
+    it("should run custom steps in order", () => {
+      const normalizer = new PipelineContactNormalizer(
+        [trimAndLowercase, (email) => email.replace("@old.com", "@new.com")],
+        [(phone) => phone.replace(/\D/g, "")]
+      );
+      expect(normalizer.normalizeEmail(" Doc@OLD.com")).toBe("doc@new.com");
+      expect(normalizer.normalizePhoneNumber("555-0001")).toBe("5550001");
+    });
+  });
+});
@@ -6,7 +6,19 @@ import {
   createMockContact,
   testScenarios,
 } from "../fixtures/contactData";
-import { Contact, LinkPrecedence } from "@prisma/client";
+import {
+  Contact,
+  ContactIdentifier,
+  LinkPrecedence,
+  MergeSuggestion,
+  Prisma,
+  PrismaClient,
+  WebhookSubscription,
+} from "@prisma/client";
+import { InvalidRequestError, LimitExceededError } from "../../src/errors";
+import { mostRecentlyActiveFirst } from "../../src/selection/primarySelection";
+import { contactChanges, registry } from "../../src/metrics/metrics";
+import * as loggerModule from "../../src/logging/logger";
 
 jest.mock("@prisma/client", () => {
   const { prismaMock: mock } = require("../mocks/prismaClient");
@@ -15,6 +27,8 @@ jest.mock("@prisma/client", () => {
   };
 });
 
+const context = { tenantId: "default" };
+
 describe("ContactService", () => {
   let contactService: ContactService;
 
@@ -36,17 +50,26 @@ describe("ContactService", () => {
         prismaMock.contact.findMany.mockResolvedValue([]);
         prismaMock.contact.create.mockResolvedValue(newContact);
 
-        const result = await contactService.identify(email, phoneNumber);
+        const result = await contactService.identify(context, email, phoneNumber);
 
         expect(prismaMock.contact.findMany).toHaveBeenCalledWith({
           where: {
-            OR: [{ email }, { phoneNumber }],
+            tenantId: "default",
+            deletedAt: null,
+            OR: [
+              { normalizedEmail: email },
+              { normalizedPhoneNumber: "555NEW1" },
+            ],
           },
         });
         expect(prismaMock.contact.create).toHaveBeenCalledWith({
           data: {
+            tenantId: "default",
+            source: null,
             email,
             phoneNumber,
+            normalizedEmail: email,
+            normalizedPhoneNumber: "555NEW1",
             linkPrecedence: "primary",
           },
         });
@@ -74,13 +97,12 @@ describe("ContactService", () => {
         });
 
         prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
-        prismaMock.contact.findUnique.mockResolvedValue(primaryContact);
-        prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
         prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
 
         prismaMock.contact.create.mockResolvedValue(newSecondaryContact);
 
-        const result = await contactService.identify(email, phoneNumber);
+        const result = await contactService.identify(context, email, phoneNumber);
 
         expect(prismaMock.contact.create).toHaveBeenCalled();
         expect(result.contact.primaryContactId).toBe(primaryContact.id);
@@ -93,11 +115,10 @@ describe("ContactService", () => {
         const { email, phoneNumber } = primaryContact;
 
         prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
-        prismaMock.contact.findUnique.mockResolvedValue(primaryContact);
-        prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
         prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
 
-        const result = await contactService.identify(email, phoneNumber);
+        const result = await contactService.identify(context, email, phoneNumber);
 
         expect(prismaMock.contact.create).not.toHaveBeenCalled();
         expect(result.contact.primaryContactId).toBe(primaryContact.id);
@@ -114,10 +135,11 @@ describe("ContactService", () => {
           olderPrimary,
           newerPrimary,
         ]);
-        prismaMock.contact.findMany.mockResolvedValueOnce([
+        prismaMock.$queryRaw.mockResolvedValueOnce([
           olderPrimary,
           newerPrimary,
         ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
         prismaMock.contact.findMany.mockResolvedValueOnce([
           ...mockContacts,
           {
@@ -127,11 +149,64 @@ describe("ContactService", () => {
           },
         ]);
 
-        const result = await contactService.identify(email, phoneNumber);
+        const result = await contactService.identify(context, email, phoneNumber);
 
         expect(prismaMock.contact.updateMany).toHaveBeenCalled();
         expect(result.contact.primaryContactId).toBe(olderPrimary.id);
       });
+
+      it("should link contacts deep below the newer primary directly to the older one", async () => {
+        const { email, phoneNumber } = testScenarios.linkingIdentities;
+        const olderPrimary = mockContacts[0];
+        const newerPrimary = mockSeparatePrimaryContact;
+        const child = createMockContact({
+          id: 5,
+          linkedId: newerPrimary.id,
+          linkPrecedence: "secondary",
+        });
+        const grandchild = createMockContact({
+          id: 6,
+          linkedId: child.id,
+          linkPrecedence: "secondary",
+        });
+
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          newerPrimary,
+        ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([
+          olderPrimary,
+          newerPrimary,
+        ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([child, grandchild]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          ...mockContacts,
+          { ...newerPrimary, linkPrecedence: "secondary", linkedId: 1 },
+          { ...child, linkedId: 1 },
+          { ...grandchild, linkedId: 1 },
+        ]);
+
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.$queryRaw.mock.calls[1].slice(1)).toEqual([
+          [olderPrimary.id, newerPrimary.id],
+          [olderPrimary.id, newerPrimary.id],
+        ]);
+        expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: [child.id, grandchild.id] } },
+          data: { linkedId: olderPrimary.id, linkPrecedence: "secondary" },
+        });
+        expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+          data: expect.arrayContaining([
+            expect.objectContaining({
+              contactId: grandchild.id,
+              type: "relinked",
+              previousLinkedId: child.id,
+              linkedId: olderPrimary.id,
+            }),
+          ]),
+        });
+      });
     });
 
     describe("when handling orphaned secondary contacts", () => {
@@ -158,12 +233,13 @@ describe("ContactService", () => {
           orphaned1,
           orphaned2,
         ]);
-        prismaMock.contact.findUnique.mockResolvedValue(null);
         prismaMock.contact.update.mockResolvedValue(promotedContact);
-        prismaMock.contact.findMany.mockResolvedValueOnce([]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
         prismaMock.contact.findMany.mockResolvedValueOnce([promotedContact]);
 
         const result = await contactService.identify(
+          context,
           orphaned1.email,
           orphaned1.phoneNumber
         );
@@ -172,6 +248,10 @@ describe("ContactService", () => {
           where: { id: orphaned1.id },
           data: { linkPrecedence: "primary" as LinkPrecedence, linkedId: null },
         });
+        expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: [orphaned2.id] } },
+          data: { linkedId: orphaned1.id, linkPrecedence: "secondary" },
+        });
         expect(result.contact.primaryContactId).toBe(orphaned1.id);
       });
 
@@ -183,11 +263,12 @@ describe("ContactService", () => {
         });
 
         prismaMock.contact.findMany.mockResolvedValueOnce([oldestIsPrimary]);
-        prismaMock.contact.findUnique.mockResolvedValue(null);
-        prismaMock.contact.findMany.mockResolvedValueOnce([]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
         prismaMock.contact.findMany.mockResolvedValueOnce([oldestIsPrimary]);
 
         const result = await contactService.identify(
+          context,
           oldestIsPrimary.email,
           oldestIsPrimary.phoneNumber
         );
@@ -197,100 +278,2269 @@ describe("ContactService", () => {
       });
     });
 
-    describe("error handling", () => {
-      it("should handle database errors gracefully", async () => {
+    describe("audit events", () => {
+      it("should record a created event with the request payload", async () => {
         const { email, phoneNumber } = testScenarios.newContact;
-        prismaMock.contact.findMany.mockRejectedValue(
-          new Error("Database error")
+        prismaMock.contact.findMany.mockResolvedValue([]);
+        prismaMock.contact.create.mockResolvedValue(
+          createMockContact({ id: 1, email, phoneNumber })
         );
 
-        await expect(
-          contactService.identify(email, phoneNumber)
-        ).rejects.toThrow("Database error");
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+          data: [
+            {
+              contactId: 1,
+              type: "created",
+              previousLinkedId: null,
+              linkedId: null,
+              payload: { operation: "identify", email, phoneNumber },
+            },
+          ],
+        });
       });
-    });
-  });
 
-  describe("buildResponseFromContacts (private method access for testing)", () => {
-    it("should throw an error if called with an empty array", () => {
-      const service = contactService as any;
-      expect(() => service.buildResponseFromContacts([])).toThrow(
-        "Cannot build response from empty contacts array"
-      );
-    });
+      it("should store the source of new contacts with their events", async () => {
+        const { email, phoneNumber } = testScenarios.newContact;
+        prismaMock.contact.findMany.mockResolvedValue([]);
+        prismaMock.contact.create.mockResolvedValue(
+          createMockContact({ id: 1, email, phoneNumber, source: "login" })
+        );
 
-    it("should find the oldest contact as primary if no primary contact exists", () => {
-      const secondary1 = createMockContact({
-        id: 1,
-        linkPrecedence: "secondary",
-        createdAt: new Date("2023-01-01"),
+        await contactService.identify(context, email, phoneNumber, {}, "login");
+
+        expect(prismaMock.contact.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ source: "login" }),
+        });
+        expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({
+              payload: {
+                operation: "identify",
+                email,
+                phoneNumber,
+                source: "login",
+              },
+            }),
+          ],
+        });
       });
-      const secondary2 = createMockContact({
-        id: 2,
-        linkPrecedence: "secondary",
-        createdAt: new Date("2023-01-02"),
+
+      it("should record a secondary_linked event", async () => {
+        const { email, phoneNumber } = testScenarios.existingEmail;
+        const primaryContact = mockContacts[0];
+        prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+        prismaMock.contact.create.mockResolvedValue(
+          createMockContact({
+            id: 10,
+            email,
+            phoneNumber,
+            linkedId: 1,
+            linkPrecedence: "secondary",
+          })
+        );
+
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({
+              contactId: 10,
+              type: "secondary_linked",
+              previousLinkedId: null,
+              linkedId: 1,
+            }),
+          ],
+        });
       });
-      const service = contactService as any;
 
-      const response = service.buildResponseFromContacts([
-        secondary2,
-        secondary1,
-      ]);
+      it("should record merge, demotion and re-link events when merging primaries", async () => {
+        const { email, phoneNumber } = testScenarios.linkingIdentities;
+        const olderPrimary = mockContacts[0];
+        const newerPrimary = mockSeparatePrimaryContact;
+        const childOfNewer = createMockContact({
+          id: 5,
+          linkedId: newerPrimary.id,
+          linkPrecedence: "secondary",
+        });
 
-      expect(response.contact.primaryContactId).toBe(1);
-    });
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          newerPrimary,
+        ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([
+          olderPrimary,
+          newerPrimary,
+        ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([childOfNewer]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          { ...newerPrimary, linkPrecedence: "secondary", linkedId: 1 },
+          { ...childOfNewer, linkedId: 1 },
+        ]);
 
-    it("should correctly sort emails and phoneNumbers with the primary info first", () => {
-      const service = contactService as any;
-      const primary = createMockContact({
-        id: 1,
-        email: "primary@email.com",
-        phoneNumber: "111",
-        createdAt: new Date("2023-01-01"),
+        await contactService.identify(context, email, phoneNumber);
+
+        const payload = { operation: "identify", email, phoneNumber };
+        expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+          data: [
+            {
+              contactId: 1,
+              type: "primary_merged",
+              previousLinkedId: null,
+              linkedId: null,
+              payload,
+            },
+            {
+              contactId: 4,
+              type: "demoted",
+              previousLinkedId: null,
+              linkedId: 1,
+              payload,
+            },
+            {
+              contactId: 5,
+              type: "relinked",
+              previousLinkedId: 4,
+              linkedId: 1,
+              payload,
+            },
+          ],
+        });
       });
-      const secondary = createMockContact({
-        id: 2,
-        email: "secondary@email.com",
-        phoneNumber: "222",
-        linkPrecedence: "secondary",
-        linkedId: 1,
-        createdAt: new Date("2023-01-02"),
+
+      it("should record a promoted event for an orphan re-promotion", async () => {
+        const orphan = createMockContact({
+          id: 100,
+          linkPrecedence: "secondary",
+          linkedId: 999,
+        });
+        prismaMock.contact.findMany.mockResolvedValueOnce([orphan]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.contact.update.mockResolvedValue({
+          ...orphan,
+          linkPrecedence: "primary",
+          linkedId: null,
+        });
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          { ...orphan, linkPrecedence: "primary", linkedId: null },
+        ]);
+
+        await contactService.identify(context, orphan.email, orphan.phoneNumber);
+
+        expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({
+              contactId: 100,
+              type: "promoted",
+              previousLinkedId: 999,
+              linkedId: null,
+            }),
+          ],
+        });
       });
 
-      const response = service.buildResponseFromContacts([secondary, primary]);
+      it("should not record events when nothing changes", async () => {
+        const primaryContact = mockContacts[0];
+        prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
 
-      expect(response.contact.emails[0]).toBe("primary@email.com");
-      expect(response.contact.phoneNumbers[0]).toBe("111");
+        await contactService.identify(
+          context,
+          primaryContact.email,
+          primaryContact.phoneNumber
+        );
+
+        expect(prismaMock.contactEvent.createMany).not.toHaveBeenCalled();
+      });
     });
-  });
 
-  describe("edge cases", () => {
-    it("should handle null email", async () => {
-      const phoneNumber = "555-0001";
-      const existingContact = mockContacts[0];
+    describe("deleted contacts", () => {
+      it("should promote a secondary whose primary was deleted", async () => {
+        const secondary = createMockContact({
+          id: 301,
+          linkedId: 300,
+          linkPrecedence: "secondary",
+          createdAt: new Date("2023-01-02"),
+        });
+        const promoted = { ...secondary, linkPrecedence: "primary" as const };
 
-      prismaMock.contact.findMany.mockResolvedValueOnce([existingContact]);
-      prismaMock.contact.findUnique.mockResolvedValue(existingContact);
-      prismaMock.contact.findMany.mockResolvedValueOnce([existingContact]);
-      prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+        prismaMock.contact.findMany.mockResolvedValueOnce([secondary]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.contact.update.mockResolvedValue({
+          ...promoted,
+          linkedId: null,
+        });
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          { ...promoted, linkedId: null },
+        ]);
 
-      const result = await contactService.identify(null, phoneNumber);
+        const result = await contactService.identify(
+          context,
+          secondary.email,
+          secondary.phoneNumber
+        );
 
-      expect(result.contact.primaryContactId).toBe(existingContact.id);
+        expect(prismaMock.contact.update).toHaveBeenCalledWith({
+          where: { id: 301 },
+          data: { linkPrecedence: "primary", linkedId: null },
+        });
+        expect(result.contact.primaryContactId).toBe(301);
+      });
     });
 
-    it("should handle null phoneNumber", async () => {
-      const email = "emmett.brown@flux.com";
-      const existingContact = mockContacts[0];
+    describe("primary resolution", () => {
+      it("should resolve the primaries of all matches in a single query", async () => {
+        const primaryContact = mockContacts[0];
+        const deepSecondary = createMockContact({
+          id: 50,
+          linkedId: 51,
+          linkPrecedence: "secondary",
+        });
+        prismaMock.contact.findMany.mockResolvedValueOnce([deepSecondary]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          primaryContact,
+          deepSecondary,
+        ]);
 
-      prismaMock.contact.findMany.mockResolvedValueOnce([existingContact]);
-      prismaMock.contact.findUnique.mockResolvedValue(existingContact);
-      prismaMock.contact.findMany.mockResolvedValueOnce([existingContact]);
-      prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+        const result = await contactService.identify(
+          context,
+          deepSecondary.email,
+          deepSecondary.phoneNumber
+        );
+
+        expect(prismaMock.$queryRaw).toHaveBeenCalledTimes(1);
+        expect(prismaMock.$queryRaw.mock.calls[0].slice(1)).toEqual([[50]]);
+        expect(prismaMock.contact.findUnique).not.toHaveBeenCalled();
+        expect(result.contact.primaryContactId).toBe(primaryContact.id);
+      });
+    });
 
-      const result = await contactService.identify(email, null);
+    describe("primary selection", () => {
+      const { email, phoneNumber } = testScenarios.linkingIdentities;
+      const [olderPrimary, secondary1, secondary2] = mockContacts;
+      const newerPrimary = mockSeparatePrimaryContact;
 
-      expect(result.contact.primaryContactId).toBe(existingContact.id);
+      const mergeFixtureIdentities = async (service: ContactService) => {
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          secondary1,
+          newerPrimary,
+        ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([
+          olderPrimary,
+          newerPrimary,
+        ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([secondary1, secondary2]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          secondary1,
+          secondary2,
+          newerPrimary,
+        ]);
+        return service.identify(context, email, phoneNumber);
+      };
+
+      it("should keep the oldest primary by default", async () => {
+        await mergeFixtureIdentities(contactService);
+
+        expect(prismaMock.contact.updateMany).toHaveBeenCalledTimes(1);
+        expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: [newerPrimary.id] } },
+          data: { linkedId: olderPrimary.id, linkPrecedence: "secondary" },
+        });
+      });
+
+      it("should keep the most recently active primary when configured", async () => {
+        contactService = new ContactService(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          mostRecentlyActiveFirst
+        );
+
+        await mergeFixtureIdentities(contactService);
+
+        expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: [olderPrimary.id] } },
+          data: { linkedId: newerPrimary.id, linkPrecedence: "secondary" },
+        });
+        expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: [secondary1.id, secondary2.id] } },
+          data: { linkedId: newerPrimary.id, linkPrecedence: "secondary" },
+        });
+      });
+
+      it("should promote the selected orphan when no primary is left", async () => {
+        contactService = new ContactService(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          mostRecentlyActiveFirst
+        );
+        const orphans = [secondary1, secondary2];
+        prismaMock.contact.findMany.mockResolvedValueOnce(orphans);
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.contact.update.mockResolvedValue({
+          ...secondary2,
+          linkPrecedence: "primary",
+          linkedId: null,
+        });
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          { ...secondary2, linkPrecedence: "primary", linkedId: null },
+          { ...secondary1, linkedId: secondary2.id },
+        ]);
+
+        const result = await contactService.identify(
+          context,
+          secondary1.email,
+          secondary1.phoneNumber
+        );
+
+        expect(prismaMock.contact.update).toHaveBeenCalledWith({
+          where: { id: secondary2.id },
+          data: { linkPrecedence: "primary", linkedId: null },
+        });
+        expect(result.contact.primaryContactId).toBe(secondary2.id);
+      });
+    });
+
+    describe("verified merge mode", () => {
+      const { email, phoneNumber } = testScenarios.linkingIdentities;
+      const [olderPrimary, secondary1, secondary2] = mockContacts;
+      const newerPrimary = mockSeparatePrimaryContact;
+
+      beforeEach(() => {
+        contactService = new ContactService(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          "verified"
+        );
+      });
+
+      const mockMatches = (matches: Contact[]) => {
+        prismaMock.contact.findMany.mockResolvedValueOnce(matches);
+        prismaMock.$queryRaw.mockResolvedValueOnce([
+          olderPrimary,
+          newerPrimary,
+        ]);
+      };
+
+      it("should suggest the merge instead of merging on unverified identifiers", async () => {
+        mockMatches([secondary1, newerPrimary]);
+        prismaMock.mergeSuggestion.findFirst.mockResolvedValue(null);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          secondary1,
+          secondary2,
+        ]);
+
+        const result = await contactService.identify(
+          context,
+          email,
+          phoneNumber
+        );
+
+        expect(prismaMock.mergeSuggestion.create).toHaveBeenCalledWith({
+          data: {
+            tenantId: "default",
+            primaryContactIds: [olderPrimary.id, newerPrimary.id],
+            payload: { operation: "identify", email, phoneNumber },
+          },
+        });
+        expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+        expect(prismaMock.contact.create).not.toHaveBeenCalled();
+        expect(result.contact.primaryContactId).toBe(olderPrimary.id);
+        expect(result.contact.secondaryContactIds).toEqual([2, 3]);
+      });
+
+      it("should not repeat a pending or rejected suggestion", async () => {
+        mockMatches([secondary1, newerPrimary]);
+        prismaMock.mergeSuggestion.findFirst.mockResolvedValue({
+          id: 7,
+          tenantId: "default",
+          primaryContactIds: [olderPrimary.id, newerPrimary.id],
+          payload: {},
+          status: "pending",
+          createdAt: new Date(),
+          resolvedAt: null,
+        });
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          secondary1,
+          secondary2,
+        ]);
+
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.mergeSuggestion.findFirst).toHaveBeenCalledWith({
+          where: {
+            tenantId: "default",
+            status: { in: ["pending", "rejected"] },
+            primaryContactIds: { equals: [olderPrimary.id, newerPrimary.id] },
+          },
+        });
+        expect(prismaMock.mergeSuggestion.create).not.toHaveBeenCalled();
+      });
+
+      // Which identity each match belongs to, asked once a match is verified
+      const mockIdentitiesOfMatches = () => {
+        prismaMock.$queryRaw.mockResolvedValueOnce([
+          { contactId: secondary1.id, primaryId: olderPrimary.id },
+          { contactId: newerPrimary.id, primaryId: newerPrimary.id },
+        ]);
+      };
+
+      const verifiedLoyaltyCard = (contactId: number): ContactIdentifier => ({
+        id: contactId * 10,
+        contactId,
+        type: "loyaltyCard",
+        value: "LC-0042",
+        normalizedValue: "LC-0042",
+        verifiedAt: new Date(),
+        createdAt: new Date(),
+      });
+
+      it("should merge when every identity was matched through a verified identifier", async () => {
+        mockMatches([
+          { ...secondary1, phoneNumberVerifiedAt: new Date() },
+          { ...newerPrimary, emailVerifiedAt: new Date() },
+        ]);
+        mockIdentitiesOfMatches();
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          secondary1,
+          secondary2,
+          newerPrimary,
+        ]);
+
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: [newerPrimary.id] } },
+          data: { linkedId: olderPrimary.id, linkPrecedence: "secondary" },
+        });
+        expect(prismaMock.mergeSuggestion.create).not.toHaveBeenCalled();
+      });
+
+      it("should suggest the merge when only one identity was matched through a verified identifier", async () => {
+        // The victim's verified email sent with the attacker's own phone number
+        mockMatches([
+          secondary1,
+          { ...newerPrimary, emailVerifiedAt: new Date() },
+        ]);
+        mockIdentitiesOfMatches();
+        prismaMock.mergeSuggestion.findFirst.mockResolvedValue(null);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          secondary1,
+          secondary2,
+        ]);
+
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+        expect(prismaMock.mergeSuggestion.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            primaryContactIds: [olderPrimary.id, newerPrimary.id],
+          }),
+        });
+      });
+
+      it("should merge when every identity was matched through a verified identifier of another type", async () => {
+        mockMatches([secondary1, newerPrimary]);
+        prismaMock.contactIdentifier.findMany.mockResolvedValueOnce([
+          verifiedLoyaltyCard(secondary1.id),
+          verifiedLoyaltyCard(newerPrimary.id),
+        ]);
+        mockIdentitiesOfMatches();
+        prismaMock.$queryRaw.mockResolvedValueOnce([]);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          secondary1,
+          secondary2,
+          newerPrimary,
+        ]);
+        prismaMock.contact.create.mockResolvedValue(
+          createMockContact({ id: 10, linkedId: 1, linkPrecedence: "secondary" })
+        );
+
+        await contactService.identify(context, email, phoneNumber, {
+          loyaltyCard: "LC-0042",
+        });
+
+        expect(prismaMock.contactIdentifier.findMany).toHaveBeenCalledWith({
+          where: {
+            contactId: { in: [secondary1.id, newerPrimary.id] },
+            verifiedAt: { not: null },
+            OR: [{ type: "loyaltyCard", normalizedValue: "LC-0042" }],
+          },
+          select: { contactId: true },
+        });
+        expect(prismaMock.contact.updateMany).toHaveBeenCalled();
+        expect(prismaMock.mergeSuggestion.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("review merge mode", () => {
+      it("should suggest every merge, verified or not", async () => {
+        contactService = new ContactService(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          "review"
+        );
+        const { email, phoneNumber } = testScenarios.linkingIdentities;
+        const [olderPrimary, secondary1, secondary2] = mockContacts;
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          { ...secondary1, phoneNumberVerifiedAt: new Date() },
+          mockSeparatePrimaryContact,
+        ]);
+        prismaMock.$queryRaw.mockResolvedValueOnce([
+          olderPrimary,
+          mockSeparatePrimaryContact,
+        ]);
+        prismaMock.mergeSuggestion.findFirst.mockResolvedValue(null);
+        prismaMock.contact.findMany.mockResolvedValueOnce([
+          olderPrimary,
+          secondary1,
+          secondary2,
+        ]);
+
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.mergeSuggestion.create).toHaveBeenCalled();
+        expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("normalization", () => {
+      it("should match and deduplicate on normalized identifiers", async () => {
+        const primaryContact = mockContacts[0];
+
+        prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+        prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+        prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+
+        const result = await contactService.identify(
+          context,
+          "  Emmett.Brown@FLUX.com ",
+          "+1 (555) 0001"
+        );
+
+        expect(prismaMock.contact.findMany).toHaveBeenNthCalledWith(1, {
+          where: {
+            tenantId: "default",
+            deletedAt: null,
+            OR: [
+              { normalizedEmail: "emmett.brown@flux.com" },
+              { normalizedPhoneNumber: "+15550001" },
+            ],
+          },
+        });
+        expect(prismaMock.contact.create).not.toHaveBeenCalled();
+        expect(result.contact.primaryContactId).toBe(primaryContact.id);
+      });
+
+      it("should treat identifiers that normalize to nothing as absent", async () => {
+        prismaMock.contact.findMany.mockResolvedValue([]);
+        prismaMock.contact.create.mockResolvedValue(
+          createMockContact({ id: 1, phoneNumber: null })
+        );
+
+        await contactService.identify(context, "test@example.com", " -- ");
+
+        expect(prismaMock.contact.create).toHaveBeenCalledWith({
+          data: {
+            tenantId: "default",
+            source: null,
+            email: "test@example.com",
+            phoneNumber: null,
+            normalizedEmail: "test@example.com",
+            normalizedPhoneNumber: null,
+            linkPrecedence: "primary",
+          },
+        });
+      });
+    });
+
+    describe("transactional behaviour", () => {
+      it("should reject requests without usable identifiers before opening a transaction", async () => {
+        await expect(contactService.identify(context, "  ", " -- ")).rejects.toThrow(
+          InvalidRequestError
+        );
+
+        expect(prismaMock.$transaction).not.toHaveBeenCalled();
+      });
+
+      it("should reconcile inside a serializable transaction", async () => {
+        const { email, phoneNumber } = testScenarios.newContact;
+        prismaMock.contact.findMany.mockResolvedValue([]);
+        prismaMock.contact.create.mockResolvedValue(
+          createMockContact({ id: 1, email, phoneNumber })
+        );
+
+        await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+        expect(prismaMock.$transaction).toHaveBeenCalledWith(
+          expect.any(Function),
+          { isolationLevel: "Serializable" }
+        );
+      });
+
+      it("should retry the whole reconciliation on a serialization failure", async () => {
+        const { email, phoneNumber } = testScenarios.newContact;
+        const conflict = Object.assign(new Error("write conflict"), {
+          code: "P2034",
+        });
+        prismaMock.contact.findMany.mockResolvedValue([]);
+        prismaMock.contact.create
+          .mockRejectedValueOnce(conflict)
+          .mockResolvedValueOnce(
+            createMockContact({ id: 1, email, phoneNumber })
+          );
+
+        const result = await contactService.identify(context, email, phoneNumber);
+
+        expect(prismaMock.$transaction).toHaveBeenCalledTimes(2);
+        expect(prismaMock.contact.findMany).toHaveBeenCalledTimes(2);
+        expect(result.contact.primaryContactId).toBe(1);
+      });
+    });
+
+    describe("error handling", () => {
+      it("should handle database errors gracefully", async () => {
+        const { email, phoneNumber } = testScenarios.newContact;
+        prismaMock.contact.findMany.mockRejectedValue(
+          new Error("Database error")
+        );
+
+        await expect(
+          contactService.identify(context, email, phoneNumber)
+        ).rejects.toThrow("Database error");
+      });
+    });
+  });
+
+  describe("identifyBatch", () => {
+    it("should reconcile every item in order within one transaction", async () => {
+      const firstContact = createMockContact({
+        id: 1,
+        email: "doc.brown@flux.com",
+        phoneNumber: "5550001",
+        normalizedEmail: "doc.brown@flux.com",
+        normalizedPhoneNumber: "+15550001",
+      });
+      const secondContact = createMockContact({
+        id: 2,
+        email: "emmett.brown@flux.com",
+        phoneNumber: "5550001",
+        normalizedEmail: "emmett.brown@flux.com",
+        normalizedPhoneNumber: "+15550001",
+        linkedId: 1,
+        linkPrecedence: "secondary",
+      });
+
+      prismaMock.contact.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([firstContact])
+        .mockResolvedValueOnce([firstContact]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([firstContact]);
+      prismaMock.contact.create
+        .mockResolvedValueOnce(firstContact)
+        .mockResolvedValueOnce(secondContact);
+
+      const results = await contactService.identifyBatch(context, [
+        { email: "doc.brown@flux.com", phoneNumber: "5550001" },
+        { email: "emmett.brown@flux.com", phoneNumber: "5550001" },
+      ]);
+
+      expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+      expect(prismaMock.$transaction).toHaveBeenCalledWith(
+        expect.any(Function),
+        { isolationLevel: "Serializable", timeout: 30000 }
+      );
+      expect(results).toEqual([
+        {
+          index: 0,
+          status: "ok",
+          contact: {
+            primaryContactId: 1,
+            emails: ["doc.brown@flux.com"],
+            phoneNumbers: ["5550001"],
+            secondaryContactIds: [],
+          },
+        },
+        {
+          index: 1,
+          status: "ok",
+          contact: {
+            primaryContactId: 1,
+            emails: ["doc.brown@flux.com", "emmett.brown@flux.com"],
+            phoneNumbers: ["5550001"],
+            secondaryContactIds: [2],
+          },
+        },
+      ]);
+      expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            contactId: 2,
+            type: "secondary_linked",
+            payload: {
+              operation: "identifyBatch",
+              index: 1,
+              email: "emmett.brown@flux.com",
+              phoneNumber: "5550001",
+            },
+          }),
+        ],
+      });
+    });
+
+    it("should report items without usable identifiers as errors", async () => {
+      const newContact = createMockContact({ id: 1 });
+      prismaMock.contact.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([newContact]);
+      prismaMock.contact.create.mockResolvedValueOnce(newContact);
+
+      const results = await contactService.identifyBatch(context, [
+        { email: " ", phoneNumber: null },
+        { email: newContact.email, phoneNumber: newContact.phoneNumber },
+      ]);
+
+      expect(results[0]).toEqual({
+        index: 0,
+        status: "error",
+        error: {
+          message: "Email or phone number must be provided.",
+          errors: [
+            {
+              field: "item",
+              code: "missing_identifier",
+              message: "Email or phone number must be provided.",
+            },
+          ],
+        },
+      });
+      expect(results[1]).toMatchObject({ index: 1, status: "ok" });
+      expect(prismaMock.contact.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should roll back the whole batch when an item fails", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create
+        .mockResolvedValueOnce(createMockContact({ id: 1 }))
+        .mockRejectedValueOnce(new Error("Database error"));
+
+      await expect(
+        contactService.identifyBatch(context, [
+          { email: "doc.brown@flux.com", phoneNumber: null },
+          { email: "clara.clayton@hillvalley.edu", phoneNumber: null },
+        ])
+      ).rejects.toThrow("Database error");
+    });
+
+    it("should not open a transaction for an empty batch", async () => {
+      await expect(
+        contactService.identifyBatch(context, [])
+      ).resolves.toEqual([]);
+
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cluster limit", () => {
+    const { email, phoneNumber } = testScenarios.existingEmail;
+    const primaryContact = mockContacts[0];
+
+    const mockExistingIdentity = () => {
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+    };
+
+    beforeEach(() => {
+      contactService = new ContactService(undefined, {
+        maxSecondaries: 2,
+        windowMs: 60_000,
+      });
+    });
+
+    it("should count the identity's recent secondaries before adding one", async () => {
+      mockExistingIdentity();
+      prismaMock.contact.count.mockResolvedValue(1);
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 10, linkedId: 1, linkPrecedence: "secondary" })
+      );
+
+      await contactService.identify(context, email, phoneNumber);
+
+      expect(prismaMock.contact.count).toHaveBeenCalledWith({
+        where: { linkedId: primaryContact.id, createdAt: { gte: expect.any(Date) } },
+      });
+      expect(prismaMock.contact.create).toHaveBeenCalled();
+    });
+
+    it("should refuse new secondaries once the limit is reached", async () => {
+      mockExistingIdentity();
+      prismaMock.contact.count.mockResolvedValue(2);
+      prismaMock.contact.findFirst.mockResolvedValue({
+        createdAt: new Date(Date.now() - 45_000),
+      } as Contact);
+
+      const error = await contactService
+        .identify(context, email, phoneNumber)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.retryAfterSeconds).toBe(15);
+      expect(prismaMock.contact.create).not.toHaveBeenCalled();
+    });
+
+    it("should turn the limit into an item error within a batch", async () => {
+      mockExistingIdentity();
+      prismaMock.contact.count.mockResolvedValue(2);
+
+      const results = await contactService.identifyBatch(context, [
+        { email, phoneNumber },
+      ]);
+
+      expect(results).toEqual([
+        {
+          index: 0,
+          status: "error",
+          error: { message: expect.stringContaining("too many contacts") },
+        },
+      ]);
+    });
+
+    it("should not count anything when the limit is disabled", async () => {
+      contactService = new ContactService(undefined, {
+        maxSecondaries: 0,
+        windowMs: 60_000,
+      });
+      mockExistingIdentity();
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 10, linkedId: 1, linkPrecedence: "secondary" })
+      );
+
+      await contactService.identify(context, email, phoneNumber);
+
+      expect(prismaMock.contact.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("findIdentityByContactId", () => {
+    it("should resolve a secondary contact to its primary without writing", async () => {
+      const [primaryContact, secondaryContact] = mockContacts;
+
+      prismaMock.contact.findUnique.mockResolvedValueOnce(secondaryContact);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(
+        mockContacts.slice(0, 3)
+      );
+
+      const result = await contactService.findIdentityByContactId(
+        context,
+        secondaryContact.id
+      );
+
+      expect(result).toEqual({
+        contact: {
+          primaryContactId: 1,
+          emails: ["emmett.brown@flux.com", "doc.brown@timemachine.com"],
+          phoneNumbers: ["555-0001", "555-0002"],
+          secondaryContactIds: [2, 3],
+        },
+      });
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+      expect(prismaMock.contact.create).not.toHaveBeenCalled();
+      expect(prismaMock.contact.update).not.toHaveBeenCalled();
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should return null when the contact does not exist", async () => {
+      prismaMock.contact.findUnique.mockResolvedValue(null);
+
+      const result = await contactService.findIdentityByContactId(context, 404);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("findIdentity", () => {
+    it("should look up contacts by normalized email and phone number", async () => {
+      const primaryContact = mockContacts[0];
+
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+
+      const result = await contactService.findIdentity(
+        context,
+        "Emmett.Brown@flux.com",
+        null
+      );
+
+      expect(prismaMock.contact.findMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          tenantId: "default",
+          deletedAt: null,
+          OR: [{ normalizedEmail: "emmett.brown@flux.com" }],
+        },
+      });
+      expect(result?.contact.primaryContactId).toBe(primaryContact.id);
+      expect(prismaMock.contact.create).not.toHaveBeenCalled();
+    });
+
+    it("should pick the oldest primary when the matches are not merged yet", async () => {
+      const olderPrimary = mockContacts[0];
+      const newerPrimary = mockSeparatePrimaryContact;
+
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        newerPrimary,
+        olderPrimary,
+      ]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([
+        olderPrimary,
+        newerPrimary,
+      ]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+
+      const result = await contactService.findIdentity(
+        context,
+        newerPrimary.email,
+        olderPrimary.phoneNumber
+      );
+
+      expect(result?.contact.primaryContactId).toBe(olderPrimary.id);
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should return null when nothing matches", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([]);
+
+      const result = await contactService.findIdentity(
+        context,
+        "nobody@example.com",
+        null
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it("should return null without querying when no identifier is usable", async () => {
+      const result = await contactService.findIdentity(context, "   ", null);
+
+      expect(result).toBeNull();
+      expect(prismaMock.contact.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("expandIdentities", () => {
+    it("should list the contacts of each identity and when their values were seen", async () => {
+      const [primaryContact, secondary1, secondary2] = mockContacts;
+      prismaMock.contact.findMany.mockResolvedValue([
+        secondary2,
+        primaryContact,
+        secondary1,
+      ]);
+      prismaMock.contactIdentifier.findMany.mockResolvedValue([
+        {
+          id: 10,
+          contactId: 2,
+          type: "loyaltyCard",
+          value: "LC-0042",
+          normalizedValue: "LC-0042",
+          verifiedAt: null,
+          createdAt: new Date(),
+        },
+      ]);
+      const identity = {
+        contact: {
+          primaryContactId: 1,
+          emails: ["emmett.brown@flux.com", "doc.brown@timemachine.com"],
+          phoneNumbers: ["555-0001", "555-0002"],
+          secondaryContactIds: [2, 3],
+        },
+      };
+
+      const [expanded] = await contactService.expandIdentities(context, [
+        identity,
+      ]);
+
+      expect(prismaMock.contact.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2, 3] }, tenantId: "default" },
+      });
+      expect(expanded.contact).toMatchObject(identity.contact);
+      expect(expanded.contact.contacts).toEqual([
+        {
+          id: 1,
+          email: "emmett.brown@flux.com",
+          phoneNumber: "555-0001",
+          linkPrecedence: "primary",
+          linkedId: null,
+          source: null,
+          createdAt: primaryContact.createdAt,
+        },
+        {
+          id: 2,
+          email: "doc.brown@timemachine.com",
+          phoneNumber: "555-0001",
+          identifiers: { loyaltyCard: "LC-0042" },
+          linkPrecedence: "secondary",
+          linkedId: 1,
+          source: null,
+          createdAt: secondary1.createdAt,
+        },
+        {
+          id: 3,
+          email: "emmett.brown@flux.com",
+          phoneNumber: "555-0002",
+          linkPrecedence: "secondary",
+          linkedId: 1,
+          source: null,
+          createdAt: secondary2.createdAt,
+        },
+      ]);
+      expect(expanded.contact.emailSightings).toEqual([
+        {
+          value: "emmett.brown@flux.com",
+          firstSeenAt: primaryContact.createdAt,
+          lastAddedAt: secondary2.createdAt,
+        },
+        {
+          value: "doc.brown@timemachine.com",
+          firstSeenAt: secondary1.createdAt,
+          lastAddedAt: secondary1.createdAt,
+        },
+      ]);
+      expect(expanded.contact.phoneNumberSightings).toEqual([
+        {
+          value: "555-0001",
+          firstSeenAt: primaryContact.createdAt,
+          lastAddedAt: secondary1.createdAt,
+        },
+        {
+          value: "555-0002",
+          firstSeenAt: secondary2.createdAt,
+          lastAddedAt: secondary2.createdAt,
+        },
+      ]);
+    });
+
+    it("should not query anything for no identities", async () => {
+      const expanded = await contactService.expandIdentities(context, []);
+
+      expect(expanded).toEqual([]);
+      expect(prismaMock.contact.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyIdentifiers", () => {
+    it("should mark the identifiers verified where they are not yet", async () => {
+      const [primaryContact, , secondaryContact] = mockContacts;
+      const alreadyVerified = {
+        ...secondaryContact,
+        emailVerifiedAt: new Date("2023-05-01T00:00:00Z"),
+      };
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        primaryContact,
+        alreadyVerified,
+      ]);
+
+      const result = await contactService.verifyIdentifiers(
+        context,
+        "Emmett.Brown@flux.com",
+        null
+      );
+
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledTimes(1);
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [primaryContact.id] } },
+        data: { emailVerifiedAt: expect.any(Date) },
+      });
+      expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            contactId: primaryContact.id,
+            type: "verified",
+            previousLinkedId: null,
+            linkedId: null,
+            payload: {
+              operation: "verify",
+              email: "Emmett.Brown@flux.com",
+              phoneNumber: null,
+            },
+          },
+        ],
+      });
+      expect(result).toEqual({ verifiedContactIds: [1, 3] });
+    });
+
+    it("should mark identifiers of other types verified", async () => {
+      const primaryContact = mockContacts[0];
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contactIdentifier.findMany.mockResolvedValueOnce([
+        {
+          id: 10,
+          contactId: primaryContact.id,
+          type: "loyaltyCard",
+          value: "LC-0042",
+          normalizedValue: "LC-0042",
+          verifiedAt: null,
+          createdAt: new Date(),
+        },
+      ]);
+
+      await contactService.verifyIdentifiers(context, null, null, {
+        loyaltyCard: " LC-0042 ",
+      });
+
+      expect(prismaMock.contactIdentifier.findMany).toHaveBeenCalledWith({
+        where: {
+          contactId: { in: [primaryContact.id] },
+          verifiedAt: null,
+          OR: [{ type: "loyaltyCard", normalizedValue: "LC-0042" }],
+        },
+        select: { id: true, contactId: true },
+      });
+      expect(prismaMock.contactIdentifier.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [10] } },
+        data: { verifiedAt: expect.any(Date) },
+      });
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should return null when no contact carries the identifiers", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([]);
+
+      const result = await contactService.verifyIdentifiers(
+        context,
+        "nobody@example.com",
+        null
+      );
+
+      expect(result).toBeNull();
+      expect(prismaMock.contactEvent.createMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject requests without usable identifiers", async () => {
+      await expect(
+        contactService.verifyIdentifiers(context, null, " -- ")
+      ).rejects.toThrow(InvalidRequestError);
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("merge suggestions", () => {
+    const { email, phoneNumber } = testScenarios.linkingIdentities;
+    const [olderPrimary, secondary1, secondary2] = mockContacts;
+    const newerPrimary = mockSeparatePrimaryContact;
+    const suggestion: MergeSuggestion = {
+      id: 7,
+      tenantId: "default",
+      primaryContactIds: [olderPrimary.id, newerPrimary.id],
+      payload: { operation: "identify", email, phoneNumber, source: "checkout" },
+      status: "pending",
+      createdAt: new Date("2023-05-01T00:00:00Z"),
+      resolvedAt: null,
+    };
+
+    beforeEach(() => {
+      contactService = new ContactService(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        "review"
+      );
+    });
+
+    it("should list a page of suggestions of one status", async () => {
+      prismaMock.mergeSuggestion.findMany.mockResolvedValue([suggestion]);
+
+      const result = await contactService.listMergeSuggestions(
+        context,
+        "pending",
+        3
+      );
+
+      expect(prismaMock.mergeSuggestion.findMany).toHaveBeenCalledWith({
+        where: { tenantId: "default", status: "pending", id: { gt: 3 } },
+        orderBy: { id: "asc" },
+        take: 100,
+      });
+      expect(result).toEqual([suggestion]);
+    });
+
+    it("should apply the held back merge on approval", async () => {
+      prismaMock.mergeSuggestion.findUnique.mockResolvedValue(suggestion);
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        secondary1,
+        newerPrimary,
+      ]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([olderPrimary, newerPrimary]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        olderPrimary,
+        secondary1,
+        secondary2,
+        { ...newerPrimary, linkPrecedence: "secondary", linkedId: 1 },
+      ]);
+      prismaMock.mergeSuggestion.update.mockResolvedValue({
+        ...suggestion,
+        status: "approved",
+        resolvedAt: new Date(),
+      });
+
+      const result = await contactService.approveMergeSuggestion(context, 7);
+
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [newerPrimary.id] } },
+        data: { linkedId: olderPrimary.id, linkPrecedence: "secondary" },
+      });
+      expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({
+            type: "primary_merged",
+            payload: {
+              operation: "approveMergeSuggestion",
+              email,
+              phoneNumber,
+              source: "checkout",
+              mergeSuggestionId: 7,
+            },
+          }),
+        ]),
+      });
+      expect(prismaMock.mergeSuggestion.create).not.toHaveBeenCalled();
+      expect(prismaMock.mergeSuggestion.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { status: "approved", resolvedAt: expect.any(Date) },
+      });
+      expect(result?.identity.contact.secondaryContactIds).toEqual([2, 3, 4]);
+    });
+
+    it("should reject a pending suggestion without changing contacts", async () => {
+      prismaMock.mergeSuggestion.findUnique.mockResolvedValue(suggestion);
+      prismaMock.mergeSuggestion.update.mockResolvedValue({
+        ...suggestion,
+        status: "rejected",
+        resolvedAt: new Date(),
+      });
+
+      const result = await contactService.rejectMergeSuggestion(context, 7);
+
+      expect(prismaMock.mergeSuggestion.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { status: "rejected", resolvedAt: expect.any(Date) },
+      });
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+      expect(result?.status).toBe("rejected");
+    });
+
+    it("should refuse to resolve a suggestion twice", async () => {
+      prismaMock.mergeSuggestion.findUnique.mockResolvedValue({
+        ...suggestion,
+        status: "rejected",
+      });
+
+      await expect(
+        contactService.approveMergeSuggestion(context, 7)
+      ).rejects.toThrow(InvalidRequestError);
+      expect(prismaMock.mergeSuggestion.update).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to approve a suggestion scrubbed by an erasure", async () => {
+      prismaMock.mergeSuggestion.findUnique.mockResolvedValue({
+        ...suggestion,
+        payload: { erased: true },
+      });
+
+      await expect(
+        contactService.approveMergeSuggestion(context, 7)
+      ).rejects.toThrow(InvalidRequestError);
+      expect(prismaMock.contact.create).not.toHaveBeenCalled();
+      expect(prismaMock.mergeSuggestion.update).not.toHaveBeenCalled();
+    });
+
+    it("should return null for suggestions of other tenants", async () => {
+      prismaMock.mergeSuggestion.findUnique.mockResolvedValue({
+        ...suggestion,
+        tenantId: "other",
+      });
+
+      expect(await contactService.rejectMergeSuggestion(context, 7)).toBeNull();
+      expect(prismaMock.mergeSuggestion.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listIdentities", () => {
+    it("should group each page's secondaries under their primary", async () => {
+      const [primaryContact, secondaryContact] = mockContacts;
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        primaryContact,
+        mockSeparatePrimaryContact,
+      ]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([secondaryContact]);
+
+      const result = await contactService.listIdentities(context, 0, 2);
+
+      expect(prismaMock.contact.findMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          tenantId: "default",
+          linkPrecedence: "primary",
+          deletedAt: null,
+          id: { gt: 0 },
+        },
+        orderBy: { id: "asc" },
+        take: 2,
+      });
+      expect(prismaMock.contact.findMany).toHaveBeenNthCalledWith(2, {
+        where: {
+          linkedId: { in: [primaryContact.id, mockSeparatePrimaryContact.id] },
+          deletedAt: null,
+        },
+        orderBy: { id: "asc" },
+      });
+      expect(result).toEqual([
+        {
+          contact: {
+            primaryContactId: primaryContact.id,
+            emails: [primaryContact.email, secondaryContact.email],
+            phoneNumbers: [primaryContact.phoneNumber],
+            secondaryContactIds: [secondaryContact.id],
+          },
+        },
+        {
+          contact: {
+            primaryContactId: mockSeparatePrimaryContact.id,
+            emails: [mockSeparatePrimaryContact.email],
+            phoneNumbers: [mockSeparatePrimaryContact.phoneNumber],
+            secondaryContactIds: [],
+          },
+        },
+      ]);
+    });
+
+    it("should return an empty page after the last identity", async () => {
+      prismaMock.contact.findMany.mockResolvedValueOnce([]);
+
+      expect(await contactService.listIdentities(context, 42, 2)).toEqual([]);
+      expect(prismaMock.contact.findMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("deleteContact", () => {
+    it("should soft-delete a secondary contact", async () => {
+      const secondaryContact = mockContacts[1];
+      prismaMock.contact.findUnique.mockResolvedValue(secondaryContact);
+
+      const result = await contactService.deleteContact(context, secondaryContact.id);
+
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledTimes(1);
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [secondaryContact.id] }, deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(prismaMock.contact.update).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        mode: "soft",
+        deletedContactIds: [secondaryContact.id],
+        promotedContactId: null,
+      });
+    });
+
+    it("should promote the oldest remaining secondary when the primary is deleted", async () => {
+      const [primaryContact, secondary1, secondary2] = mockContacts;
+      prismaMock.contact.findUnique.mockResolvedValue(primaryContact);
+      prismaMock.$queryRaw.mockResolvedValue([secondary1, secondary2]);
+      prismaMock.contact.update.mockResolvedValue({
+        ...secondary1,
+        linkPrecedence: "primary",
+        linkedId: null,
+      });
+
+      const result = await contactService.deleteContact(context, primaryContact.id);
+
+      expect(prismaMock.$queryRaw.mock.calls[0].slice(1)).toEqual([
+        [primaryContact.id],
+        [primaryContact.id],
+      ]);
+      expect(prismaMock.contact.update).toHaveBeenCalledWith({
+        where: { id: secondary1.id },
+        data: { linkPrecedence: "primary", linkedId: null },
+      });
+      expect(prismaMock.contact.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: [secondary2.id] } },
+        data: { linkedId: secondary1.id, linkPrecedence: "secondary" },
+      });
+      expect(result?.promotedContactId).toBe(secondary1.id);
+    });
+
+    it("should scrub identifiers in erase mode", async () => {
+      const secondaryContact = mockContacts[1];
+      prismaMock.contact.findUnique.mockResolvedValue(secondaryContact);
+
+      const result = await contactService.deleteContact(
+        context,
+        secondaryContact.id,
+        "erase"
+      );
+
+      expect(prismaMock.contact.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: [secondaryContact.id] } },
+        data: {
+          email: null,
+          phoneNumber: null,
+          normalizedEmail: null,
+          normalizedPhoneNumber: null,
+          erasedAt: expect.any(Date),
+        },
+      });
+      expect(prismaMock.contactEvent.updateMany).toHaveBeenCalledWith({
+        where: { contactId: { in: [secondaryContact.id] } },
+        data: { payload: { erased: true } },
+      });
+      expect(result?.mode).toBe("erase");
+    });
+
+    it("should scrub the erased identifiers from suggestions and the identity's events", async () => {
+      const [, secondaryContact] = mockContacts;
+      prismaMock.contact.findUnique.mockResolvedValue(secondaryContact);
+      prismaMock.mergeSuggestion.findMany.mockResolvedValue([
+        {
+          id: 8,
+          tenantId: "default",
+          primaryContactIds: [1, 4],
+          payload: {
+            operation: "identify",
+            email: " Doc.Brown@TimeMachine.com",
+          },
+          status: "pending",
+          createdAt: new Date("2023-05-01T00:00:00Z"),
+          resolvedAt: null,
+        },
+        {
+          id: 9,
+          tenantId: "default",
+          primaryContactIds: [1, 4],
+          payload: { operation: "identify", phoneNumber: "555-0003" },
+          status: "pending",
+          createdAt: new Date("2023-05-01T00:00:00Z"),
+          resolvedAt: null,
+        },
+      ]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        createMockContact({ id: 1 }),
+        createMockContact({ id: 3 }),
+      ]);
+      prismaMock.contactEvent.findMany.mockResolvedValue([
+        {
+          id: 20,
+          contactId: 1,
+          type: "primary_merged",
+          previousLinkedId: null,
+          linkedId: 1,
+          payload: {
+            operation: "identify",
+            email: "doc.brown@timemachine.com",
+          },
+          createdAt: new Date("2023-05-01T00:00:00Z"),
+        },
+        {
+          id: 21,
+          contactId: 3,
+          type: "created",
+          previousLinkedId: null,
+          linkedId: 1,
+          payload: { operation: "identify", email: "emmett.brown@flux.com" },
+          createdAt: new Date("2023-05-01T00:00:00Z"),
+        },
+      ]);
+
+      await contactService.deleteContact(context, secondaryContact.id, "erase");
+
+      expect(prismaMock.contact.findMany).toHaveBeenCalledWith({
+        where: {
+          id: { notIn: [secondaryContact.id] },
+          OR: [
+            { id: { in: [secondaryContact.id, 1] } },
+            { linkedId: { in: [secondaryContact.id, 1] } },
+          ],
+        },
+        select: { id: true },
+      });
+      expect(prismaMock.mergeSuggestion.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [8] } },
+        data: { payload: { erased: true } },
+      });
+      expect(prismaMock.contactEvent.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [20] } },
+        data: { payload: { erased: true } },
+      });
+      expect(prismaMock.$executeRaw).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.stringContaining('DELETE FROM "IdempotencyKey"'),
+        ]),
+        "default",
+        [secondaryContact.id]
+      );
+    });
+
+    it("should erase an already soft-deleted contact without re-promoting", async () => {
+      const deletedPrimary = createMockContact({
+        id: 5,
+        deletedAt: new Date("2024-01-01"),
+      });
+      prismaMock.contact.findUnique.mockResolvedValue(deletedPrimary);
+
+      const result = await contactService.deleteContact(context, 5, "erase");
+
+      expect(prismaMock.$queryRaw).not.toHaveBeenCalled();
+      expect(result?.deletedContactIds).toEqual([5]);
+    });
+
+    it("should return null for missing or already deleted contacts", async () => {
+      prismaMock.contact.findUnique.mockResolvedValueOnce(null);
+      prismaMock.contact.findUnique.mockResolvedValueOnce(
+        createMockContact({ deletedAt: new Date() })
+      );
+
+      expect(await contactService.deleteContact(context, 1)).toBeNull();
+      expect(await contactService.deleteContact(context, 999)).toBeNull();
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteIdentity", () => {
+    it("should soft-delete every contact of the identity", async () => {
+      const [primaryContact, secondaryContact] = mockContacts;
+      prismaMock.contact.findUnique.mockResolvedValueOnce(secondaryContact);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(
+        mockContacts.slice(0, 3)
+      );
+
+      const result = await contactService.deleteIdentity(context, secondaryContact.id);
+
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2, 3] }, deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(result).toEqual({
+        mode: "soft",
+        deletedContactIds: [1, 2, 3],
+        promotedContactId: null,
+      });
+    });
+
+    it("should include previously soft-deleted contacts when erasing", async () => {
+      const primaryContact = mockContacts[0];
+      const deletedSecondary = createMockContact({
+        id: 7,
+        linkedId: primaryContact.id,
+        linkPrecedence: "secondary",
+        deletedAt: new Date("2024-01-01"),
+      });
+      prismaMock.contact.findUnique.mockResolvedValue(primaryContact);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        primaryContact,
+        deletedSecondary,
+      ]);
+
+      const result = await contactService.deleteIdentity(
+        context,
+        primaryContact.id,
+        "erase"
+      );
+
+      expect(prismaMock.contact.findMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          OR: [{ id: primaryContact.id }, { linkedId: primaryContact.id }],
+        },
+      });
+      expect(result?.deletedContactIds).toEqual([primaryContact.id, 7]);
+    });
+  });
+
+  describe("splitIdentity", () => {
+    const mockIdentity = () => {
+      const [primaryContact] = mockContacts;
+      const members = [...mockContacts.slice(0, 3)];
+      prismaMock.contact.findUnique.mockResolvedValue(primaryContact);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(members);
+    };
+
+    it("should preview both identities without writing on a dry run", async () => {
+      mockIdentity();
+
+      const result = await contactService.splitIdentity(context, 1, [2], true);
+
+      expect(result).toEqual({
+        dryRun: true,
+        remaining: {
+          contact: {
+            primaryContactId: 1,
+            emails: ["emmett.brown@flux.com"],
+            phoneNumbers: ["555-0001", "555-0002"],
+            secondaryContactIds: [3],
+          },
+        },
+        detached: {
+          contact: {
+            primaryContactId: 2,
+            emails: ["doc.brown@timemachine.com"],
+            phoneNumbers: ["555-0001"],
+            secondaryContactIds: [],
+          },
+        },
+      });
+      expect(prismaMock.contact.update).not.toHaveBeenCalled();
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should make the oldest detached contact the new primary", async () => {
+      mockIdentity();
+
+      const result = await contactService.splitIdentity(context, 1, [2, 3]);
+
+      expect(prismaMock.contact.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { linkPrecedence: "primary", linkedId: null },
+      });
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [3] } },
+        data: { linkPrecedence: "secondary", linkedId: 2 },
+      });
+      expect(result?.detached.contact).toMatchObject({
+        primaryContactId: 2,
+        secondaryContactIds: [3],
+      });
+      expect(result?.remaining.contact.primaryContactId).toBe(1);
+    });
+
+    it("should promote the oldest remaining contact when the primary is detached", async () => {
+      mockIdentity();
+
+      const result = await contactService.splitIdentity(context, 1, [1]);
+
+      expect(result?.remaining.contact).toMatchObject({
+        primaryContactId: 2,
+        secondaryContactIds: [3],
+      });
+      expect(result?.detached.contact).toMatchObject({
+        primaryContactId: 1,
+        secondaryContactIds: [],
+      });
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [3] } },
+        data: { linkPrecedence: "secondary", linkedId: 2 },
+      });
+    });
+
+    it("should reject contacts outside the identity", async () => {
+      mockIdentity();
+
+      await expect(contactService.splitIdentity(context, 1, [4])).rejects.toThrow(
+        "Contacts 4 do not belong to this identity."
+      );
+    });
+
+    it("should reject detaching the whole identity", async () => {
+      mockIdentity();
+
+      await expect(
+        contactService.splitIdentity(context, 1, [1, 2, 3])
+      ).rejects.toBeInstanceOf(InvalidRequestError);
+    });
+
+    it("should return null when the contact does not exist", async () => {
+      prismaMock.contact.findUnique.mockResolvedValue(null);
+
+      expect(await contactService.splitIdentity(context, 404, [1])).toBeNull();
+    });
+  });
+
+  describe("getIdentityHistory", () => {
+    it("should return the events of every contact in the identity", async () => {
+      const [primaryContact, secondaryContact] = mockContacts;
+      const events = [
+        {
+          id: 1,
+          contactId: 1,
+          type: "created" as const,
+          previousLinkedId: null,
+          linkedId: null,
+          payload: { operation: "identify" },
+          createdAt: new Date("2023-04-01"),
+        },
+      ];
+      prismaMock.contact.findUnique.mockResolvedValueOnce(secondaryContact);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(
+        mockContacts.slice(0, 3)
+      );
+      prismaMock.contactEvent.findMany.mockResolvedValue(events);
+
+      const result = await contactService.getIdentityHistory(
+        context,
+        secondaryContact.id
+      );
+
+      expect(prismaMock.contactEvent.findMany).toHaveBeenCalledWith({
+        where: { contactId: { in: [2, 1, 3] } },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      });
+      expect(result).toEqual({ primaryContactId: 1, events });
+    });
+
+    it("should return null when the contact does not exist", async () => {
+      prismaMock.contact.findUnique.mockResolvedValue(null);
+
+      expect(await contactService.getIdentityHistory(context, 404)).toBeNull();
+    });
+  });
+
+  describe("repairLinks", () => {
+    const linked = (
+      id: number,
+      linkedId: number | null,
+      overrides: Partial<Contact> = {}
+    ): Contact =>
+      createMockContact({
+        id,
+        linkedId,
+        linkPrecedence: linkedId === null ? "primary" : "secondary",
+        ...overrides,
+      });
+
+    it("should flatten chains onto the primary they lead to", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([
+        linked(1, null),
+        linked(2, 1),
+        linked(3, 2),
+        linked(4, 3, { deletedAt: new Date() }),
+        linked(5, 4),
+      ]);
+
+      const report = await contactService.repairLinks(context);
+
+      expect(report).toEqual({
+        dryRun: false,
+        scannedContacts: 5,
+        promoted: [],
+        relinked: [
+          { contactId: 3, previousLinkedId: 2, linkedId: 1 },
+          { contactId: 5, previousLinkedId: 4, linkedId: 1 },
+        ],
+      });
+      expect(prismaMock.contact.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tenantId: "default" } })
+      );
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [3, 5] } },
+        data: { linkPrecedence: "secondary", linkedId: 1 },
+      });
+      expect(prismaMock.contactEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            contactId: 3,
+            type: "relinked",
+            previousLinkedId: 2,
+            linkedId: 1,
+            payload: { operation: "repairLinks" },
+          },
+          {
+            contactId: 5,
+            type: "relinked",
+            previousLinkedId: 4,
+            linkedId: 1,
+            payload: { operation: "repairLinks" },
+          },
+        ],
+      });
+    });
+
+    it("should promote the oldest orphan of each broken chain and link the rest to it", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([
+        linked(10, null, { deletedAt: new Date() }),
+        linked(11, 10),
+        linked(12, 10),
+        linked(13, 11),
+        linked(20, 999),
+        linked(30, 31),
+        linked(31, 30),
+      ]);
+
+      const report = await contactService.repairLinks(context);
+
+      expect(report.promoted).toEqual([
+        { contactId: 11, previousLinkedId: 10, linkedId: null },
+        { contactId: 20, previousLinkedId: 999, linkedId: null },
+        { contactId: 30, previousLinkedId: 31, linkedId: null },
+      ]);
+      expect(report.relinked).toEqual([
+        { contactId: 12, previousLinkedId: 10, linkedId: 11 },
+      ]);
+      expect(prismaMock.contact.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [11, 20, 30] } },
+        data: { linkPrecedence: "primary", linkedId: null },
+      });
+    });
+
+    it("should only report the changes on a dry run", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([
+        linked(1, null),
+        linked(2, 1),
+        linked(3, 2),
+      ]);
+
+      const report = await contactService.repairLinks(context, true);
+
+      expect(report.dryRun).toBe(true);
+      expect(report.relinked).toHaveLength(1);
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+      expect(prismaMock.contactEvent.createMany).not.toHaveBeenCalled();
+    });
+
+    it("should change nothing when every secondary is linked to its primary", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([
+        linked(1, null),
+        linked(2, 1),
+        linked(3, 1),
+      ]);
+
+      const report = await contactService.repairLinks(context);
+
+      expect(report).toMatchObject({ promoted: [], relinked: [] });
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildResponseFromContacts (private method access for testing)", () => {
+    it("should throw an error if called with an empty array", () => {
+      const service = contactService as any;
+      expect(() => service.buildResponseFromContacts([])).toThrow(
+        "Cannot build response from empty contacts array"
+      );
+    });
+
+    it("should find the oldest contact as primary if no primary contact exists", () => {
+      const secondary1 = createMockContact({
+        id: 1,
+        linkPrecedence: "secondary",
+        createdAt: new Date("2023-01-01"),
+      });
+      const secondary2 = createMockContact({
+        id: 2,
+        linkPrecedence: "secondary",
+        createdAt: new Date("2023-01-02"),
+      });
+      const service = contactService as any;
+
+      const response = service.buildResponseFromContacts([
+        secondary2,
+        secondary1,
+      ]);
+
+      expect(response.contact.primaryContactId).toBe(1);
+    });
+
+    it("should correctly sort emails and phoneNumbers with the primary info first", () => {
+      const service = contactService as any;
+      const primary = createMockContact({
+        id: 1,
+        email: "primary@email.com",
+        phoneNumber: "111",
+        createdAt: new Date("2023-01-01"),
+      });
+      const secondary = createMockContact({
+        id: 2,
+        email: "secondary@email.com",
+        phoneNumber: "222",
+        linkPrecedence: "secondary",
+        linkedId: 1,
+        createdAt: new Date("2023-01-02"),
+      });
+
+      const response = service.buildResponseFromContacts([secondary, primary]);
+
+      expect(response.contact.emails[0]).toBe("primary@email.com");
+      expect(response.contact.phoneNumbers[0]).toBe("111");
+    });
+  });
+
+  describe("typed identifiers", () => {
+    const loyaltyCard = (contactId: number, value: string) => ({
+      id: contactId * 10,
+      contactId,
+      type: "loyaltyCard",
+      value,
+      normalizedValue: value.trim(),
+      verifiedAt: null,
+      createdAt: new Date(),
+    });
+
+    it("should match and store identifiers of other types", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 1, email: null, phoneNumber: null })
+      );
+
+      const result = await contactService.identify(context, null, null, {
+        loyaltyCard: " LC-0042 ",
+      });
+
+      expect(prismaMock.contact.findMany).toHaveBeenCalledWith({
+        where: {
+          tenantId: "default",
+          deletedAt: null,
+          OR: [
+            {
+              identifiers: {
+                some: { type: "loyaltyCard", normalizedValue: "LC-0042" },
+              },
+            },
+          ],
+        },
+      });
+      expect(prismaMock.contact.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          identifiers: {
+            create: [
+              {
+                type: "loyaltyCard",
+                value: " LC-0042 ",
+                normalizedValue: "LC-0042",
+              },
+            ],
+          },
+        }),
+      });
+      expect(result.contact.identifiers).toEqual({ loyaltyCard: [" LC-0042 "] });
+    });
+
+    it("should link a new identifier of another type to the identity", async () => {
+      const primaryContact = mockContacts[0];
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contactIdentifier.findMany.mockResolvedValue([
+        loyaltyCard(primaryContact.id, "LC-0001"),
+      ]);
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 10, linkedId: 1, linkPrecedence: "secondary" })
+      );
+
+      const result = await contactService.identify(
+        context,
+        primaryContact.email,
+        null,
+        { loyaltyCard: "LC-0002" }
+      );
+
+      expect(prismaMock.contact.create).toHaveBeenCalled();
+      expect(result.contact.identifiers).toEqual({
+        loyaltyCard: ["LC-0001", "LC-0002"],
+      });
+    });
+
+    it("should not create a contact for identifiers the identity already has", async () => {
+      const primaryContact = mockContacts[0];
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([primaryContact]);
+      prismaMock.contactIdentifier.findMany.mockResolvedValue([
+        loyaltyCard(primaryContact.id, "LC-0001"),
+      ]);
+
+      await contactService.identify(context, primaryContact.email, null, {
+        loyaltyCard: " LC-0001",
+      });
+
+      expect(prismaMock.contact.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject identifier types that are not configured", async () => {
+      await expect(
+        contactService.identify(context, null, null, { passport: "X123" })
+      ).rejects.toThrow(InvalidRequestError);
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should leave identifiers out of responses of identities without any", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create.mockResolvedValue(createMockContact({ id: 1 }));
+
+      const result = await contactService.identify(
+        context,
+        "test@example.com",
+        null
+      );
+
+      expect(result.contact).not.toHaveProperty("identifiers");
+    });
+
+    it("should delete the identifiers of erased contacts", async () => {
+      prismaMock.contact.findUnique.mockResolvedValue(mockContacts[1]);
+
+      await contactService.deleteContact(context, mockContacts[1].id, "erase");
+
+      expect(prismaMock.contactIdentifier.deleteMany).toHaveBeenCalledWith({
+        where: { contactId: { in: [mockContacts[1].id] } },
+      });
+    });
+  });
+
+  describe("tenant isolation", () => {
+    const acme = { tenantId: "acme" };
+
+    it("should match and create contacts within the request's tenant only", async () => {
+      const email = mockContacts[0].email;
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 10, email, tenantId: "acme" })
+      );
+
+      await contactService.identify(acme, email, null);
+
+      expect(prismaMock.contact.findMany).toHaveBeenCalledWith({
+        where: {
+          tenantId: "acme",
+          deletedAt: null,
+          OR: [{ normalizedEmail: email }],
+        },
+      });
+      expect(prismaMock.contact.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ tenantId: "acme", email }),
+      });
+    });
+
+    it("should lock identifiers per tenant", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create.mockResolvedValue(createMockContact());
+
+      await contactService.identify(acme, "test@example.com", null);
+
+      expect(prismaMock.$executeRaw).toHaveBeenCalledWith(
+        expect.anything(),
+        "email:acme:test@example.com"
+      );
+    });
+
+    it("should treat contacts of other tenants as missing", async () => {
+      prismaMock.contact.findUnique.mockResolvedValue(mockContacts[0]);
+
+      expect(
+        await contactService.findIdentityByContactId(acme, mockContacts[0].id)
+      ).toBeNull();
+      expect(
+        await contactService.getIdentityHistory(acme, mockContacts[0].id)
+      ).toBeNull();
+      expect(
+        await contactService.deleteIdentity(acme, mockContacts[0].id)
+      ).toBeNull();
+      expect(
+        await contactService.splitIdentity(acme, mockContacts[0].id, [2])
+      ).toBeNull();
+      expect(prismaMock.contact.findMany).not.toHaveBeenCalled();
+      expect(prismaMock.contact.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("edge cases", () => {
+    it("should handle null email", async () => {
+      const phoneNumber = "555-0001";
+      const existingContact = mockContacts[0];
+
+      prismaMock.contact.findMany.mockResolvedValueOnce([existingContact]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([existingContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+
+      const result = await contactService.identify(context, null, phoneNumber);
+
+      expect(result.contact.primaryContactId).toBe(existingContact.id);
+    });
+
+    it("should handle null phoneNumber", async () => {
+      const email = "emmett.brown@flux.com";
+      const existingContact = mockContacts[0];
+
+      prismaMock.contact.findMany.mockResolvedValueOnce([existingContact]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([existingContact]);
+      prismaMock.contact.findMany.mockResolvedValueOnce(mockContacts);
+
+      const result = await contactService.identify(context, email, null);
+
+      expect(result.contact.primaryContactId).toBe(existingContact.id);
+    });
+  });
+
+  describe("webhooks", () => {
+    const subscribe = () =>
+      prismaMock.webhookSubscription.findMany.mockResolvedValue([
+        { id: 7 },
+      ] as WebhookSubscription[]);
+
+    it("should queue a new_primary event for subscribers", async () => {
+      const { email, phoneNumber } = testScenarios.newContact;
+      subscribe();
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 1, email, phoneNumber })
+      );
+
+      await contactService.identify(context, email, phoneNumber);
+
+      expect(prismaMock.webhookSubscription.findMany).toHaveBeenCalledWith({
+        where: { tenantId: "default", events: { has: "new_primary" } },
+        select: { id: true },
+      });
+      expect(prismaMock.webhookDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            subscriptionId: 7,
+            eventType: "new_primary",
+            payload: {
+              id: expect.any(String),
+              type: "new_primary",
+              tenantId: "default",
+              occurredAt: expect.any(String),
+              data: { primaryContactId: 1 },
+            },
+          },
+        ],
+      });
+    });
+
+    it("should queue a primaries_merged event naming the demoted primaries", async () => {
+      const { email, phoneNumber } = testScenarios.linkingIdentities;
+      const olderPrimary = mockContacts[0];
+      const newerPrimary = mockSeparatePrimaryContact;
+      subscribe();
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        olderPrimary,
+        newerPrimary,
+      ]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([
+        olderPrimary,
+        newerPrimary,
+      ]);
+      prismaMock.$queryRaw.mockResolvedValueOnce([]);
+      prismaMock.contact.findMany.mockResolvedValueOnce([
+        olderPrimary,
+        { ...newerPrimary, linkPrecedence: "secondary", linkedId: 1 },
+      ]);
+
+      await contactService.identify(context, email, phoneNumber);
+
+      expect(prismaMock.webhookDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            eventType: "primaries_merged",
+            payload: expect.objectContaining({
+              data: { primaryContactId: 1, mergedPrimaryContactIds: [4] },
+            }),
+          }),
+        ],
+      });
+    });
+
+    it("should not queue anything without subscribers", async () => {
+      const { email, phoneNumber } = testScenarios.newContact;
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 1, email, phoneNumber })
+      );
+
+      await contactService.identify(context, email, phoneNumber);
+
+      expect(prismaMock.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reporting changes", () => {
+    const { email, phoneNumber } = testScenarios.newContact;
+
+    beforeEach(() => {
+      registry.resetMetrics();
+      prismaMock.contact.findMany.mockResolvedValue([]);
+      prismaMock.contact.create.mockResolvedValue(
+        createMockContact({ id: 1, email, phoneNumber })
+      );
+    });
+
+    it("should count the changes of the attempt that committed only", async () => {
+      const conflict = Object.assign(new Error("could not serialize"), {
+        code: "P2034",
+      });
+      // The first attempt records its events, then fails to commit
+      prismaMock.$transaction.mockImplementationOnce((async (
+        fn: (tx: Prisma.TransactionClient) => Promise<unknown>
+      ): Promise<unknown> => {
+        await fn(prismaMock);
+        throw conflict;
+      }) as PrismaClient["$transaction"]);
+
+      await contactService.identify(context, email, phoneNumber);
+
+      expect(prismaMock.$transaction).toHaveBeenCalledTimes(2);
+      expect((await contactChanges.newPrimaries.get()).values[0].value).toBe(1);
+    });
+
+    it("should log the changes with the request id", async () => {
+      const info = jest.fn();
+      const contextLogger = jest
+        .spyOn(loggerModule, "contextLogger")
+        .mockReturnValue({ ...loggerModule.logger, info });
+
+      await contactService.identify(
+        { ...context, requestId: "req-42" },
+        email,
+        phoneNumber
+      );
+
+      expect(contextLogger).toHaveBeenCalledWith({
+        tenantId: "default",
+        requestId: "req-42",
+      });
+      expect(info).toHaveBeenCalledWith("Contacts changed", {
+        changes: { created: 1 },
+      });
+      contextLogger.mockRestore();
+    });
+
+    it("should not report transactions that change nothing", async () => {
+      const contextLogger = jest.spyOn(loggerModule, "contextLogger");
+      prismaMock.contact.findUnique.mockResolvedValue(null);
+
+      await contactService.deleteContact(context, 404, "soft");
+
+      expect(contextLogger).not.toHaveBeenCalled();
+      contextLogger.mockRestore();
     });
   });
 });
@@ -0,0 +1,140 @@
+import {
+  blockingKeys,
+  editDistance,
+  IdentityFingerprint,
+  scoreIdentityPair,
+} from "../../src/duplicates/duplicateScoring";
+
+const identity = (
+  primaryContactId: number,
+  emails: string[],
+  phoneNumbers: string[] = []
+): IdentityFingerprint => ({ primaryContactId, emails, phoneNumbers });
+
+describe("duplicateScoring", () => {
+  describe("editDistance", () => {
+    it("should count insertions, deletions and substitutions", () => {
+      expect(editDistance("kitten", "sitting")).toBe(3);
+      expect(editDistance("", "abc")).toBe(3);
+      expect(editDistance("same", "same")).toBe(0);
+    });
+
+    it("should count a swap of adjacent characters as one edit", () => {
+      expect(editDistance("gmail", "gmial")).toBe(1);
+    });
+  });
+
+  describe("scoreIdentityPair", () => {
+    it("should score an email with a typo as a likely duplicate", () => {
+      const score = scoreIdentityPair(
+        identity(1, ["lorraine@hillvalley.edu"]),
+        identity(2, ["lorraine@hillvaley.edu"])
+      );
+
+      expect(score.score).toBeGreaterThan(0.8);
+      expect(score.emailSimilarity).toBeCloseTo(1 - 1 / 23);
+      expect(score.phoneSimilarity).toBeNull();
+      expect(score.sharedDomain).toBe(false);
+    });
+
+    it("should not score phone numbers a digit apart as a duplicate alone", () => {
+      const oneDigitOff = scoreIdentityPair(
+        identity(1, [], ["+14155550123"]),
+        identity(2, [], ["+14155550124"])
+      );
+      const swappedDigits = scoreIdentityPair(
+        identity(1, [], ["+14155550123"]),
+        identity(2, [], ["+14155550132"])
+      );
+
+      expect(oneDigitOff.phoneSimilarity).toBeCloseTo(1 - 1 / 11);
+      expect(oneDigitOff.score).toBeLessThan(0.7);
+      expect(swappedDigits.score).toBeLessThan(0.7);
+      expect(oneDigitOff.emailSimilarity).toBeNull();
+    });
+
+    it("should weigh equal phone numbers as much as an email", () => {
+      const score = scoreIdentityPair(
+        identity(1, [], ["+14155550123"]),
+        identity(2, [], ["+14155550123"])
+      );
+
+      expect(score.score).toBeCloseTo(0.9);
+    });
+
+    it("should score short local parts at the same domain low", () => {
+      const score = scoreIdentityPair(
+        identity(1, ["jon@gmail.com"]),
+        identity(2, ["ann@gmail.com"])
+      );
+
+      expect(score.emailSimilarity).toBe(0);
+      expect(score.sharedDomain).toBe(true);
+      expect(score.score).toBeCloseTo(0.2);
+    });
+
+    it("should raise the score with every signal that agrees", () => {
+      const emailOnly = scoreIdentityPair(
+        identity(1, ["marty@hillvalley.edu"], ["+14155550123"]),
+        identity(2, ["marty@hillvaley.edu"], ["+19998887777"])
+      );
+      const emailAndPhone = scoreIdentityPair(
+        identity(1, ["marty@hillvalley.edu"], ["+14155550123"]),
+        identity(2, ["marty@hillvaley.edu"], ["+14155550124"])
+      );
+
+      expect(emailOnly.phoneSimilarity).toBe(0);
+      expect(emailAndPhone.score).toBeGreaterThan(emailOnly.score);
+      expect(emailAndPhone.score).toBeLessThan(1);
+    });
+
+    it("should compare the closest values of each identity", () => {
+      const score = scoreIdentityPair(
+        identity(1, ["doc@example.com", "emmett@hillvalley.edu"]),
+        identity(2, ["emmet@hillvalley.edu"])
+      );
+
+      expect(score.emailSimilarity).toBeCloseTo(1 - 1 / 21);
+      expect(score.sharedDomain).toBe(true);
+    });
+  });
+
+  describe("blockingKeys", () => {
+    it("should share a key between emails with a typo at either end", () => {
+      const keys = new Set(blockingKeys(identity(1, ["lorraine@example.com"])));
+
+      expect(
+        blockingKeys(identity(2, ["lorrainne@example.com"])).some((key) =>
+          keys.has(key)
+        )
+      ).toBe(true);
+      expect(
+        blockingKeys(identity(3, ["lorraine@exmaple.com"])).some((key) =>
+          keys.has(key)
+        )
+      ).toBe(true);
+    });
+
+    it("should share a key between phone numbers with swapped digits", () => {
+      const keys = new Set(blockingKeys(identity(1, [], ["+14155550123"])));
+
+      expect(
+        blockingKeys(identity(2, [], ["+41145550123"])).some((key) =>
+          keys.has(key)
+        )
+      ).toBe(true);
+    });
+
+    it("should not share keys between unrelated identities", () => {
+      const keys = new Set(
+        blockingKeys(identity(1, ["marty@example.com"], ["+14155550123"]))
+      );
+
+      expect(
+        blockingKeys(identity(2, ["biff@tannen.com"], ["+19998887777"])).some(
+          (key) => keys.has(key)
+        )
+      ).toBe(false);
+    });
+  });
+});
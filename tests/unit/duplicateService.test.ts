@@ -0,0 +1,141 @@
+import { DuplicateService } from "../../src/services/duplicateService";
+import { prismaMock } from "../mocks/prismaClient";
+import { createMockContact } from "../fixtures/contactData";
+
+jest.mock("@prisma/client", () => {
+  const { prismaMock: mock } = require("../mocks/prismaClient");
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mock),
+  };
+});
+
+const context = { tenantId: "acme" };
+
+const contact = (
+  id: number,
+  normalizedEmail: string | null,
+  normalizedPhoneNumber: string | null,
+  linkedId: number | null = null
+) =>
+  createMockContact({
+    id,
+    normalizedEmail,
+    normalizedPhoneNumber,
+    linkedId,
+    linkPrecedence: linkedId === null ? "primary" : "secondary",
+    tenantId: context.tenantId,
+  });
+
+describe("DuplicateService", () => {
+  let duplicateService: DuplicateService;
+
+  beforeEach(() => {
+    duplicateService = new DuplicateService();
+  });
+
+  describe("findDuplicates", () => {
+    it("should store the pairs of identities scoring at least the minimum", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([
+        contact(1, "lorraine@hillvalley.edu", null),
+        contact(2, null, "+14155550123", 1),
+        contact(3, "lorraine@hillvaley.edu", null),
+        contact(4, "biff@tannen.com", "+19998887777"),
+      ]);
+
+      const report = await duplicateService.findDuplicates(context);
+
+      expect(prismaMock.contact.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tenantId: "acme", deletedAt: null },
+        })
+      );
+      expect(prismaMock.duplicateCandidate.deleteMany).toHaveBeenCalledWith({
+        where: { tenantId: "acme" },
+      });
+      expect(prismaMock.duplicateCandidate.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            tenantId: "acme",
+            primaryContactIds: [1, 3],
+            phoneSimilarity: null,
+            sharedDomain: false,
+          }),
+        ],
+      });
+      expect(report).toEqual(
+        expect.objectContaining({
+          tenantId: "acme",
+          identities: 3,
+          comparedPairs: 1,
+          skippedKeys: 0,
+          candidates: 1,
+        })
+      );
+    });
+
+    it("should count secondaries towards the identity of their primary", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([
+        contact(1, null, "+14155550123"),
+        contact(2, "marty@example.com", null, 1),
+        contact(3, "marty@exmaple.com", null),
+      ]);
+
+      await duplicateService.findDuplicates(context);
+
+      expect(prismaMock.duplicateCandidate.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            primaryContactIds: [1, 3],
+            phoneSimilarity: null,
+          }),
+        ],
+      });
+    });
+
+    it("should leave out pairs scoring below the minimum", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([
+        contact(1, "lorraine@hillvalley.edu", null),
+        contact(2, "lorraine@hillvaley.edu", null),
+      ]);
+
+      const report = await duplicateService.findDuplicates(context, 0.95);
+
+      expect(prismaMock.duplicateCandidate.createMany).toHaveBeenCalledWith({
+        data: [],
+      });
+      expect(report.comparedPairs).toBe(1);
+      expect(report.candidates).toBe(0);
+    });
+
+    it("should skip blocking keys shared by too many identities", async () => {
+      duplicateService = new DuplicateService(2);
+      prismaMock.contact.findMany.mockResolvedValue([
+        contact(1, "info@alpha.com", null),
+        contact(2, "info@beta.com", null),
+        contact(3, "info@gamma.com", null),
+      ]);
+
+      const report = await duplicateService.findDuplicates(context, 0);
+
+      expect(report.skippedKeys).toBe(1);
+      expect(report.comparedPairs).toBe(0);
+    });
+  });
+
+  describe("listCandidates", () => {
+    it("should list the tenant's candidates highest score first", async () => {
+      prismaMock.$queryRaw.mockResolvedValue([]);
+
+      await duplicateService.listCandidates(context, 0.8, 50);
+
+      expect(prismaMock.$queryRaw).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.stringContaining('ORDER BY "candidate"."score" DESC'),
+        ]),
+        "acme",
+        0.8,
+        50
+      );
+    });
+  });
+});
@@ -0,0 +1,411 @@
+import { graphql, GraphQLError } from "graphql";
+import { ApiKeyScope, ContactEvent, ContactIdentifier } from "@prisma/client";
+import { ContactService } from "../../src/services/contactService";
+import { GraphQLContext, schema } from "../../src/graphql/schema";
+import { createLoaders } from "../../src/graphql/loaders";
+import { formatError } from "../../src/graphql/formatError";
+import { countIdentifyFields } from "../../src/graphql/identifyCount";
+import { InvalidRequestError, LimitExceededError } from "../../src/errors";
+import { IdentifyResponse } from "../../src/types/identify";
+import { prismaMock } from "../mocks/prismaClient";
+import { createMockContact } from "../fixtures/contactData";
+
+jest.mock("@prisma/client", () => {
+  const { prismaMock: mock } = require("../mocks/prismaClient");
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mock),
+  };
+});
+
+const requestContext = { tenantId: "default" };
+
+const identity = (
+  primaryContactId: number,
+  secondaryContactIds: number[]
+): IdentifyResponse => ({
+  contact: {
+    primaryContactId,
+    emails: [`customer-${primaryContactId}@example.com`],
+    phoneNumbers: [],
+    secondaryContactIds,
+  },
+});
+
+const event = (id: number, contactId: number): ContactEvent => ({
+  id,
+  contactId,
+  type: "created",
+  previousLinkedId: null,
+  linkedId: null,
+  payload: null,
+  createdAt: new Date("2023-04-01T00:00:00.000Z"),
+});
+
+describe("GraphQL schema", () => {
+  let contactService: ContactService;
+
+  const execute = (
+    source: string,
+    variableValues?: Record<string, unknown>,
+    scopes: ApiKeyScope[] = ["read", "identify"]
+  ) => {
+    const contextValue: GraphQLContext = {
+      requestContext,
+      apiKey: {
+        id: 1,
+        name: "storefront",
+        prefix: "bsk_test",
+        scopes,
+        tenantId: "default",
+        anyTenant: false,
+        createdAt: new Date(),
+        lastUsedAt: null,
+        revokedAt: null,
+      },
+      contactService,
+      loaders: createLoaders(contactService, requestContext),
+    };
+    return graphql({ schema, source, variableValues, contextValue });
+  };
+
+  beforeEach(() => {
+    contactService = new ContactService();
+  });
+
+  describe("identity", () => {
+    it("should load the contacts of every identity in the query with one statement", async () => {
+      jest
+        .spyOn(contactService, "findIdentityByContactId")
+        .mockImplementation(async (_context, contactId) =>
+          contactId === 1 ? identity(1, [2, 3]) : identity(4, [])
+        );
+      prismaMock.contact.findMany.mockResolvedValue([
+        createMockContact({ id: 1, email: "customer-1@example.com" }),
+        createMockContact({
+          id: 2,
+          linkedId: 1,
+          linkPrecedence: "secondary",
+        }),
+        createMockContact({ id: 4, email: "customer-4@example.com" }),
+      ]);
+
+      const result = await execute(`
+        {
+          a: identity(contactId: 1) {
+            primary { id email }
+            secondaries { id linkedId }
+          }
+          b: identity(contactId: 4) {
+            primary { id email }
+            secondaries { id }
+          }
+        }
+      `);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data).toEqual({
+        a: {
+          primary: { id: 1, email: "customer-1@example.com" },
+          // Contact 3 was deleted since the identity was resolved
+          secondaries: [{ id: 2, linkedId: 1 }],
+        },
+        b: {
+          primary: { id: 4, email: "customer-4@example.com" },
+          secondaries: [],
+        },
+      });
+      expect(prismaMock.contact.findMany).toHaveBeenCalledTimes(1);
+      expect(prismaMock.contact.findMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: [1, 2, 3, 4] },
+          tenantId: "default",
+          deletedAt: null,
+        },
+      });
+    });
+
+    it("should load the histories of every identity with one statement each for members and events", async () => {
+      jest
+        .spyOn(contactService, "findIdentityByContactId")
+        .mockImplementation(async (_context, contactId) =>
+          identity(contactId, [])
+        );
+      prismaMock.contact.findMany.mockResolvedValue([
+        createMockContact({ id: 1 }),
+        createMockContact({ id: 2, linkedId: 1 }),
+        createMockContact({ id: 4 }),
+      ]);
+      prismaMock.contactEvent.findMany.mockResolvedValue([
+        event(10, 1),
+        event(11, 4),
+        event(12, 2),
+      ]);
+
+      const result = await execute(`
+        {
+          a: identity(contactId: 1) { history { id contactId type } }
+          b: identity(contactId: 4) { history { id contactId type } }
+        }
+      `);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data).toEqual({
+        a: {
+          history: [
+            { id: 10, contactId: 1, type: "created" },
+            { id: 12, contactId: 2, type: "created" },
+          ],
+        },
+        b: { history: [{ id: 11, contactId: 4, type: "created" }] },
+      });
+      expect(prismaMock.contact.findMany).toHaveBeenCalledTimes(1);
+      expect(prismaMock.contactEvent.findMany).toHaveBeenCalledTimes(1);
+      expect(prismaMock.contactEvent.findMany).toHaveBeenCalledWith({
+        where: { contactId: { in: [1, 2, 4] } },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      });
+    });
+
+    it("should return null for contacts that do not exist", async () => {
+      prismaMock.contact.findUnique.mockResolvedValue(null);
+
+      const result = await execute(
+        `{ identity(contactId: 404) { primaryContactId } }`
+      );
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data).toEqual({ identity: null });
+    });
+  });
+
+  describe("identityByIdentifiers", () => {
+    it("should return null when nothing matches", async () => {
+      prismaMock.contact.findMany.mockResolvedValue([]);
+
+      const result = await execute(
+        `{ identityByIdentifiers(email: "nobody@example.com") { primaryContactId } }`
+      );
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data).toEqual({ identityByIdentifiers: null });
+    });
+
+    it("should validate the arguments like the REST lookup", async () => {
+      const findIdentity = jest.spyOn(contactService, "findIdentity");
+
+      const malformed = await execute(
+        `{ identityByIdentifiers(email: "not-an-email") { primaryContactId } }`
+      );
+      const missing = await execute(
+        `{ identityByIdentifiers(email: null) { primaryContactId } }`
+      );
+
+      expect(malformed.errors?.[0].extensions).toEqual({
+        code: "BAD_USER_INPUT",
+        errors: [
+          {
+            field: "email",
+            code: "invalid_format",
+            message: "email must be a valid email.",
+          },
+        ],
+      });
+      expect(missing.errors?.[0].extensions?.errors).toEqual([
+        expect.objectContaining({ field: "args", code: "missing_identifier" }),
+      ]);
+      expect(findIdentity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("contact", () => {
+    it("should load the typed identifiers of every contact with one statement", async () => {
+      const identifier: ContactIdentifier = {
+        id: 7,
+        contactId: 2,
+        type: "loyaltyCard",
+        value: "LC-0042",
+        normalizedValue: "LC-0042",
+        verifiedAt: null,
+        createdAt: new Date(),
+      };
+      prismaMock.contact.findMany.mockResolvedValue([
+        createMockContact({ id: 1 }),
+        createMockContact({ id: 2 }),
+      ]);
+      prismaMock.contactIdentifier.findMany.mockResolvedValue([identifier]);
+
+      const result = await execute(`
+        {
+          a: contact(id: 1) { identifiers { type value } }
+          b: contact(id: 2) { identifiers { type value } }
+        }
+      `);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data).toEqual({
+        a: { identifiers: [] },
+        b: { identifiers: [{ type: "loyaltyCard", value: "LC-0042" }] },
+      });
+      expect(prismaMock.contactIdentifier.findMany).toHaveBeenCalledTimes(1);
+      expect(prismaMock.contactIdentifier.findMany).toHaveBeenCalledWith({
+        where: {
+          contactId: { in: [1, 2] },
+          contact: { tenantId: "default" },
+        },
+        orderBy: { id: "asc" },
+      });
+    });
+  });
+
+  describe("identify", () => {
+    const mutation = `
+      mutation Identify($input: IdentifyInput!) {
+        identify(input: $input) {
+          primaryContactId
+          identifiers { type value }
+        }
+      }
+    `;
+
+    it("should identify the customer with the identifiers as a record", async () => {
+      const identify = jest
+        .spyOn(contactService, "identify")
+        .mockResolvedValue({
+          contact: {
+            ...identity(1, []).contact,
+            identifiers: { loyaltyCard: ["LC-0042"] },
+          },
+        });
+
+      const result = await execute(mutation, {
+        input: {
+          email: "customer-1@example.com",
+          identifiers: [{ type: "loyaltyCard", value: "LC-0042" }],
+          source: "checkout",
+        },
+      });
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data).toEqual({
+        identify: {
+          primaryContactId: 1,
+          identifiers: [{ type: "loyaltyCard", value: "LC-0042" }],
+        },
+      });
+      expect(identify).toHaveBeenCalledWith(
+        requestContext,
+        "customer-1@example.com",
+        null,
+        { loyaltyCard: "LC-0042" },
+        "checkout"
+      );
+    });
+
+    it("should reject API keys without the identify scope", async () => {
+      const identify = jest.spyOn(contactService, "identify");
+
+      const result = await execute(
+        mutation,
+        { input: { email: "customer-1@example.com" } },
+        ["read"]
+      );
+
+      expect(result.errors?.[0].extensions).toEqual({ code: "FORBIDDEN" });
+      expect(identify).not.toHaveBeenCalled();
+    });
+
+    it("should reject input without any identifier", async () => {
+      const identify = jest.spyOn(contactService, "identify");
+
+      const result = await execute(mutation, { input: { source: "login" } });
+
+      expect(result.errors?.[0].extensions?.code).toBe("BAD_USER_INPUT");
+      expect(result.errors?.[0].extensions?.errors).not.toHaveLength(0);
+      expect(identify).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("formatError", () => {
+  const resolverError = (originalError: Error) =>
+    new GraphQLError(originalError.message, {
+      path: ["identify"],
+      originalError,
+    });
+
+  it("should report invalid requests as bad user input", () => {
+    const error = formatError(
+      resolverError(
+        new InvalidRequestError("Contact 9 is not part of the identity")
+      )
+    ) as GraphQLError;
+
+    expect(error.message).toBe("Contact 9 is not part of the identity");
+    expect(error.path).toEqual(["identify"]);
+    expect(error.extensions).toEqual({ code: "BAD_USER_INPUT" });
+  });
+
+  it("should report exceeded limits with the time to wait", () => {
+    const error = formatError(
+      resolverError(new LimitExceededError("Too many merges", 30))
+    ) as GraphQLError;
+
+    expect(error.extensions).toEqual({
+      code: "RATE_LIMITED",
+      retryAfterSeconds: 30,
+    });
+  });
+
+  it("should mask unexpected errors", () => {
+    const error = formatError(
+      resolverError(new Error("connection refused"))
+    ) as GraphQLError;
+
+    expect(error.message).toBe("Internal Server Error");
+    expect(error.extensions).toEqual({ code: "INTERNAL_SERVER_ERROR" });
+  });
+
+  it("should keep errors the resolvers raised as they are", () => {
+    const error = resolverError(
+      new GraphQLError("Nope", { extensions: { code: "FORBIDDEN" } })
+    );
+
+    expect(formatError(error)).toBe(error);
+    expect(error.extensions).toEqual({ code: "FORBIDDEN" });
+  });
+});
+
+describe("countIdentifyFields", () => {
+  const identify = (alias: string) =>
+    `${alias}: identify(email: "${alias}@example.com") { primaryContactId }`;
+
+  it("should count aliased identify fields one by one", () => {
+    const query = `mutation { ${identify("a")} ${identify("b")} ${identify("c")} }`;
+
+    expect(countIdentifyFields({ query })).toBe(3);
+  });
+
+  it("should count identify fields selected through fragments", () => {
+    const query = `
+      mutation Checkout { ...Both ... on Mutation { ${identify("c")} } }
+      fragment Both on Mutation { ${identify("a")} ${identify("b")} }
+    `;
+
+    expect(countIdentifyFields({ query, operationName: "Checkout" })).toBe(3);
+  });
+
+  it("should count only the operation that runs", () => {
+    const query = `
+      query Lookup { contact(id: 1) { id } }
+      mutation Checkout { ${identify("a")} ${identify("b")} }
+    `;
+
+    expect(countIdentifyFields({ query, operationName: "Lookup" })).toBe(0);
+    expect(countIdentifyFields({ query, operationName: "Checkout" })).toBe(2);
+  });
+
+  it("should count nothing in requests that do not parse", () => {
+    expect(countIdentifyFields({ query: "mutation {" })).toBe(0);
+    expect(countIdentifyFields(undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,290 @@
+import { Request, Response } from "express";
+import { IdempotencyKey } from "@prisma/client";
+import {
+  fingerprintRequest,
+  idempotency,
+} from "../../src/idempotency/idempotency";
+import {
+  IdempotencyClaim,
+  IdempotencyStore,
+  PrismaIdempotencyStore,
+} from "../../src/idempotency/idempotencyStore";
+import { prismaMock } from "../mocks/prismaClient";
+
+jest.mock("@prisma/client", () => {
+  const { prismaMock: mock } = require("../mocks/prismaClient");
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mock),
+  };
+});
+
+const NOW = new Date("2026-10-19T12:00:00Z").getTime();
+const TTL_MS = 60_000;
+
+const savedKey = (overrides: Partial<IdempotencyKey> = {}): IdempotencyKey => ({
+  id: 1,
+  tenantId: "acme",
+  key: "k",
+  fingerprint: "f",
+  responseStatus: null,
+  responseBody: null,
+  createdAt: new Date(NOW),
+  expiresAt: new Date(NOW + TTL_MS),
+  ...overrides,
+});
+
+describe("PrismaIdempotencyStore", () => {
+  let store: PrismaIdempotencyStore;
+
+  beforeEach(() => {
+    store = new PrismaIdempotencyStore(TTL_MS, () => NOW);
+    prismaMock.idempotencyKey.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  it("should claim a new key after cleaning up its expired claim", async () => {
+    prismaMock.idempotencyKey.createMany.mockResolvedValue({ count: 1 });
+
+    const claim = await store.claim("acme", "k", "f");
+
+    expect(claim).toEqual({ status: "claimed" });
+    expect(prismaMock.idempotencyKey.deleteMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { tenantId: "acme", key: "k", expiresAt: { lt: new Date(NOW) } },
+    });
+    expect(prismaMock.idempotencyKey.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          tenantId: "acme",
+          key: "k",
+          fingerprint: "f",
+        }),
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  it("should return the saved response of a completed request", async () => {
+    prismaMock.idempotencyKey.createMany.mockResolvedValue({ count: 0 });
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(
+      savedKey({ responseStatus: 200, responseBody: { contact: {} } })
+    );
+
+    const claim = await store.claim("acme", "k", "f");
+
+    expect(claim).toEqual({
+      status: "completed",
+      responseStatus: 200,
+      responseBody: { contact: {} },
+    });
+  });
+
+  it("should report requests still in progress and conflicting ones", async () => {
+    prismaMock.idempotencyKey.createMany.mockResolvedValue({ count: 0 });
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(savedKey());
+
+    expect(await store.claim("acme", "k", "f")).toEqual({
+      status: "in_progress",
+    });
+    expect(await store.claim("acme", "k", "other")).toEqual({
+      status: "conflict",
+    });
+  });
+
+  it("should keep completed responses for the TTL", async () => {
+    await store.complete("acme", "k", 200, { contact: {} });
+
+    expect(prismaMock.idempotencyKey.updateMany).toHaveBeenCalledWith({
+      where: { tenantId: "acme", key: "k", responseStatus: null },
+      data: {
+        responseStatus: 200,
+        responseBody: { contact: {} },
+        expiresAt: new Date(NOW + TTL_MS),
+      },
+    });
+  });
+
+  it("should purge the expired keys of every tenant", async () => {
+    prismaMock.idempotencyKey.deleteMany.mockResolvedValue({ count: 3 });
+
+    expect(await store.purgeExpired()).toBe(3);
+    expect(prismaMock.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { expiresAt: { lt: new Date(NOW) } },
+    });
+  });
+});
+
+const createRequest = (
+  headers: Record<string, string> = {},
+  body: unknown = { email: "a@b.com" },
+  path = "/identify"
+) =>
+  ({
+    method: "POST",
+    baseUrl: "",
+    path,
+    body,
+    get: (name: string) => headers[name],
+  }) as unknown as Request;
+
+const createResponse = () => {
+  const res = {
+    locals: { context: { tenantId: "acme" } } as Record<string, unknown>,
+    statusCode: 200,
+    status: jest.fn(),
+    set: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockImplementation((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.set.mockReturnValue(res);
+  return res;
+};
+
+const createStore = (...claims: IdempotencyClaim[]) => {
+  const store = {
+    claim: jest.fn(),
+    complete: jest.fn().mockResolvedValue(undefined),
+    release: jest.fn().mockResolvedValue(undefined),
+  };
+  for (const claim of claims) {
+    store.claim.mockResolvedValueOnce(claim);
+  }
+  return store;
+};
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("idempotency", () => {
+  const run = async (
+    store: IdempotencyStore,
+    req: Request = createRequest({ "Idempotency-Key": "k" }),
+    waitTimeoutMs = 1000
+  ) => {
+    const res = createResponse();
+    const json = res.json;
+    const next = jest.fn();
+    await idempotency({ store, waitTimeoutMs, pollIntervalMs: 1 })(
+      req,
+      res as unknown as Response,
+      next
+    );
+    return { res, json, next };
+  };
+
+  it("should leave requests without a key alone", async () => {
+    const store = createStore();
+
+    const { next } = await run(store, createRequest());
+
+    expect(next).toHaveBeenCalledWith();
+    expect(store.claim).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid keys", async () => {
+    const store = createStore();
+
+    const { res, next } = await run(
+      store,
+      createRequest({ "Idempotency-Key": "with space" })
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it("should save the response of a claimed request before sending it", async () => {
+    const store = createStore({ status: "claimed" });
+    const { res, json, next } = await run(store);
+    expect(next).toHaveBeenCalledWith();
+
+    res.status(200);
+    (res as unknown as Response).json({ contact: { primaryContactId: 1 } });
+    await flushPromises();
+
+    expect(store.complete).toHaveBeenCalledWith("acme", "k", 200, {
+      contact: { primaryContactId: 1 },
+    });
+    expect(json).toHaveBeenCalledWith({ contact: { primaryContactId: 1 } });
+  });
+
+  it("should release the key when the request fails", async () => {
+    const store = createStore({ status: "claimed" });
+    const { res, json } = await run(store);
+
+    res.status(500);
+    (res as unknown as Response).json({ message: "Internal Server Error" });
+    await flushPromises();
+
+    expect(store.release).toHaveBeenCalledWith("acme", "k");
+    expect(store.complete).not.toHaveBeenCalled();
+    expect(json).toHaveBeenCalled();
+  });
+
+  it("should replay the response of a completed request", async () => {
+    const store = createStore({
+      status: "completed",
+      responseStatus: 200,
+      responseBody: { contact: { primaryContactId: 1 } },
+    });
+
+    const { res, next } = await run(store);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.set).toHaveBeenCalledWith("Idempotent-Replayed", "true");
+    expect(res.json).toHaveBeenCalledWith({ contact: { primaryContactId: 1 } });
+  });
+
+  it("should reject a different request with the same key", async () => {
+    const { res, next } = await run(createStore({ status: "conflict" }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(422);
+  });
+
+  it("should wait for a request in progress to finish", async () => {
+    const store = createStore(
+      { status: "in_progress" },
+      { status: "in_progress" },
+      { status: "completed", responseStatus: 200, responseBody: {} }
+    );
+
+    const { res } = await run(store);
+
+    expect(store.claim).toHaveBeenCalledTimes(3);
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("should give up waiting after the timeout", async () => {
+    const store = createStore();
+    store.claim.mockResolvedValue({ status: "in_progress" });
+
+    const { res, next } = await run(
+      store,
+      createRequest({ "Idempotency-Key": "k" }),
+      5
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.set).toHaveBeenCalledWith("Retry-After", "1");
+  });
+
+  describe("fingerprintRequest", () => {
+    it("should ignore the order of keys in the body", () => {
+      expect(
+        fingerprintRequest(createRequest({}, { email: "a", phoneNumber: "1" }))
+      ).toBe(
+        fingerprintRequest(createRequest({}, { phoneNumber: "1", email: "a" }))
+      );
+    });
+
+    it("should tell apart requests to different paths", () => {
+      expect(fingerprintRequest(createRequest({}, [], "/identify"))).not.toBe(
+        fingerprintRequest(createRequest({}, [], "/identify/batch"))
+      );
+    });
+  });
+});
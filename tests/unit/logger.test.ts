@@ -0,0 +1,157 @@
+import { EventEmitter } from "events";
+import { Request, Response } from "express";
+import { createLogger } from "../../src/logging/logger";
+import { requestLogging } from "../../src/logging/requestLogging";
+
+const parse = (lines: string[]) => lines.map((line) => JSON.parse(line));
+
+describe("createLogger", () => {
+  let lines: string[];
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it("should write one JSON line per call with the level, time and fields", () => {
+    const logger = createLogger({
+      level: "info",
+      write: (line) => lines.push(line),
+    });
+
+    logger.info("Server started", { port: 3000 });
+
+    expect(parse(lines)).toEqual([
+      {
+        level: "info",
+        time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        message: "Server started",
+        port: 3000,
+      },
+    ]);
+  });
+
+  it("should skip lines below the configured level", () => {
+    const logger = createLogger({
+      level: "warn",
+      write: (line) => lines.push(line),
+    });
+
+    logger.debug("a");
+    logger.info("b");
+    logger.warn("c");
+    logger.error("d");
+
+    expect(parse(lines).map((line) => line.message)).toEqual(["c", "d"]);
+  });
+
+  it("should write nothing when silent", () => {
+    const logger = createLogger({
+      level: "silent",
+      write: (line) => lines.push(line),
+    });
+
+    logger.error("Request failed");
+
+    expect(lines).toEqual([]);
+  });
+
+  it("should add the fields of child loggers to every line", () => {
+    const logger = createLogger({
+      level: "debug",
+      write: (line) => lines.push(line),
+    });
+
+    const child = logger.child({ requestId: "req-1" });
+    child.child({ tenantId: "acme" }).debug("Contacts changed");
+    logger.debug("Unrelated");
+
+    expect(parse(lines)).toEqual([
+      expect.objectContaining({ requestId: "req-1", tenantId: "acme" }),
+      expect.not.objectContaining({ requestId: "req-1" }),
+    ]);
+  });
+
+  it("should write the message and stack of errors", () => {
+    const logger = createLogger({
+      level: "error",
+      write: (line) => lines.push(line),
+    });
+    const error = Object.assign(new Error("connection refused"), {
+      code: "P1001",
+    });
+
+    logger.error("Request failed", { error });
+
+    expect(parse(lines)[0].error).toEqual({
+      name: "Error",
+      message: "connection refused",
+      code: "P1001",
+      stack: error.stack,
+    });
+  });
+});
+
+describe("requestLogging", () => {
+  const createMockLogger = () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(),
+  });
+
+  const run = (headers: Record<string, string> = {}) => {
+    const logger = createMockLogger();
+    const req = {
+      method: "GET",
+      originalUrl: "/contacts?email=lorraine@hillvalley.edu",
+      get: (name: string) => headers[name.toLowerCase()],
+    } as unknown as Request;
+    const res = Object.assign(new EventEmitter(), {
+      locals: {} as Record<string, unknown>,
+      statusCode: 200,
+      set: jest.fn(),
+    });
+    const next = jest.fn();
+
+    requestLogging(logger)(req, res as unknown as Response, next);
+    return { logger, res, next };
+  };
+
+  it("should give every request an id and echo it", () => {
+    const { res, next } = run();
+
+    expect(res.locals.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.set).toHaveBeenCalledWith("X-Request-Id", res.locals.requestId);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("should keep the id the caller sent", () => {
+    const { res } = run({ "x-request-id": "checkout-7f3a" });
+
+    expect(res.locals.requestId).toBe("checkout-7f3a");
+  });
+
+  it("should replace ids that are not plain", () => {
+    const { res } = run({ "x-request-id": 'x", "level": "error' });
+
+    expect(res.locals.requestId).not.toContain('"');
+  });
+
+  it("should log the request once it completed, without the query string", () => {
+    const { logger, res } = run({ "x-request-id": "req-1" });
+    res.locals.context = { tenantId: "acme", requestId: "req-1" };
+
+    expect(logger.info).not.toHaveBeenCalled();
+    res.emit("finish");
+
+    expect(logger.info).toHaveBeenCalledWith("Request completed", {
+      requestId: "req-1",
+      tenantId: "acme",
+      method: "GET",
+      path: "/contacts",
+      statusCode: 200,
+      durationMs: expect.any(Number),
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { EventEmitter } from "events";
+import { ContactEventType } from "@prisma/client";
+import { Request, Response } from "express";
+import {
+  contactChanges,
+  countContactChanges,
+  httpMetrics,
+  registry,
+} from "../../src/metrics/metrics";
+
+const valueOf = async (
+  counter: {
+    get: () => Promise<{
+      values: { value: number; labels: Record<string, unknown> }[];
+    }>;
+  },
+  labels: Record<string, string> = {}
+) =>
+  (await counter.get()).values.find((v) =>
+    Object.entries(labels).every(([name, value]) => v.labels[name] === value)
+  )?.value ?? 0;
+
+const events = (...types: ContactEventType[]) =>
+  types.map((type) => ({ type, payload: { operation: "identify" } }));
+
+describe("metrics", () => {
+  beforeEach(() => {
+    registry.resetMetrics();
+  });
+
+  describe("countContactChanges", () => {
+    it("should count new primaries, new secondaries and merges", async () => {
+      countContactChanges(
+        events(
+          "created",
+          "secondary_linked",
+          "secondary_linked",
+          "primary_merged",
+          "demoted",
+          "relinked"
+        )
+      );
+
+      expect(await valueOf(contactChanges.newPrimaries)).toBe(1);
+      expect(await valueOf(contactChanges.secondariesCreated)).toBe(2);
+      expect(await valueOf(contactChanges.merges)).toBe(1);
+      expect(await valueOf(contactChanges.repromotions)).toBe(0);
+    });
+
+    it("should count every promotion as a re-promotion", async () => {
+      countContactChanges(events("primary_merged", "demoted", "relinked"));
+      countContactChanges(events("deleted", "promoted", "relinked"));
+
+      expect(await valueOf(contactChanges.merges)).toBe(1);
+      expect(await valueOf(contactChanges.repromotions)).toBe(1);
+    });
+
+    it("should count re-promotions in a transaction that also merged", async () => {
+      // An /identify that repairs an orphaned secondary it matched and
+      // merges its identity with another one
+      countContactChanges(events("promoted", "primary_merged", "demoted"));
+
+      expect(await valueOf(contactChanges.merges)).toBe(1);
+      expect(
+        await valueOf(contactChanges.repromotions, { reason: "repair" })
+      ).toBe(1);
+    });
+
+    it("should label re-promotions by the operation that caused them", async () => {
+      const promoted = (operation: string) => ({
+        type: "promoted" as const,
+        payload: { operation },
+      });
+      countContactChanges([
+        promoted("deleteContact"),
+        promoted("deleteContact"),
+      ]);
+      countContactChanges([promoted("splitIdentity")]);
+      countContactChanges([promoted("repairLinks"), promoted("identify")]);
+
+      const { repromotions } = contactChanges;
+      expect(await valueOf(repromotions, { reason: "delete" })).toBe(2);
+      expect(await valueOf(repromotions, { reason: "split" })).toBe(1);
+      expect(await valueOf(repromotions, { reason: "repair" })).toBe(2);
+    });
+  });
+
+  describe("httpMetrics", () => {
+    const run = (route?: { path: string }) => {
+      const req = {
+        method: "GET",
+        baseUrl: "",
+        route,
+      } as unknown as Request;
+      const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+      const next = jest.fn();
+      httpMetrics(req, res as unknown as Response, next);
+      res.emit("finish");
+      return next;
+    };
+
+    it("should time requests by the route that matched", async () => {
+      const next = run({ path: "/contacts/:id" });
+
+      expect(next).toHaveBeenCalledWith();
+      const text = await registry.metrics();
+      expect(text).toContain(
+        'http_request_duration_seconds_count{method="GET",route="/contacts/:id",status_code="200"} 1'
+      );
+    });
+
+    it("should put requests no route matched in one series", async () => {
+      run();
+
+      expect(await registry.metrics()).toContain('route="unmatched"');
+    });
+  });
+});
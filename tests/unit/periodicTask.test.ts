@@ -0,0 +1,43 @@
+import { logger } from "../../src/logging/logger";
+import { startPeriodicTask } from "../../src/utils/periodicTask";
+
+describe("startPeriodicTask", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("should run the task every interval until stopped", async () => {
+    const task = jest.fn().mockResolvedValue(undefined);
+    const stop = startPeriodicTask(1000, task, "Task failed");
+
+    expect(task).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    stop();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("should log failures and keep running", async () => {
+    const error = jest.spyOn(logger, "error").mockImplementation(() => {});
+    const failure = new Error("Database unavailable");
+    const task = jest
+      .fn()
+      .mockRejectedValueOnce(failure)
+      .mockResolvedValue(undefined);
+    const stop = startPeriodicTask(1000, task, "Task failed");
+
+    await jest.advanceTimersByTimeAsync(2000);
+    stop();
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(error).toHaveBeenCalledWith("Task failed", { error: failure });
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  createPrimarySelectionStrategy,
+  mostRecentlyActiveFirst,
+  oldestFirst,
+  selectPrimary,
+  verifiedFirst,
+} from "../../src/selection/primarySelection";
+import {
+  createMockContact,
+  mockContacts,
+  mockSeparatePrimaryContact,
+} from "../fixtures/contactData";
+
+describe("primarySelection", () => {
+  const [olderPrimary, secondary1, secondary2] = mockContacts;
+  const newerPrimary = mockSeparatePrimaryContact;
+
+  describe("oldestFirst", () => {
+    it("should pick the contact created first", () => {
+      expect(selectPrimary(oldestFirst, [newerPrimary, olderPrimary])).toBe(
+        olderPrimary
+      );
+      expect(selectPrimary(oldestFirst, [secondary2, secondary1])).toBe(
+        secondary1
+      );
+    });
+
+    it("should break ties on the lowest id", () => {
+      const createdAt = new Date("2023-04-01T00:00:00Z");
+      const a = createMockContact({ id: 8, createdAt });
+      const b = createMockContact({ id: 7, createdAt });
+
+      expect(selectPrimary(oldestFirst, [a, b])).toBe(b);
+    });
+  });
+
+  describe("mostRecentlyActiveFirst", () => {
+    it("should pick the contact written to last", () => {
+      expect(
+        selectPrimary(mostRecentlyActiveFirst, [olderPrimary, newerPrimary])
+      ).toBe(newerPrimary);
+    });
+
+    it("should prefer a re-linked contact over a newer untouched one", () => {
+      const relinked = {
+        ...olderPrimary,
+        updatedAt: new Date("2023-05-01T00:00:00Z"),
+      };
+
+      expect(
+        selectPrimary(mostRecentlyActiveFirst, [newerPrimary, relinked])
+      ).toBe(relinked);
+    });
+
+    it("should fall back to the oldest contact on ties", () => {
+      const updatedAt = new Date("2023-05-01T00:00:00Z");
+      const older = { ...olderPrimary, updatedAt };
+      const newer = { ...newerPrimary, updatedAt };
+
+      expect(selectPrimary(mostRecentlyActiveFirst, [newer, older])).toBe(
+        older
+      );
+    });
+  });
+
+  describe("verifiedFirst", () => {
+    it("should pick a contact with a verified email or phone number", () => {
+      const verified = {
+        ...newerPrimary,
+        phoneNumberVerifiedAt: new Date("2023-05-01T00:00:00Z"),
+      };
+
+      expect(selectPrimary(verifiedFirst, [olderPrimary, verified])).toBe(
+        verified
+      );
+    });
+
+    it("should fall back to the oldest contact", () => {
+      const verifiedAt = new Date("2023-05-01T00:00:00Z");
+      const older = { ...olderPrimary, emailVerifiedAt: verifiedAt };
+      const newer = { ...newerPrimary, phoneNumberVerifiedAt: verifiedAt };
+
+      expect(selectPrimary(verifiedFirst, [newer, older])).toBe(older);
+      expect(selectPrimary(verifiedFirst, [newerPrimary, olderPrimary])).toBe(
+        olderPrimary
+      );
+    });
+  });
+
+  describe("selectPrimary", () => {
+    it("should throw when there are no candidates", () => {
+      expect(() => selectPrimary(oldestFirst, [])).toThrow();
+    });
+  });
+
+  describe("createPrimarySelectionStrategy", () => {
+    it("should create the strategies by name", () => {
+      expect(createPrimarySelectionStrategy("oldest")).toBe(oldestFirst);
+      expect(createPrimarySelectionStrategy("mostRecentlyActive")).toBe(
+        mostRecentlyActiveFirst
+      );
+      expect(createPrimarySelectionStrategy("verified")).toBe(verifiedFirst);
+    });
+
+    it("should default to the oldest contact", () => {
+      expect(createPrimarySelectionStrategy()).toBe(oldestFirst);
+    });
+
+    it("should reject unknown strategies", () => {
+      expect(() => createPrimarySelectionStrategy("loudest")).toThrow(
+        'Unknown primary selection strategy "loudest"'
+      );
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { Request, Response } from "express";
+import { rateLimit, RateLimitRule } from "../../src/rateLimit/rateLimit";
+import {
+  MemoryRateLimitStore,
+  RateLimitStore,
+} from "../../src/rateLimit/rateLimitStore";
+
+const policy = { capacity: 3, refillPerMinute: 60 };
+
+describe("MemoryRateLimitStore", () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    now = 0;
+    store = new MemoryRateLimitStore(() => now);
+  });
+
+  const take = async (key: string, cost: number) => {
+    const [result] = await store.consume([{ key, policy, cost }]);
+    return result;
+  };
+
+  it("should allow a burst up to the capacity", async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await take("a", 1));
+    }
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3]).toMatchObject({ retryAfterSeconds: 1, resetSeconds: 3 });
+  });
+
+  it("should refill tokens over time", async () => {
+    await take("a", 3);
+
+    now = 1500;
+    const result = await take("a", 1);
+
+    expect(result.allowed).toBe(true);
+    expect(result.remaining).toBe(0);
+  });
+
+  it("should keep separate buckets per key", async () => {
+    await take("a", 3);
+
+    expect((await take("b", 3)).allowed).toBe(true);
+  });
+
+  it("should not take tokens from rejected requests", async () => {
+    await take("a", 2);
+    expect((await take("a", 2)).allowed).toBe(false);
+
+    expect((await take("a", 1)).allowed).toBe(true);
+  });
+
+  it("should take nothing from any bucket when one holds too few tokens", async () => {
+    await take("a", 2);
+
+    const results = await store.consume([
+      { key: "b", policy, cost: 2 },
+      { key: "a", policy, cost: 2 },
+    ]);
+
+    expect(results.map((r) => r.allowed)).toEqual([true, false]);
+    expect((await take("b", 3)).allowed).toBe(true);
+  });
+
+  it("should evict buckets once it holds too many", async () => {
+    store = new MemoryRateLimitStore(() => now, 2);
+    await take("a", 3);
+    await take("b", 3);
+
+    // "a" is evicted as the least recently used bucket, and starts full again
+    await take("c", 3);
+    expect((await take("a", 3)).allowed).toBe(true);
+  });
+});
+
+const createResponse = () => {
+  const res = {
+    locals: {} as Record<string, unknown>,
+    status: jest.fn(),
+    set: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  res.set.mockReturnValue(res);
+  return res;
+};
+
+describe("rateLimit", () => {
+  const rule = (
+    name: string,
+    capacity: number,
+    key: RateLimitRule["key"] = () => "k"
+  ): RateLimitRule => ({
+    name,
+    policy: { capacity, refillPerMinute: 60 },
+    key,
+  });
+
+  const run = async (
+    middleware: ReturnType<typeof rateLimit>,
+    body: unknown = {}
+  ) => {
+    const res = createResponse();
+    const next = jest.fn();
+    await middleware({ body } as Request, res as unknown as Response, next);
+    return { res, next };
+  };
+
+  it("should set the rate limit headers on allowed requests", async () => {
+    const middleware = rateLimit({
+      store: new MemoryRateLimitStore(),
+      rules: [rule("client", 5)],
+    });
+
+    const { res, next } = await run(middleware);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.set).toHaveBeenCalledWith({
+      "RateLimit-Limit": "5",
+      "RateLimit-Remaining": "4",
+      "RateLimit-Reset": "1",
+    });
+  });
+
+  it("should reject requests over the limit with Retry-After", async () => {
+    const middleware = rateLimit({
+      store: new MemoryRateLimitStore(),
+      rules: [rule("client", 1)],
+    });
+
+    await run(middleware);
+    const { res, next } = await run(middleware);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.set).toHaveBeenCalledWith("Retry-After", "1");
+  });
+
+  it("should report the most restrictive rule and skip rules without a key", async () => {
+    const middleware = rateLimit({
+      store: new MemoryRateLimitStore(),
+      rules: [rule("client", 10), rule("ip", 2), rule("other", 1, () => null)],
+    });
+
+    const { res } = await run(middleware);
+
+    expect(res.set).toHaveBeenCalledWith(
+      expect.objectContaining({ "RateLimit-Limit": "2" })
+    );
+  });
+
+  it("should charge the request cost, capped at the capacity", async () => {
+    const store = new MemoryRateLimitStore();
+    const middleware = rateLimit({
+      store,
+      rules: [rule("client", 5)],
+      cost: (req) => (req.body as unknown[]).length,
+    });
+
+    const { next } = await run(middleware, new Array(50).fill({}));
+
+    expect(next).toHaveBeenCalledWith();
+    const [result] = await store.consume([
+      { key: "client:k", policy: rule("client", 5).policy, cost: 1 },
+    ]);
+    expect(result.allowed).toBe(false);
+  });
+
+  it("should not charge other rules for requests one rule rejects", async () => {
+    const store = new MemoryRateLimitStore();
+    const middleware = rateLimit({
+      store,
+      rules: [rule("client", 5), rule("ip", 1)],
+    });
+
+    await run(middleware);
+    const { next } = await run(middleware);
+
+    expect(next).not.toHaveBeenCalled();
+    const [client] = await store.consume([
+      { key: "client:k", policy: rule("client", 5).policy, cost: 0 },
+    ]);
+    expect(client.remaining).toBe(4);
+  });
+
+  it("should let requests through when the store fails", async () => {
+    const store: RateLimitStore = {
+      consume: jest.fn().mockRejectedValue(new Error("store down")),
+    };
+
+    const { next } = await run(
+      rateLimit({ store, rules: [rule("client", 1)] })
+    );
+
+    expect(next).toHaveBeenCalledWith();
+  });
+});
@@ -0,0 +1,217 @@
+import { ApiKey } from "@prisma/client";
+import { Request, Response } from "express";
+import { requireApiKey } from "../../src/auth/requireApiKey";
+import { hashApiKey } from "../../src/services/apiKeyService";
+import { prismaMock } from "../mocks/prismaClient";
+
+jest.mock("@prisma/client", () => {
+  const { prismaMock: mock } = require("../mocks/prismaClient");
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mock),
+  };
+});
+
+const KEY = "bsk_abcdefgh-secret";
+
+const storedKey: ApiKey = {
+  id: 1,
+  name: "storefront",
+  prefix: "bsk_abcdefgh",
+  hashedKey: hashApiKey(KEY),
+  scopes: ["identify"],
+  createdAt: new Date("2026-10-01T00:00:00Z"),
+  lastUsedAt: new Date(),
+  revokedAt: null,
+  tenantId: null,
+  anyTenant: false,
+};
+
+const createRequest = (headers: Record<string, string>) =>
+  ({
+    get: (name: string) => headers[name.toLowerCase()],
+  }) as unknown as Request;
+
+const createResponse = () => {
+  const res = {
+    locals: {} as Record<string, unknown>,
+    status: jest.fn(),
+    set: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  res.set.mockReturnValue(res);
+  return res;
+};
+
+const run = async (scope: "identify" | "read", headers = {}) => {
+  const res = createResponse();
+  const next = jest.fn();
+  await requireApiKey(scope)(
+    createRequest(headers),
+    res as unknown as Response,
+    next
+  );
+  return { res, next };
+};
+
+describe("requireApiKey", () => {
+  it("should reject requests without a key", async () => {
+    const { res, next } = await run("identify");
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.set).toHaveBeenCalledWith("WWW-Authenticate", "Bearer");
+    expect(prismaMock.apiKey.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown keys", async () => {
+    prismaMock.apiKey.findUnique.mockResolvedValue(null);
+
+    const { res, next } = await run("identify", { "x-api-key": "bsk_nope" });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it("should reject keys without the required scope", async () => {
+    prismaMock.apiKey.findUnique.mockResolvedValue(storedKey);
+
+    const { res, next } = await run("read", { "x-api-key": KEY });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      message: 'The API key lacks the "read" scope.',
+    });
+  });
+
+  it("should accept a scoped key from the X-API-Key header", async () => {
+    prismaMock.apiKey.findUnique.mockResolvedValue(storedKey);
+
+    const { res, next } = await run("identify", { "x-api-key": KEY });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals.apiKey).toMatchObject({ id: 1, name: "storefront" });
+    expect(res.locals.context).toEqual({ tenantId: "default" });
+  });
+
+  it("should carry the request id into the context", async () => {
+    prismaMock.apiKey.findUnique.mockResolvedValue(storedKey);
+    const res = createResponse();
+    res.locals.requestId = "req-42";
+
+    await requireApiKey("identify")(
+      createRequest({ "x-api-key": KEY }),
+      res as unknown as Response,
+      jest.fn()
+    );
+
+    expect(res.locals.context).toEqual({
+      tenantId: "default",
+      requestId: "req-42",
+    });
+  });
+
+  it("should accept a bearer token", async () => {
+    prismaMock.apiKey.findUnique.mockResolvedValue(storedKey);
+
+    const { next } = await run("identify", { authorization: `Bearer ${KEY}` });
+
+    expect(prismaMock.apiKey.findUnique).toHaveBeenCalledWith({
+      where: { hashedKey: hashApiKey(KEY) },
+    });
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  describe("tenant resolution", () => {
+    it("should let keys issued for any tenant pick one with X-Tenant-Id", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        anyTenant: true,
+      });
+
+      const { res, next } = await run("identify", {
+        "x-api-key": KEY,
+        "x-tenant-id": "acme",
+      });
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.locals.context).toEqual({ tenantId: "acme" });
+    });
+
+    it("should keep keys issued for no tenant to the default tenant", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue(storedKey);
+
+      const { res, next } = await run("identify", {
+        "x-api-key": KEY,
+        "x-tenant-id": "acme",
+      });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+
+      const fallback = await run("identify", { "x-api-key": KEY });
+      expect(fallback.res.locals.context).toEqual({ tenantId: "default" });
+    });
+
+    it("should scope bound keys to their tenant", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        tenantId: "acme",
+      });
+
+      const { res, next } = await run("identify", { "x-api-key": KEY });
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.locals.context).toEqual({ tenantId: "acme" });
+    });
+
+    it("should reject bound keys asking for another tenant", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        tenantId: "acme",
+      });
+
+      const { res, next } = await run("identify", {
+        "x-api-key": KEY,
+        "x-tenant-id": "globex",
+      });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'The API key is not valid for tenant "globex".',
+      });
+    });
+
+    it("should reject malformed tenant ids", async () => {
+      prismaMock.apiKey.findUnique.mockResolvedValue(storedKey);
+
+      const { res, next } = await run("identify", {
+        "x-api-key": KEY,
+        "x-tenant-id": "acme corp",
+      });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        message: expect.stringContaining("X-Tenant-Id"),
+        errors: [
+          expect.objectContaining({
+            field: "X-Tenant-Id",
+            code: "invalid_format",
+          }),
+        ],
+      });
+    });
+  });
+
+  it("should respond with 500 when the lookup fails", async () => {
+    prismaMock.apiKey.findUnique.mockRejectedValue(new Error("DB down"));
+
+    const { res, next } = await run("identify", { "x-api-key": KEY });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+});
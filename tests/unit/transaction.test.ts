@@ -0,0 +1,82 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  isSerializationFailure,
+  runSerializableTransaction,
+} from "../../src/utils/transaction";
+import { prismaMock } from "../mocks/prismaClient";
+
+const serializationError = () =>
+  Object.assign(new Error("Transaction failed due to a write conflict"), {
+    code: "P2034",
+  });
+
+describe("transaction utilities", () => {
+  const prisma = prismaMock as unknown as PrismaClient;
+
+  describe("isSerializationFailure", () => {
+    it("should detect the Prisma serialization failure code", () => {
+      expect(isSerializationFailure(serializationError())).toBe(true);
+    });
+
+    it("should detect raw Postgres serialization failures", () => {
+      expect(
+        isSerializationFailure(
+          new Error("could not serialize access (SQLSTATE 40001)")
+        )
+      ).toBe(true);
+    });
+
+    it("should ignore unrelated errors", () => {
+      expect(isSerializationFailure(new Error("Database error"))).toBe(false);
+      expect(isSerializationFailure(null)).toBe(false);
+    });
+  });
+
+  describe("runSerializableTransaction", () => {
+    it("should run the callback in a serializable transaction", async () => {
+      const result = await runSerializableTransaction(prisma, async () => 42);
+
+      expect(result).toBe(42);
+      expect(prismaMock.$transaction).toHaveBeenCalledWith(
+        expect.any(Function),
+        { isolationLevel: "Serializable" }
+      );
+    });
+
+    it("should retry when a serialization failure occurs", async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(serializationError())
+        .mockRejectedValueOnce(serializationError())
+        .mockResolvedValueOnce("done");
+
+      const result = await runSerializableTransaction(prisma, fn, {
+        baseDelayMs: 0,
+      });
+
+      expect(result).toBe("done");
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should give up after the maximum number of retries", async () => {
+      const fn = jest.fn().mockRejectedValue(serializationError());
+
+      await expect(
+        runSerializableTransaction(prisma, fn, {
+          maxRetries: 2,
+          baseDelayMs: 0,
+        })
+      ).rejects.toMatchObject({ code: "P2034" });
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry other errors", async () => {
+      const fn = jest.fn().mockRejectedValue(new Error("Database error"));
+
+      await expect(
+        runSerializableTransaction(prisma, fn, { baseDelayMs: 0 })
+      ).rejects.toThrow("Database error");
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
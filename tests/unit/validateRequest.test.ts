@@ -0,0 +1,266 @@
+import { Request, Response } from "express";
+import {
+  bodyParserErrorHandler,
+  validateRequest,
+  validateValue,
+} from "../../src/validation/validateRequest";
+
+const createResponse = () => {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+describe("validateRequest", () => {
+  describe("validateValue", () => {
+    it("should accept a valid identify request", () => {
+      expect(
+        validateValue("IdentifyRequest", {
+          email: " Doc@Flux.com ",
+          phoneNumber: "+1 (555) 000-1",
+        })
+      ).toEqual([]);
+      expect(
+        validateValue("IdentifyRequest", { email: null, phoneNumber: "555" })
+      ).toEqual([]);
+    });
+
+    it("should accept requests identified by other identifier types only", () => {
+      expect(
+        validateValue("IdentifyRequest", {
+          identifiers: { loyaltyCard: "LC-0042", deviceId: null },
+        })
+      ).toEqual([]);
+    });
+
+    it("should reject identifier types that are not configured", () => {
+      expect(
+        validateValue("IdentifyRequest", {
+          email: "doc@flux.com",
+          identifiers: { passport: "X123" },
+        })
+      ).toEqual([
+        {
+          field: "identifiers.passport",
+          code: "unknown_identifier_type",
+          message:
+            "identifiers may only contain the types: loyaltyCard, deviceId, paymentFingerprint.",
+        },
+      ]);
+    });
+
+    it("should not count empty identifiers as an identifier", () => {
+      expect(
+        validateValue("IdentifyRequest", { identifiers: {} })[0].code
+      ).toBe("missing_identifier");
+    });
+
+    it("should report a missing identifier once with its own code", () => {
+      expect(
+        validateValue("IdentifyRequest", { email: null, phoneNumber: null })
+      ).toEqual([
+        {
+          field: "body",
+          code: "missing_identifier",
+          message: "Email or phone number must be provided.",
+        },
+      ]);
+    });
+
+    it("should accept phone numbers sent as numbers", () => {
+      expect(validateValue("IdentifyRequest", { phoneNumber: 123456 })).toEqual(
+        []
+      );
+    });
+
+    it("should report field-level errors for every invalid field", () => {
+      const errors = validateValue("IdentifyRequest", {
+        email: 42,
+        phoneNumber: { number: "555" },
+      });
+
+      expect(errors).toEqual([
+        {
+          field: "email",
+          code: "invalid_type",
+          message: "email must be of type string.",
+        },
+        {
+          field: "phoneNumber",
+          code: "invalid_type",
+          message: "phoneNumber must be of type string or number.",
+        },
+      ]);
+    });
+
+    it("should enforce the email format, phone characters and length limits", () => {
+      const errors = validateValue("IdentifyRequest", {
+        email: "not-an-email",
+        phoneNumber: `555-${"0".repeat(40)}; DROP`,
+      });
+
+      expect(errors.map(({ field, code }) => ({ field, code }))).toEqual([
+        { field: "email", code: "invalid_format" },
+        { field: "phoneNumber", code: "too_long" },
+        { field: "phoneNumber", code: "invalid_format" },
+      ]);
+      expect(errors[2].message).toBe(
+        "phoneNumber may only contain digits, spaces and the characters + ( ) . / -"
+      );
+    });
+
+    it("should report only the type error for a body that is not an object", () => {
+      expect(validateValue("IdentifyRequest", "doc@flux.com", "item")).toEqual([
+        {
+          field: "item",
+          code: "invalid_type",
+          message: "item must be of type object.",
+        },
+      ]);
+    });
+
+    it("should name nested fields by their path", () => {
+      expect(
+        validateValue("SplitRequest", { contactIds: [1, -2], dryRun: "yes" })
+      ).toEqual([
+        {
+          field: "contactIds.1",
+          code: "out_of_range",
+          message: "contactIds.1 must be >= 1.",
+        },
+        {
+          field: "dryRun",
+          code: "invalid_type",
+          message: "dryRun must be of type boolean.",
+        },
+      ]);
+      expect(validateValue("SplitRequest", {})).toEqual([
+        {
+          field: "contactIds",
+          code: "required",
+          message: "contactIds is required.",
+        },
+      ]);
+    });
+
+    it("should bound ids to the range of the id columns", () => {
+      expect(validateValue("ContactIdParams", { id: "2147483647" })).toEqual(
+        []
+      );
+      for (const id of ["2147483648", "2999999999", "9999999999", "0"]) {
+        expect(validateValue("ContactIdParams", { id }, "params")).toEqual([
+          {
+            field: "id",
+            code: "invalid_format",
+            message: "Contact id must be an integer from 1 to 2147483647.",
+          },
+        ]);
+      }
+      expect(
+        validateValue("MergeSuggestionIdParams", { id: "2147483648" })
+      ).toHaveLength(1);
+      expect(
+        validateValue("WebhookIdParams", { id: "2147483648" })
+      ).toHaveLength(1);
+      expect(validateValue("MergeSuggestionQuery", { after: "0" })).toEqual([]);
+      expect(
+        validateValue("MergeSuggestionQuery", { after: "2147483648" })
+      ).toHaveLength(1);
+      expect(
+        validateValue("SplitRequest", { contactIds: [2147483648] })
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("middleware", () => {
+    it("should call next for a valid request", () => {
+      const next = jest.fn();
+      const res = createResponse();
+
+      validateRequest({ params: "ContactIdParams", query: "DeletionQuery" })(
+        { params: { id: "12" }, query: { mode: "erase" } } as unknown as Request,
+        res as unknown as Response,
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it("should respond with 400 and the errors of every request part", () => {
+      const next = jest.fn();
+      const res = createResponse();
+
+      validateRequest({ params: "ContactIdParams", query: "DeletionQuery" })(
+        { params: { id: "abc" }, query: { mode: "shred" } } as unknown as Request,
+        res as unknown as Response,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        message: "Contact id must be an integer from 1 to 2147483647.",
+        errors: [
+          {
+            field: "id",
+            code: "invalid_format",
+            message: "Contact id must be an integer from 1 to 2147483647.",
+          },
+          {
+            field: "mode",
+            code: "invalid_value",
+            message: "Deletion mode must be either soft or erase.",
+          },
+        ],
+      });
+    });
+  });
+
+  describe("bodyParserErrorHandler", () => {
+    it("should report malformed JSON as a validation error", () => {
+      const next = jest.fn();
+      const res = createResponse();
+      const error = Object.assign(new SyntaxError("Unexpected token"), {
+        type: "entity.parse.failed",
+        status: 400,
+      });
+
+      bodyParserErrorHandler(
+        error,
+        {} as Request,
+        res as unknown as Response,
+        next
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        message: "Request body must be valid JSON.",
+        errors: [
+          {
+            field: "body",
+            code: "invalid_json",
+            message: "Request body must be valid JSON.",
+          },
+        ],
+      });
+    });
+
+    it("should pass other errors on", () => {
+      const next = jest.fn();
+      const error = new Error("boom");
+
+      bodyParserErrorHandler(
+        error,
+        {} as Request,
+        createResponse() as unknown as Response,
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+});
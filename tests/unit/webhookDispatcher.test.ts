@@ -0,0 +1,159 @@
+import { WebhookDelivery, WebhookSubscription } from "@prisma/client";
+import {
+  retryDelayMs,
+  WebhookDispatcher,
+} from "../../src/services/webhookDispatcher";
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "../../src/utils/webhookSignature";
+import { prismaMock } from "../mocks/prismaClient";
+
+jest.mock("@prisma/client", () => {
+  const { prismaMock: mock } = require("../mocks/prismaClient");
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mock),
+  };
+});
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const secret = "whsec_test";
+const options = {
+  maxAttempts: 3,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 5000,
+  timeoutMs: 100,
+};
+
+const createDelivery = (
+  overrides: Partial<WebhookDelivery> = {}
+): WebhookDelivery & { subscription: WebhookSubscription } => ({
+  id: 3,
+  subscriptionId: 7,
+  eventType: "primaries_merged",
+  payload: { type: "primaries_merged", data: { primaryContactId: 1 } },
+  status: "pending",
+  attempts: 0,
+  nextAttemptAt: new Date(NOW - 1000),
+  lastError: null,
+  deliveredAt: null,
+  createdAt: new Date(NOW - 1000),
+  ...overrides,
+  subscription: {
+    id: 7,
+    tenantId: "default",
+    url: "http://localhost:4000/hooks",
+    secret,
+    events: ["primaries_merged"],
+    createdAt: new Date(NOW - 60_000),
+  },
+});
+
+describe("WebhookDispatcher", () => {
+  let send: jest.Mock;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(() => {
+    send = jest.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    dispatcher = new WebhookDispatcher(options, send, () => NOW);
+    prismaMock.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should POST due deliveries with a verifiable signature", async () => {
+    prismaMock.webhookDelivery.findMany.mockResolvedValue([createDelivery()]);
+
+    expect(await dispatcher.dispatchDue()).toBe(1);
+
+    const [url, init] = send.mock.calls[0];
+    expect(url).toBe("http://localhost:4000/hooks");
+    expect(init.headers).toMatchObject({
+      "Webhook-Id": "3",
+      "Webhook-Event": "primaries_merged",
+    });
+    expect(
+      verifyWebhookSignature(
+        secret,
+        init.body,
+        init.headers["Webhook-Signature"],
+        NOW
+      )
+    ).toBe(true);
+    expect(prismaMock.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: {
+        status: "delivered",
+        attempts: 1,
+        deliveredAt: new Date(NOW),
+        lastError: null,
+      },
+    });
+  });
+
+  it("should skip deliveries claimed by another dispatcher", async () => {
+    prismaMock.webhookDelivery.findMany.mockResolvedValue([createDelivery()]);
+    prismaMock.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await dispatcher.dispatchDue()).toBe(0);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("should schedule a retry with backoff after a failure", async () => {
+    prismaMock.webhookDelivery.findMany.mockResolvedValue([
+      createDelivery({ attempts: 1 }),
+    ]);
+    send.mockResolvedValue(new Response(null, { status: 503 }));
+
+    await dispatcher.dispatchDue();
+
+    expect(prismaMock.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: {
+        attempts: 2,
+        lastError: "HTTP 503",
+        nextAttemptAt: new Date(NOW + 2000),
+      },
+    });
+  });
+
+  it("should dead-letter deliveries out of attempts", async () => {
+    prismaMock.webhookDelivery.findMany.mockResolvedValue([
+      createDelivery({ attempts: 2 }),
+    ]);
+    send.mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    await dispatcher.dispatchDue();
+
+    expect(prismaMock.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: { status: "dead", attempts: 3, lastError: "connect ECONNREFUSED" },
+    });
+  });
+
+  it("should cap the backoff delay", () => {
+    expect([1, 2, 3, 4, 5].map((n) => retryDelayMs(n, options))).toEqual([
+      1000, 2000, 4000, 5000, 5000,
+    ]);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const body = '{"type":"new_primary"}';
+  const timestamp = Math.floor(NOW / 1000);
+  const header = signWebhookPayload(secret, body, timestamp);
+
+  it("should reject a tampered body or another secret", () => {
+    expect(verifyWebhookSignature(secret, body, header, NOW)).toBe(true);
+    expect(verifyWebhookSignature(secret, `${body} `, header, NOW)).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", body, header, NOW)).toBe(
+      false
+    );
+  });
+
+  it("should reject stale or malformed signatures", () => {
+    expect(verifyWebhookSignature(secret, body, header, NOW + 600_000)).toBe(
+      false
+    );
+    expect(verifyWebhookSignature(secret, body, "v1=abc", NOW)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, undefined, NOW)).toBe(false);
+  });
+});